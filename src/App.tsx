@@ -1,272 +1,644 @@
-import React, { useState, useEffect } from 'react';
-import { Folder, File, Plus, Save, Edit, Trash, Moon, Sun, FileText } from 'lucide-react';
-import { EditorState, convertToRaw, convertFromRaw } from 'draft-js';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Folder, File, Plus, Save, Edit, Trash, FileText, History, BookOpen, Upload, Flame, LayoutGrid, Table, Library, StickyNote, Paperclip, Columns2, Rows2, Maximize2, MessageSquare, Undo2, Redo2, BookmarkPlus, Keyboard, SpellCheck } from 'lucide-react';
+import { ContentState, Editor as DraftEditor, EditorState, SelectionState, convertToRaw } from 'draft-js';
 import { Editor } from 'react-draft-wysiwyg';
 import 'react-draft-wysiwyg/dist/react-draft-wysiwyg.css';
 import './App.css';
-import { DragDropContext, Droppable, Draggable, DroppableProvided, DraggableProvided } from 'react-beautiful-dnd';
-import jsPDF from 'jspdf';
-
-interface ProjectMetadata {
-  status: 'Not Started' | 'In Progress' | 'Completed';
-  wordCountGoal: number;
-  actualWordCount: number;
-  lastModified: string;
-  creationDate: string;
-  completionPercentage: number;
-  tags: string[];
-  author: string;
-  estimatedReadingTime: number;
-  version: string;
-}
-
-interface Project {
-  id: number;
-  name: string;
-  type: 'project' | 'chapter';
-  children: Project[];
-  content?: string;
-  metadata: ProjectMetadata;
-}
-
-const countWords = (content: string): number => {
-  const plainText = content.replace(/<[^>]+>/g, '');
-  return plainText.trim().split(/\s+/).length;
-};
-
-const saveProjectsToLocalStorage = (projects: Project[]) => {
-  localStorage.setItem('projects', JSON.stringify(projects));
-};
-
-const loadProjectsFromLocalStorage = (): Project[] => {
-  const savedProjects = localStorage.getItem('projects');
-  if (savedProjects) {
-    return JSON.parse(savedProjects);
-  }
-  return [];
-};
-
-const getInitialProjects = (): Project[] => {
-  const savedProjects = loadProjectsFromLocalStorage();
-  return savedProjects;
-};
-
-const useProjectsWithStorage = () => {
-  const [projects, setProjectsState] = useState(getInitialProjects);
+import { DragDropContext, Droppable, Draggable, DroppableProvided, DraggableProvided, DropResult } from 'react-beautiful-dnd';
+import { ChapterVersion, CustomFieldDefinition, MetadataSchema, Project, ProjectMetadata, WritingLog } from './types';
+import { createEditorState, getRawBlocks } from './utils/content';
+import { findCommentAnchors } from './utils/comments';
+import { compileToPDF } from './utils/compile';
+import { createDefaultMetadata } from './utils/metadata';
+import { countFieldUsage, defaultMetadataSchema, getMetadataSchema, getStatusColor, removeField, renameStatus } from './utils/metadataSchema';
+import { applyTreeOperation, diffMetadata, diffProjectSchema, emptyTreeHistory, recordOperation, stepTreeHistory, TreeHistory, TreeOperation } from './utils/history';
+import { applyBulkChange, BulkMetadataChange } from './utils/outliner';
+import { getCardMoveIndex, parseCardDraggableId, parseCorkboardRowId } from './utils/corkboard';
+import { downloadBlob, readFileAsDataUrl, readFileAsText } from './utils/files';
+import { collectResearchItems, createAttachmentNode, createResearchFolder, findResearchFolder, RESEARCH_FILE_ACCEPT } from './utils/research';
+import { countIdClashes, createProjectFile, mergeProjects, MergeStrategy, parseProjectFile, ProjectFile } from './utils/projectFile';
+import { ReplaceChange, replaceInProjects, SearchMatch, SearchOptions, undoReplace } from './utils/search';
+import { calculateNodeStats, LiveWordCounts } from './utils/stats';
+import { emptyTrash, getBinder, getTrashedItems, purgeFromTrash, withBinder } from './utils/trash';
+import { createVersion } from './utils/versions';
+import { countWords, LintFinding, LintSettings, loadLintSettings, saveLintSettings, withWordCountMetadata } from './utils/textAnalysis';
+import { combineWritingDays, createWritingLog, recordProjectWords, updateWritingLog } from './utils/writingLog';
+import {
+  collectChapters,
+  findNode,
+  findNodePosition,
+  findRootProject,
+  flattenTree,
+  generateId,
+  getAdjacentChapter,
+  getDroppableId,
+  isContainer,
+  isTextDocument,
+  parseDroppableId,
+} from './utils/tree';
+import { addToCollection, Collection, collectionToProject, createManualCollection, createSmartCollection, getCollectionItems, importCollections, moveInCollection, removeFromCollection } from './collections/collections';
+import useCollections from './collections/useCollections';
+import { Command, findCommandByCombo, getKeyCombo, isTypingCombo, Keybindings, resolveKeybindings } from './commands/commands';
+import useKeybindings from './commands/useKeybindings';
+import { getEditorDecorators } from './components/editorDecorators';
+import CollectionPicker from './components/CollectionPicker';
+import CollectionTabs from './components/CollectionTabs';
+import CollectionView from './components/CollectionView';
+import CommandPalette, { PaletteMode } from './components/CommandPalette';
+import CommentsMargin from './components/CommentsMargin';
+import CompilePanel from './components/CompilePanel';
+import CompositionMode from './components/CompositionMode';
+import Corkboard from './components/Corkboard';
+import CustomFieldInputs from './components/CustomFieldInputs';
+import EditorPane from './components/EditorPane';
+import { editorToolbar } from './components/editorToolbar';
+import ExportMenu from './components/ExportMenu';
+import FieldBadges from './components/FieldBadges';
+import ImportPanel from './components/ImportPanel';
+import KeybindingsEditor from './components/KeybindingsEditor';
+import LintPanel, { LintDocument } from './components/LintPanel';
+import { LintSettingsContext } from './components/lintDecorator';
+import MetadataSchemaEditor from './components/MetadataSchemaEditor';
+import Outliner from './components/Outliner';
+import Notifications, { NotificationContext, useNotifications } from './components/Notifications';
+import ProjectImportDialog from './components/ProjectImportDialog';
+import ProjectStats from './components/ProjectStats';
+import ResearchPane from './components/ResearchPane';
+import ResearchViewer from './components/ResearchViewer';
+import SearchPanel from './components/SearchPanel';
+import TemplateMenu from './components/TemplateMenu';
+import TemplatePicker from './components/TemplatePicker';
+import ThemeMenu from './components/ThemeMenu';
+import TrashPanel from './components/TrashPanel';
+import VersionHistory from './components/VersionHistory';
+import WritingSessions from './components/WritingSessions';
+import useProjectsWithStorage from './storage/useProjectsWithStorage';
+import { createTemplateFromNode, getTemplateKind, instantiateTemplate, Template } from './templates/templates';
+import useTemplates from './templates/useTemplates';
+import useTheme from './theme/useTheme';
 
-  const setProjects = (newProjects: Project[] | ((prev: Project[]) => Project[])) => {
-    setProjectsState((prevProjects) => {
-      const updatedProjects = typeof newProjects === 'function' ? newProjects(prevProjects) : newProjects;
-      saveProjectsToLocalStorage(updatedProjects);
-      return updatedProjects;
-    });
-  };
+const AUTOSAVE_DELAY = 2000;
 
-  return [projects, setProjects] as const;
-};
+const canLint = (node: Project) => isTextDocument(node) || (isContainer(node) && node.type !== 'research');
 
 function App() {
-    const [projects, setProjects] = useProjectsWithStorage();
+    const [projects, setProjects, storage] = useProjectsWithStorage();
     const [selectedProject, setSelectedProject] = useState<Project | null>(null);
     const [editorState, setEditorState] = useState(EditorState.createEmpty());
     const [newProjectName, setNewProjectName] = useState('');
     const [isCreatingNewProject, setIsCreatingNewProject] = useState(false);
+    const [newProjectTemplateId, setNewProjectTemplateId] = useState('');
     const [isEditingMetadata, setIsEditingMetadata] = useState(false);
+    const [isEditingSchema, setIsEditingSchema] = useState(false);
+    const [isViewingHistory, setIsViewingHistory] = useState(false);
+    const [isCompiling, setIsCompiling] = useState(false);
+    const [isImportingFiles, setIsImportingFiles] = useState(false);
+    const [isViewingSessions, setIsViewingSessions] = useState(false);
+    const [isViewingCorkboard, setIsViewingCorkboard] = useState(false);
+    const [isViewingOutliner, setIsViewingOutliner] = useState(false);
+    const [isViewingResearch, setIsViewingResearch] = useState(false);
+    const [isViewingComments, setIsViewingComments] = useState(false);
+    const [isLinting, setIsLinting] = useState(false);
+    const [lintSettings, setLintSettings] = useState<LintSettings>(loadLintSettings);
+    const [researchItemId, setResearchItemId] = useState<number | null>(null);
+    const [splitOrientation, setSplitOrientation] = useState<'horizontal' | 'vertical' | null>(null);
+    const [secondaryId, setSecondaryId] = useState<number | null>(null);
+    const [secondaryEditorState, setSecondaryEditorState] = useState(EditorState.createEmpty());
+    const secondarySavedContentRef = useRef<ContentState | null>(null);
+    const [pendingImport, setPendingImport] = useState<ProjectFile | null>(null);
     const [editingId, setEditingId] = useState<number | null>(null);
+    const [dirtyIds, setDirtyIds] = useState<Set<number>>(new Set());
+    const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+    const [sessionWords, setSessionWords] = useState(0);
+    const [sidebarTab, setSidebarTab] = useState<'binder' | 'search'>('binder');
+    const [lastReplace, setLastReplace] = useState<ReplaceChange[] | null>(null);
+    const [treeHistory, setTreeHistory] = useState<TreeHistory>(emptyTreeHistory);
+    const savedContentRef = useRef<ContentState | null>(null);
+    const editorRef = useRef<DraftEditor | null>(null);
+    const [isComposing, setIsComposing] = useState(false);
+    const { notices, notify, dismiss } = useNotifications();
+    const { theme, settings: themeSettings, selectTheme, saveCustomTheme, deleteCustomTheme } = useTheme();
+    const { templates, customTemplates, saveTemplate, deleteTemplate } = useTemplates();
+    const { collections, addCollection, updateCollection, deleteCollection, replaceCollections } = useCollections();
+    const { keybindings: keybindingOverrides, assignKeybindings, resetKeybinding, resetAllKeybindings } = useKeybindings();
+    const [paletteMode, setPaletteMode] = useState<PaletteMode | null>(null);
+    const [isEditingKeybindings, setIsEditingKeybindings] = useState(false);
+    const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+    const [compilingCollectionId, setCompilingCollectionId] = useState<string | null>(null);
+    const activeCollection = collections.find(collection => collection.id === activeCollectionId) || null;
+    const compilingCollection = collections.find(collection => collection.id === compilingCollectionId) || null;
 
-    const onDragEnd = (result: any) => {
-      if (!result.destination) return;
-      const items = Array.from(projects);
-      const [reorderedItem] = items.splice(result.source.index, 1);
-      items.splice(result.destination.index, 0, reorderedItem);
-      setProjects(items);
+    const onDragEnd = (result: DropResult) => {
+      const { source, destination, draggableId } = result;
+      if (!destination) return;
+      if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+      const sourceRow = parseCorkboardRowId(source.droppableId);
+      const destinationRow = parseCorkboardRowId(destination.droppableId);
+      if (sourceRow && destinationRow) {
+        const index = getCardMoveIndex(sourceRow.row, destinationRow.row, destination.index);
+        const nodeId = parseCardDraggableId(draggableId);
+        performTreeOperation({ type: 'move', nodeId, parentId: destinationRow.parentId, index }, `Move "${findNode(projects, nodeId)?.name}"`);
+        return;
+      }
+      const nodeId = Number(draggableId);
+      performTreeOperation(
+        { type: 'move', nodeId, parentId: parseDroppableId(destination.droppableId), index: destination.index },
+        `Move "${findNode(projects, nodeId)?.name}"`
+      );
     };
 
-    const clearLocalStorage = () => {
-      localStorage.removeItem('projects');
-      setProjects([]);
+    const handleClearAll = () => {
+      if (!window.confirm('Delete all projects, collections and everything in the trash? This cannot be undone.')) return;
+      storage.clear().then(() => {
+        notifyCollectionSaved(replaceCollections([]));
+        setActiveCollectionId(null);
+        setCompilingCollectionId(null);
+        setSelectedProject(null);
+        setDirtyIds(new Set());
+        setTreeHistory(emptyTreeHistory);
+      });
     };
 
     const handleSaveAllProjects = () => {
-      saveProjectsToLocalStorage(projects);
-      alert('All projects saved successfully!');
+      storage.saveNow().then(saved => {
+        if (saved) notify('All projects saved successfully!');
+      });
     };
 
     const handleLoadProjects = () => {
-      const loadedProjects = loadProjectsFromLocalStorage();
-      setProjects(loadedProjects);
-      alert('Projects loaded successfully!');
+      storage.reload().then(() => {
+        setTreeHistory(emptyTreeHistory);
+        notify('Projects loaded successfully!');
+      });
     };
 
     const handleExportProjects = () => {
-      const projectsJson = JSON.stringify(projects);
+      const projectsJson = JSON.stringify(createProjectFile(getBinder(projects), collections));
       const blob = new Blob([projectsJson], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'scrivener_projects.json';
-      link.click();
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, 'scrivener_projects.json');
     };
 
     const handleImportProjects = (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
+      event.target.value = '';
       if (file) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const content = e.target?.result;
-          if (typeof content === 'string') {
-            const importedProjects = JSON.parse(content);
-            setProjects(importedProjects);
-            alert('Projects imported successfully!');
-          }
-        };
-        reader.readAsText(file);
+        readFileAsText(file)
+          .then(content => {
+            const result = parseProjectFile(content);
+            if (result.ok) {
+              setPendingImport(result.file);
+            } else {
+              notify(`Could not import ${file.name}:\n${result.errors.join('\n')}`, 'error');
+            }
+          })
+          .catch(error => {
+            console.error('Error reading file:', error);
+            notify(`Could not read ${file.name}.`, 'error');
+          });
       }
     };
 
-    useEffect(() => {
-      if (selectedProject) {
-        document.title = selectedProject.name;
-        if (selectedProject.type === 'chapter' && selectedProject.content) {
-          try {
-            const contentState = convertFromRaw(JSON.parse(selectedProject.content));
-            setEditorState(EditorState.createWithContent(contentState));
-          } catch (error) {
-            console.error('Error parsing content:', error);
-            setEditorState(EditorState.createEmpty());
-          }
-        } else {
-          setEditorState(EditorState.createEmpty());
+    const handleConfirmImport = (strategy: MergeStrategy) => {
+      if (pendingImport) {
+        const renumbered = new Map<number, number>();
+        setProjects(withBinder(projects, mergeProjects(projects, pendingImport.projects, strategy, renumbered)));
+        const importedCollections = pendingImport.collections || [];
+        if (strategy === 'replace-all') {
+          notifyCollectionSaved(replaceCollections(importedCollections));
+          setActiveCollectionId(null);
+          setCompilingCollectionId(null);
+          setSelectedProject(null);
+          setDirtyIds(new Set());
+          setTreeHistory(emptyTreeHistory);
+        } else if (importedCollections.length > 0) {
+          notifyCollectionSaved(replaceCollections(importCollections(collections, importedCollections, renumbered)));
         }
-      } else {
-        document.title = 'Scrivener-like App';
+        setPendingImport(null);
+        notify('Projects imported successfully!');
       }
+    };
+
+    useEffect(() => {
+      document.title = selectedProject ? selectedProject.name : 'Scrivener-like App';
     }, [selectedProject]);
 
+    const loadEditor = (content?: string) => {
+      const newEditorState = createEditorState(content);
+      savedContentRef.current = newEditorState.getCurrentContent();
+      setEditorState(newEditorState);
+    };
 
+    const markClean = (id: number) => {
+      setDirtyIds(current => {
+        const next = new Set(current);
+        next.delete(id);
+        return next;
+      });
+    };
+
+    const markDirty = (id: number) => {
+      setDirtyIds(current => (current.has(id) ? current : new Set(current).add(id)));
+    };
+
+    const handleEditorChange = (newEditorState: EditorState) => {
+      setEditorState(newEditorState);
+      if (selectedProject && newEditorState.getCurrentContent() !== savedContentRef.current) {
+        markDirty(selectedProject.id);
+      }
+    };
+
+    const secondaryNode = secondaryId !== null ? findNode(projects, secondaryId) : null;
+    const isSecondaryDirty = secondaryNode !== null && dirtyIds.has(secondaryNode.id);
+
+    const loadSecondaryEditor = (content?: string) => {
+      const newEditorState = createEditorState(content);
+      secondarySavedContentRef.current = newEditorState.getCurrentContent();
+      setSecondaryEditorState(newEditorState);
+    };
+
+    const handleSecondaryEditorChange = (newEditorState: EditorState) => {
+      setSecondaryEditorState(newEditorState);
+      if (secondaryNode && newEditorState.getCurrentContent() !== secondarySavedContentRef.current) {
+        markDirty(secondaryNode.id);
+      }
+    };
+
+    const handleOpenInSecondaryPane = (id: number | null) => {
+      const updatedProjects = isSecondaryDirty ? handleSaveSecondary(true) : projects;
+      const node = id !== null ? findNode(updatedProjects, id) : null;
+      setSecondaryId(node ? node.id : null);
+      loadSecondaryEditor(node?.content);
+    };
+
+    const handleCloseSplit = () => {
+      if (isSecondaryDirty) handleSaveSecondary(true);
+      setSplitOrientation(null);
+      setSecondaryId(null);
+    };
 
-    const handleSelectProject = (project: Project) => {
+    const handleSelectProject = (selected: Project): boolean => {
+      let project = selected;
+      let updatedProjects = projects;
+      if (selectedProject && project.id !== selectedProject.id && dirtyIds.has(selectedProject.id)) {
+        if (!window.confirm(`"${selectedProject.name}" has unsaved changes. Save them and continue?`)) return false;
+        updatedProjects = handleSaveContent(true);
+      }
+      // A document can only be open in one pane at a time.
+      if (project.id === secondaryId) {
+        if (isSecondaryDirty) updatedProjects = handleSaveSecondary(true, updatedProjects);
+        project = findNode(updatedProjects, project.id) || project;
+        setSecondaryId(null);
+      }
       setSelectedProject(project);
+      if (project.id !== selectedProject?.id) {
+        loadEditor(isTextDocument(project) ? project.content : undefined);
+      }
       setIsEditingMetadata(false);
+      setIsViewingHistory(false);
+      setIsCompiling(false);
+      setIsImportingFiles(false);
+      setIsViewingSessions(false);
+      if (!isContainer(project)) {
+        setIsViewingCorkboard(false);
+        setIsViewingOutliner(false);
+      }
+      return true;
+    };
+
+    const selectEditorRange = (blockKey: string, start: number, end: number) => {
+      setEditorState(current => {
+        const block = current.getCurrentContent().getBlockForKey(blockKey);
+        if (!block) return current;
+        const selection = SelectionState.createEmpty(blockKey).merge({
+          anchorOffset: Math.min(start, block.getLength()),
+          focusOffset: Math.min(end, block.getLength()),
+        }) as SelectionState;
+        return EditorState.forceSelection(current, selection);
+      });
+    };
+
+    const handleOpenMatch = (match: SearchMatch) => {
+      const node = findNode(projects, match.nodeId);
+      if (!node || !handleSelectProject(node)) return;
+      if (match.field !== 'content' || !match.blockKey) return;
+      selectEditorRange(match.blockKey, match.offset, match.offset + match.length);
+    };
+
+    const handleOpenFinding = (documentId: number, finding: LintFinding) => {
+      const node = findNode(projects, documentId);
+      if (!node || !handleSelectProject(node)) return;
+      selectEditorRange(finding.blockKey, finding.start, finding.end);
+    };
+
+    // Replace and undo rewrite stored chapter content, so any unsaved edits are
+    // saved first and the open chapter is reloaded afterwards.
+    const applyContentChanges = (updatedProjects: Project[], changedIds: number[]) => {
+      setProjects(updatedProjects);
+      if (selectedProject && changedIds.includes(selectedProject.id)) {
+        const updated = findNode(updatedProjects, selectedProject.id);
+        if (updated) {
+          setSelectedProject(updated);
+          loadEditor(updated.content);
+        }
+      }
+      if (secondaryId !== null && changedIds.includes(secondaryId)) {
+        loadSecondaryEditor(findNode(updatedProjects, secondaryId)?.content);
+      }
+      storage.saveNow(updatedProjects);
+    };
+
+    const saveIfDirty = () => handleSaveAll(true);
+
+    const handleReplaceAll = (options: SearchOptions, replacement: string) => {
+      const savedProjects = saveIfDirty();
+      const result = replaceInProjects(getBinder(savedProjects), options, replacement);
+      if (result.count === 0) {
+        notify('Nothing to replace.', 'info');
+        return;
+      }
+      applyContentChanges(withBinder(savedProjects, result.projects), result.changes.map(change => change.id));
+      setLastReplace(result.changes);
+      const chapterCount = result.changes.length === 1 ? '1 chapter' : `${result.changes.length} chapters`;
+      notify(`Replaced ${result.count} ${result.count === 1 ? 'match' : 'matches'} in ${chapterCount}.`);
+    };
+
+    const handleUndoReplace = () => {
+      if (!lastReplace) return;
+      const result = undoReplace(saveIfDirty(), lastReplace);
+      applyContentChanges(result.projects, lastReplace.map(change => change.id));
+      setLastReplace(null);
+      if (result.skipped > 0) {
+        notify(`Undid the replace in ${result.reverted} chapters. ${result.skipped} edited since were left unchanged.`, 'info');
+      } else {
+        notify('Replace undone.');
+      }
     };
 
     const handleCreateNewProject = () => {
-      const newProject: Project = {
-        id: Date.now(),
-        name: newProjectName,
-        type: 'project',
-        children: [],
-        metadata: {
-          status: 'Not Started',
-          wordCountGoal: 0,
-          actualWordCount: 0,
-          lastModified: new Date().toISOString(),
-          creationDate: new Date().toISOString(),
-          completionPercentage: 0,
-          tags: [],
-          author: '',
-          estimatedReadingTime: 0,
-          version: '1.0'
-        },
-      };
-      setProjects([...projects, newProject]);
+      const template = templates.find(option => option.id === newProjectTemplateId);
+      const name = newProjectName.trim() || template?.node.name || 'New Project';
+      const fromTemplate = template && instantiateTemplate(template, name);
+      const newProject: Project = fromTemplate
+        ? { ...fromTemplate, children: findResearchFolder(fromTemplate) ? fromTemplate.children : [...fromTemplate.children, createResearchFolder()] }
+        : { id: generateId(), name, type: 'project', children: [createResearchFolder()], metadata: createDefaultMetadata() };
+      performTreeOperation({ type: 'insert', node: newProject, parentId: null }, `Create "${newProject.name}"`);
       setIsCreatingNewProject(false);
       setNewProjectName('');
+      setNewProjectTemplateId('');
     };
 
-    const handleCreateNewChapter = (projectId: number) => {
-      const newChapter: Project = {
-        id: Date.now(),
-        name: 'New Chapter',
-        type: 'chapter',
+    const newNodeNames = { folder: 'New Folder', chapter: 'New Chapter', note: 'New Note' };
+
+    const handleCreateNewNode = (parentId: number, type: 'folder' | 'chapter' | 'note') => {
+      const newNode: Project = {
+        id: generateId(),
+        name: newNodeNames[type],
+        type,
         children: [],
-        content: '',
-        metadata: {
-          status: 'Not Started',
-          wordCountGoal: 0,
-          actualWordCount: 0,
-          lastModified: new Date().toISOString(),
-          creationDate: new Date().toISOString(),
-          completionPercentage: 0,
-          tags: [],
-          author: '',
-          estimatedReadingTime: 0,
-          version: '1.0'
-        },
+        ...(type !== 'folder' ? { content: '' } : {}),
+        metadata: createDefaultMetadata({ status: getMetadataSchema(projects, parentId).statuses[0].name }),
       };
-      const updatedProjects = addChapterToProject(projects, projectId, newChapter);
-      setProjects(updatedProjects);
+      performTreeOperation({ type: 'insert', node: newNode, parentId }, `Create "${newNode.name}"`);
+      setEditingId(newNode.id);
     };
 
-    const addChapterToProject = (projects: Project[], projectId: number, newChapter: Project): Project[] => {
-      return projects.map(project => {
-        if (project.id === projectId) {
-          return { ...project, children: [...project.children, newChapter] };
-        }
-        return project;
-      });
+    const handleCreateNewChapter = (parentId: number) => handleCreateNewNode(parentId, 'chapter');
+
+    const handleCreateNewFolder = (parentId: number) => handleCreateNewNode(parentId, 'folder');
+
+    const handleCreateNewNote = (parentId: number) => handleCreateNewNode(parentId, 'note');
+
+    const handleCreateFromTemplate = (parentId: number, template: Template) => {
+      const newNode = instantiateTemplate(template);
+      performTreeOperation({ type: 'insert', node: newNode, parentId }, `Create "${newNode.name}"`);
+      setEditingId(newNode.id);
+    };
+
+    // Chapters and notes are saved first so the template has the text on screen.
+    const handleSaveAsTemplate = () => {
+      if (!selectedProject) return;
+      const name = window.prompt('Template name:', selectedProject.name);
+      if (!name || !name.trim()) return;
+      const node = findNode(isTextDocument(selectedProject) ? handleSaveContent(true) : projects, selectedProject.id) || selectedProject;
+      if (saveTemplate(createTemplateFromNode(node, name.trim()))) {
+        notify(`Saved "${name.trim()}" as a template.`);
+      } else {
+        notify('The template could not be saved. Browser storage may be full.', 'error');
+      }
+    };
+
+    const handleDeleteTemplate = (template: Template) => {
+      if (window.confirm(`Delete the template "${template.name}"?`)) deleteTemplate(template.id);
+    };
+
+    const notifyCollectionSaved = (saved: boolean) => {
+      if (!saved) notify('The collection could not be saved. Browser storage may be full.', 'error');
+    };
+
+    const promptCollectionName = (defaultName = ''): string | null => {
+      const name = window.prompt('Collection name:', defaultName);
+      return name && name.trim() ? name.trim() : null;
+    };
+
+    const openCollection = (collection: Collection) => {
+      if (!addCollection(collection)) {
+        notifyCollectionSaved(false);
+        return;
+      }
+      setSidebarTab('binder');
+      setActiveCollectionId(collection.id);
+    };
+
+    const handleCreateCollection = (nodeIds: number[] = []) => {
+      const name = promptCollectionName();
+      if (name) openCollection(createManualCollection(name, nodeIds));
     };
 
-    const handleDeleteProject = (projectId: number) => {
-      setProjects(projects.filter(project => project.id !== projectId));
+    const handleSaveSearchAsCollection = (options: SearchOptions) => {
+      const name = promptCollectionName(options.query || options.tag || options.status);
+      if (name) openCollection(createSmartCollection(name, options));
     };
 
-    const handleDeleteChapter = (projectId: number, chapterId: number) => {
-      setProjects(projects.map(project => {
-        if (project.id === projectId) {
-          return {
-            ...project,
-            children: project.children.filter(chapter => chapter.id !== chapterId)
-          };
+    const handleAddToCollection = (collection: Collection) => {
+      if (!selectedProject) return;
+      const saved = updateCollection(collection.id, current => addToCollection(current, selectedProject.id));
+      notifyCollectionSaved(saved);
+      if (saved) notify(`Added "${selectedProject.name}" to "${collection.name}".`);
+    };
+
+    const handleRenameCollection = (collection: Collection) => {
+      const name = promptCollectionName(collection.name);
+      if (name) notifyCollectionSaved(updateCollection(collection.id, current => ({ ...current, name })));
+    };
+
+    const handleDeleteCollection = (collection: Collection) => {
+      if (!window.confirm(`Delete the collection "${collection.name}"? The items in it are not deleted.`)) return;
+      notifyCollectionSaved(deleteCollection(collection.id));
+      setActiveCollectionId(null);
+      if (compilingCollectionId === collection.id) setCompilingCollectionId(null);
+    };
+
+    const handleAddResearchFolder = (projectId: number) => {
+      performTreeOperation({ type: 'insert', node: createResearchFolder(), parentId: projectId }, 'Add research folder');
+    };
+
+    const handleAddResearchFiles = (parentId: number, event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files || []);
+      event.target.value = '';
+      Promise.all(
+        files.map(file =>
+          readFileAsDataUrl(file).then(dataUrl => createAttachmentNode({ fileName: file.name, mimeType: file.type, dataUrl }))
+        )
+      )
+        .then(nodes =>
+          performTreeOperationRef.current(
+            { type: 'batch', operations: nodes.map(node => ({ type: 'insert', node, parentId })) },
+            nodes.length === 1 ? `Add "${nodes[0].name}"` : `Add ${nodes.length} files`
+          )
+        )
+        .catch(error => {
+          console.error('Error reading file:', error);
+          notify('Could not read one of the files.', 'error');
+        });
+    };
+
+    const handleImportChapters = (chapters: Project[]) => {
+      if (selectedProject && isContainer(selectedProject)) {
+        performTreeOperation(
+          { type: 'batch', operations: chapters.map(chapter => ({ type: 'insert', node: chapter, parentId: selectedProject.id })) },
+          `Import ${chapters.length} ${chapters.length === 1 ? 'chapter' : 'chapters'}`
+        );
+        setIsImportingFiles(false);
+      }
+    };
+
+    // Closes whatever is no longer in the binder and picks up renames and
+    // metadata changes made by binder operations.
+    const syncOpenDocuments = (updatedProjects: Project[]) => {
+      const binder = getBinder(updatedProjects);
+      if (selectedProject) {
+        const node = findNode(binder, selectedProject.id);
+        if (!node) {
+          setSelectedProject(null);
+          markClean(selectedProject.id);
+        } else {
+          setSelectedProject({ ...selectedProject, name: node.name, metadata: node.metadata });
         }
-        return project;
-      }));
+      }
+      if (secondaryId !== null && !findNode(binder, secondaryId)) {
+        setSecondaryId(null);
+        markClean(secondaryId);
+      }
     };
 
-    const handleSaveNewProject = () => {
-      const newProject: Project = {
-        id: Date.now(),
-        name: newProjectName,
-        type: 'project',
-        children: [],
-        metadata: {
-          status: 'Not Started',
-          wordCountGoal: 0,
-          actualWordCount: 0,
-          lastModified: new Date().toISOString(),
-          creationDate: new Date().toISOString(),
-          completionPercentage: 0,
-          tags: [],
-          author: '',
-          estimatedReadingTime: 0,
-          version: '1.0'
-        },
-      };
-      setProjects([...projects, newProject]);
-      setIsCreatingNewProject(false);
-      setNewProjectName('');
+    const performTreeOperation = (operation: TreeOperation, label: string, coalesceKey?: string, baseProjects = projects): Project[] | null => {
+      const result = applyTreeOperation(baseProjects, operation);
+      if (!result) return null;
+      setProjects(result.projects);
+      setTreeHistory(history => recordOperation(history, { label, operation: result.inverse, coalesceKey, time: Date.now() }));
+      return result.projects;
     };
 
-    const handleSaveContent = () => {
-      if (selectedProject && selectedProject.type === 'chapter') {
+    // File reads finish after later renders, so they go through the latest
+    // performTreeOperation rather than the one they started with.
+    const performTreeOperationRef = useRef(performTreeOperation);
+    performTreeOperationRef.current = performTreeOperation;
+
+    // Unsaved edits are saved before anything can move an open document to the
+    // trash, so the trash holds the latest text.
+    const handleStepTreeHistory = (direction: 'undo' | 'redo') => {
+      const step = stepTreeHistory(saveIfDirty(), treeHistory, direction);
+      if (!step) return;
+      setTreeHistory(step.history);
+      if (!step.projects) {
+        notify(`${step.label} can no longer be ${direction === 'undo' ? 'undone' : 'redone'}.`, 'error');
+        return;
+      }
+      setProjects(step.projects);
+      syncOpenDocuments(step.projects);
+    };
+
+    const handleDeleteNode = (node: Project) => {
+      const updatedProjects = performTreeOperation({ type: 'trash', nodeId: node.id }, `Delete "${node.name}"`, undefined, saveIfDirty());
+      if (!updatedProjects) return;
+      syncOpenDocuments(updatedProjects);
+      notify(`Moved "${node.name}" to the trash.`, 'info');
+    };
+
+    const handleRestoreFromTrash = (item: Project) => {
+      const updatedProjects = performTreeOperation({ type: 'restore', nodeId: item.id }, `Restore "${item.name}"`);
+      if (!updatedProjects) {
+        notify(`Restore the folder "${item.name}" was in first.`, 'error');
+        return;
+      }
+      const parentId = findNodePosition(getBinder(updatedProjects), item.id)?.parentId ?? null;
+      if (parentId !== (item.trashedFrom?.parentId ?? null)) {
+        const parent = parentId !== null ? findNode(updatedProjects, parentId) : null;
+        notify(`The folder "${item.name}" was in no longer exists, so it was restored to ${parent ? `"${parent.name}"` : 'the top level'}.`, 'info');
+      }
+    };
+
+    const handlePurgeFromTrash = (item: Project) => {
+      if (!window.confirm(`Permanently delete "${item.name}"? This cannot be undone.`)) return;
+      setProjects(purgeFromTrash(projects, item.id));
+    };
+
+    const handleEmptyTrash = () => {
+      if (!window.confirm('Permanently delete everything in the trash? This cannot be undone.')) return;
+      setProjects(emptyTrash(projects));
+    };
+
+    // Writes one document's editor text into the tree. Both editor panes save
+    // through here; pass the result of one save as the base of the next when
+    // saving both at once.
+    const saveDocument = (baseProjects: Project[], node: Project, contentState: ContentState) => {
+      const content = JSON.stringify(convertToRaw(contentState));
+      const metadata = withWordCountMetadata(node.metadata, contentState.getPlainText());
+      const previousWords = findNode(baseProjects, node.id)?.metadata.actualWordCount || 0;
+      // Research notes don't count towards writing sessions.
+      const wordsWritten = node.type === 'chapter' ? metadata.actualWordCount - previousWords : 0;
+      const updatedProjects = recordProjectWords(updateProjectContent(baseProjects, node.id, content, metadata), node.id, wordsWritten);
+      setSessionWords(current => current + wordsWritten);
+      setProjects(updatedProjects);
+      markClean(node.id);
+      return { updatedProjects, content, metadata };
+    };
+
+    const persistSave = (updatedProjects: Project[], node: Project, silent: boolean) => {
+      storage.saveNow(updatedProjects).then(saved => {
+        if (!saved) return;
+        setLastSavedAt(new Date());
+        if (!silent) notify(`${node.type === 'note' ? 'Note' : 'Chapter'} saved successfully!`);
+      });
+    };
+
+    const handleSaveContent = (silent = false, baseProjects = projects): Project[] => {
+      if (selectedProject && isTextDocument(selectedProject)) {
         const contentState = editorState.getCurrentContent();
-        const rawContentState = convertToRaw(contentState);
-        const content = JSON.stringify(rawContentState);
-        const newWordCount = countWords(contentState.getPlainText());
-        const updatedMetadata = {
-          ...selectedProject.metadata,
-          actualWordCount: newWordCount,
-          lastModified: new Date().toISOString(),
-          completionPercentage: Math.min((newWordCount / selectedProject.metadata.wordCountGoal) * 100, 100),
-          estimatedReadingTime: Math.ceil(newWordCount / 250)
-        };
-        const updatedProjects = updateProjectContent(projects, selectedProject.id, content, updatedMetadata);
-        setProjects(updatedProjects);
-        setSelectedProject({...selectedProject, content, metadata: updatedMetadata});
-        saveProjectsToLocalStorage(updatedProjects);
-        alert('Chapter saved successfully!');
+        const { updatedProjects, content, metadata } = saveDocument(baseProjects, selectedProject, contentState);
+        setSelectedProject({...selectedProject, content, metadata});
+        savedContentRef.current = contentState;
+        persistSave(updatedProjects, selectedProject, silent);
+        return updatedProjects;
       }
+      return baseProjects;
+    };
+
+    const handleSaveSecondary = (silent = false, baseProjects = projects): Project[] => {
+      if (!secondaryNode) return baseProjects;
+      const contentState = secondaryEditorState.getCurrentContent();
+      const { updatedProjects } = saveDocument(baseProjects, findNode(baseProjects, secondaryNode.id) || secondaryNode, contentState);
+      secondarySavedContentRef.current = contentState;
+      persistSave(updatedProjects, secondaryNode, silent);
+      return updatedProjects;
+    };
+
+    // Saves whatever is unsaved in either pane. An explicit save always saves
+    // the main pane so the user gets a confirmation.
+    const handleSaveAll = (silent = false): Project[] => {
+      const isPrimaryDirty = selectedProject !== null && dirtyIds.has(selectedProject.id);
+      const updatedProjects = !silent || isPrimaryDirty ? handleSaveContent(silent) : projects;
+      return isSecondaryDirty ? handleSaveSecondary(true, updatedProjects) : updatedProjects;
     };
 
 
@@ -282,99 +654,396 @@ function App() {
       });
     };
 
+    const updateMetadata = (node: Project, metadata: ProjectMetadata) => {
+      const current = findNode(projects, node.id)?.metadata || node.metadata;
+      performTreeOperation(
+        { type: 'metadata', nodeId: node.id, changes: diffMetadata(current, metadata) },
+        `Edit metadata of "${node.name}"`,
+        `metadata-${node.id}`
+      );
+    };
+
     const handleUpdateMetadata = (newMetadata: ProjectMetadata) => {
       if (selectedProject) {
-        const updatedProjects = updateProjectMetadata(projects, selectedProject.id, newMetadata);
-        setProjects(updatedProjects);
+        updateMetadata(selectedProject, newMetadata);
         setSelectedProject({ ...selectedProject, metadata: newMetadata });
-        setIsEditingMetadata(false);
       }
     };
 
-    const updateProjectMetadata = (projects: Project[], id: number, metadata: ProjectMetadata): Project[] => {
-      return projects.map(project => {
-        if (project.id === id) {
-          return { ...project, metadata: {...project.metadata, ...metadata} };
-        } else if (project.children.length > 0) {
-          return { ...project, children: updateProjectMetadata(project.children, id, metadata) };
-        }
-        return project;
-      });
+    const handleUpdateNodeMetadata = (node: Project, metadata: ProjectMetadata) => {
+      updateMetadata(node, metadata);
+      if (selectedProject?.id === node.id) setSelectedProject({ ...selectedProject, metadata });
     };
 
-    const handleRename = (id: number, newName: string) => {
-      const updatedProjects = updateProjectName(projects, id, newName);
-      setProjects(updatedProjects);
+    const handleUpdateProjectSchema = (rootId: number, update: (root: Project) => Project, label = 'Edit statuses and fields') => {
+      const root = findNode(projects, rootId);
+      if (!root) return;
+      const updated = performTreeOperation(diffProjectSchema(root, update(root)), label);
+      if (updated) syncOpenDocuments(updated);
     };
 
-    const updateProjectName = (projects: Project[], id: number, newName: string): Project[] => {
-      return projects.map(project => {
-        if (project.id === id) {
-          return { ...project, name: newName };
-        } else if (project.children.length > 0) {
-          return { ...project, children: updateProjectName(project.children, id, newName) };
-        }
-        return project;
+    const handleRemoveField = (rootId: number, field: CustomFieldDefinition) => {
+      const root = findNode(projects, rootId);
+      const usage = root ? countFieldUsage(root, field.id) : 0;
+      if (usage > 0 && !window.confirm(`Remove "${field.name}"? Its value will be deleted from ${usage} ${usage === 1 ? 'item' : 'items'}.`)) return;
+      handleUpdateProjectSchema(rootId, node => removeField(node, field.id), `Remove "${field.name}"`);
+    };
+
+    const handleBulkUpdateMetadata = (ids: number[], change: BulkMetadataChange) => {
+      const operations = ids.flatMap(id => {
+        const node = findNode(projects, id);
+        return node ? [{ type: 'metadata' as const, nodeId: id, changes: diffMetadata(node.metadata, applyBulkChange(node.metadata, change)) }] : [];
       });
+      performTreeOperation({ type: 'batch', operations }, `Edit metadata of ${ids.length} items`);
+      if (selectedProject && ids.includes(selectedProject.id)) {
+        setSelectedProject({ ...selectedProject, metadata: applyBulkChange(selectedProject.metadata, change) });
+      }
     };
 
+    const handleUpdateWritingLog = (projectId: number, changes: Partial<WritingLog>) => {
+      setProjects(updateWritingLog(projects, projectId, changes));
+    };
+
+    const renderWritingSessions = () => {
+      const root = selectedProject && findRootProject(projects, selectedProject.id);
+      if (!root) return null;
+      const stats = calculateNodeStats(root, liveWordCounts);
+      return (
+        <WritingSessions
+          project={root}
+          allDays={combineWritingDays(getBinder(projects))}
+          totalWords={stats.totalWords}
+          goal={stats.goal}
+          sessionWords={sessionWords}
+          onUpdateLog={(changes) => handleUpdateWritingLog(root.id, changes)}
+        />
+      );
+    };
+
+    const handleRename = (id: number, newName: string) => {
+      const node = findNode(projects, id);
+      if (node) performTreeOperation({ type: 'rename', nodeId: id, name: newName }, `Rename "${node.name}"`, `rename-${id}`);
+    };
+
+    // Effects below call the latest handleSaveAll through this ref so they
+    // don't have to re-subscribe on every render.
+    const saveContentRef = useRef(handleSaveAll);
+    saveContentRef.current = handleSaveAll;
+
+    // Shortcuts are looked up in the command registry built further down.
+    const commandRegistryRef = useRef<{ commands: Command[]; bindings: Keybindings }>({ commands: [], bindings: {} });
+
     useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
-        if (e.ctrlKey && e.key === 's') {
-          e.preventDefault();
-          handleSaveContent();
-        }
-        // shortcuts here
+        const combo = getKeyCombo(e);
+        if (!combo) return;
+        const target = e.target as HTMLElement | null;
+        const isEditable = target !== null && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+        if (isEditable && isTypingCombo(combo)) return;
+        const { commands, bindings } = commandRegistryRef.current;
+        const command = findCommandByCombo(commands, bindings, combo);
+        if (!command || (command.isEnabled && !command.isEnabled())) return;
+        e.preventDefault();
+        command.run();
       };
 
       document.addEventListener('keydown', handleKeyDown);
       return () => {
         document.removeEventListener('keydown', handleKeyDown);
       };
-    }, [handleSaveContent]);
+    }, []);
+
+    const isSelectedDirty = selectedProject !== null && dirtyIds.has(selectedProject.id);
+
+    // Statistics count the open chapter's unsaved text so they stay live while typing.
+    const currentContent = editorState.getCurrentContent();
+    const secondaryContent = secondaryEditorState.getCurrentContent();
+    const liveWordCounts = useMemo<LiveWordCounts>(
+      () => ({
+        ...(selectedProject && isSelectedDirty ? { [selectedProject.id]: countWords(currentContent.getPlainText()) } : {}),
+        ...(secondaryId !== null && isSecondaryDirty ? { [secondaryId]: countWords(secondaryContent.getPlainText()) } : {}),
+      }),
+      [selectedProject, isSelectedDirty, currentContent, secondaryId, isSecondaryDirty, secondaryContent]
+    );
+
+    const openCommentCount = useMemo(
+      () => findCommentAnchors(currentContent).filter(anchor => !anchor.thread.resolved).length,
+      [currentContent]
+    );
+
+    // An open chapter is checked as it's being written; a folder or project is
+    // checked from its saved chapters.
+    const lintDocuments = useMemo<LintDocument[]>(() => {
+      if (!isLinting || !selectedProject) return [];
+      if (isTextDocument(selectedProject)) {
+        const blocks = currentContent.getBlocksAsArray().map(block => ({ key: block.getKey(), text: block.getText() }));
+        return [{ id: selectedProject.id, name: selectedProject.name, blocks }];
+      }
+      return collectChapters(findNode(projects, selectedProject.id) || selectedProject).map(chapter => ({
+        id: chapter.id,
+        name: chapter.name,
+        blocks: getRawBlocks(chapter.content).map(block => ({ key: block.key, text: block.text })),
+      }));
+    }, [isLinting, selectedProject, currentContent, projects]);
+
+    const isHighlightingLint = isLinting && lintSettings.highlight;
+
+    const updateLintSettings = (changes: Partial<LintSettings>) => {
+      const next = { ...lintSettings, ...changes };
+      try {
+        saveLintSettings(next);
+      } catch (error) {
+        console.error('Error saving lint settings:', error);
+      }
+      setLintSettings(next);
+    };
+
+    useEffect(() => {
+      if (!isSelectedDirty && !isSecondaryDirty) return;
+      const timeout = setTimeout(() => saveContentRef.current(true), AUTOSAVE_DELAY);
+      return () => clearTimeout(timeout);
+    }, [editorState, secondaryEditorState, isSelectedDirty, isSecondaryDirty]);
+
+    const handleExitComposition = () => {
+      setIsComposing(false);
+      // Focusing the main editor restores the selection from editorState, so
+      // the cursor is where it was left in composition mode.
+      requestAnimationFrame(() => editorRef.current?.focus());
+    };
+
+    const renderCompositionMode = () => {
+      if (!selectedProject) return null;
+      const root = findRootProject(projects, selectedProject.id);
+      const storedWords = findNode(projects, selectedProject.id)?.metadata.actualWordCount || 0;
+      const unsavedWords = selectedProject.type === 'chapter' && isSelectedDirty ? (liveWordCounts[selectedProject.id] || 0) - storedWords : 0;
+      return (
+        <CompositionMode
+          editorState={editorState}
+          onEditorStateChange={handleEditorChange}
+          sessionWords={sessionWords + unsavedWords}
+          sessionTarget={createWritingLog(root?.writingLog).sessionTarget}
+          highlightLint={isHighlightingLint}
+          onExit={handleExitComposition}
+        />
+      );
+    };
+
+    useEffect(() => {
+      if (dirtyIds.size === 0) return;
+      const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+        e.preventDefault();
+        e.returnValue = '';
+      };
+      window.addEventListener('beforeunload', handleBeforeUnload);
+      return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [dirtyIds]);
+
+    const updateProjectVersions = (projects: Project[], id: number, versions: ChapterVersion[]): Project[] => {
+      return projects.map(project => {
+        if (project.id === id) {
+          return { ...project, versions };
+        } else if (project.children.length > 0) {
+          return { ...project, children: updateProjectVersions(project.children, id, versions) };
+        }
+        return project;
+      });
+    };
 
     const saveNewVersion = () => {
-      if (selectedProject && selectedProject.type === 'chapter') {
-        const newVersion = {
-          content: JSON.stringify(convertToRaw(editorState.getCurrentContent())),
-          timestamp: new Date().toISOString(),
-        };
-        const updatedProject = {
-          ...selectedProject,
-          versions: [...(selectedProject.versions || []), newVersion],
-        };
-        // Update the project in your state
-        setProjects(projects.map(p => p.id === selectedProject.id ? updatedProject : p));
-        alert('New version saved!');
-      }
-    };
-
-    const changeTheme = (theme: 'light' | 'dark') => {
-      if (theme === 'dark') {
-        document.documentElement.style.setProperty('--primary-color', '#6b46c1');
-        document.documentElement.style.setProperty('--background-color', '#2d3748');
-        document.documentElement.style.setProperty('--text-color', '#ffffff');
-      } else {
-        document.documentElement.style.setProperty('--primary-color', '#3490dc');
-        document.documentElement.style.setProperty('--background-color', '#ffffff');
-        document.documentElement.style.setProperty('--text-color', '#333333');
+      if (selectedProject && isTextDocument(selectedProject)) {
+        const label = window.prompt('Version label (optional):');
+        if (label === null) return;
+        const newVersion = createVersion(JSON.stringify(convertToRaw(editorState.getCurrentContent())), label);
+        const versions = [...(selectedProject.versions || []), newVersion];
+        setProjects(updateProjectVersions(projects, selectedProject.id, versions));
+        setSelectedProject({ ...selectedProject, versions });
+        notify('New version saved!');
+      }
+    };
+
+    const handleRestoreVersion = (version: ChapterVersion) => {
+      if (selectedProject && isTextDocument(selectedProject)) {
+        const currentContent = JSON.stringify(convertToRaw(editorState.getCurrentContent()));
+        const backup = createVersion(currentContent, `Before restoring ${new Date(version.timestamp).toLocaleString()}`);
+        const versions = [...(selectedProject.versions || []), backup];
+        const restoredText = getRawBlocks(version.content).map(block => block.text).join('\n');
+        const updatedMetadata = withWordCountMetadata(selectedProject.metadata, restoredText);
+        const updatedProjects = updateProjectContent(
+          updateProjectVersions(projects, selectedProject.id, versions),
+          selectedProject.id,
+          version.content,
+          updatedMetadata
+        );
+        setProjects(updatedProjects);
+        setSelectedProject({ ...selectedProject, content: version.content, versions, metadata: updatedMetadata });
+        loadEditor(version.content);
+        markClean(selectedProject.id);
+        notify('Version restored. The previous text was saved as a new version.');
       }
     };
 
     const exportToPDF = () => {
       if (selectedProject && selectedProject.type === 'chapter') {
-        const doc = new jsPDF();
-        doc.text(selectedProject.name, 10, 10);
-        doc.text(editorState.getCurrentContent().getPlainText(), 10, 20);
+        const content = JSON.stringify(convertToRaw(editorState.getCurrentContent()));
+        const doc = compileToPDF([{ ...selectedProject, content }], {
+          title: selectedProject.name,
+          author: selectedProject.metadata.author,
+          includeTitlePage: false,
+        });
         doc.save(`${selectedProject.name}.pdf`);
       }
     };
 
-    const renderProjects = (projects: Project[], level = 0) => {
+    const getExportChapters = (): Project[] => {
+      if (!selectedProject || selectedProject.type === 'research') return [];
+      if (selectedProject.type === 'chapter') {
+        return [{ ...selectedProject, content: JSON.stringify(convertToRaw(editorState.getCurrentContent())) }];
+      }
+      const node = findNode(projects, selectedProject.id);
+      return node ? collectChapters(node) : [];
+    };
+
+    // New chapters go into the open folder, or next to the open item.
+    const getNewChapterParentId = (): number | null => {
+      const binder = getBinder(projects);
+      if (!selectedProject) return binder.length > 0 ? binder[0].id : null;
+      const node = findNode(binder, selectedProject.id);
+      if (node && isContainer(node) && node.type !== 'research') return node.id;
+      const parentId = findNodePosition(binder, selectedProject.id)?.parentId ?? null;
+      const parent = parentId !== null ? findNode(binder, parentId) : null;
+      if (parent && parent.type !== 'research') return parent.id;
+      return findRootProject(binder, selectedProject.id)?.id ?? null;
+    };
+
+    const handleGoToAdjacentChapter = (direction: 1 | -1) => {
+      const chapter = getAdjacentChapter(getBinder(projects), selectedProject ? selectedProject.id : null, direction);
+      if (chapter) {
+        handleSelectProject(chapter);
+      } else {
+        notify(direction === 1 ? 'This is the last chapter.' : 'This is the first chapter.');
+      }
+    };
+
+    const commands: Command[] = [
+      { id: 'palette.commands', title: 'Show all commands', category: 'General', defaultKeybinding: 'Ctrl+K', run: () => setPaletteMode('commands') },
+      { id: 'keybindings.edit', title: 'Keyboard shortcuts…', category: 'General', run: () => setIsEditingKeybindings(true) },
+      { id: 'palette.chapters', title: 'Go to chapter…', category: 'Go', defaultKeybinding: 'Ctrl+P', run: () => setPaletteMode('chapters') },
+      { id: 'navigate.next', title: 'Next chapter', category: 'Go', defaultKeybinding: 'Alt+Down', run: () => handleGoToAdjacentChapter(1) },
+      { id: 'navigate.previous', title: 'Previous chapter', category: 'Go', defaultKeybinding: 'Alt+Up', run: () => handleGoToAdjacentChapter(-1) },
+      {
+        id: 'project.new',
+        title: 'New project',
+        category: 'Project',
+        run: () => {
+          setIsCreatingNewProject(true);
+          setSidebarTab('binder');
+          setActiveCollectionId(null);
+        },
+      },
+      {
+        id: 'chapter.new',
+        title: 'New chapter',
+        category: 'Project',
+        defaultKeybinding: 'Ctrl+Alt+N',
+        isEnabled: () => getNewChapterParentId() !== null,
+        run: () => {
+          const parentId = getNewChapterParentId();
+          if (parentId !== null) handleCreateNewChapter(parentId);
+        },
+      },
+      {
+        id: 'template.save',
+        title: 'Save as template',
+        category: 'Project',
+        isEnabled: () => selectedProject !== null && (isTextDocument(selectedProject) || selectedProject.type === 'project'),
+        run: handleSaveAsTemplate,
+      },
+      { id: 'file.save', title: 'Save', category: 'File', defaultKeybinding: 'Ctrl+S', run: () => handleSaveAll() },
+      { id: 'file.saveAll', title: 'Save all projects', category: 'File', run: handleSaveAllProjects },
+      {
+        id: 'version.new',
+        title: 'New version',
+        category: 'File',
+        defaultKeybinding: 'Ctrl+Shift+S',
+        isEnabled: () => selectedProject !== null && isTextDocument(selectedProject),
+        run: saveNewVersion,
+      },
+      { id: 'export.json', title: 'Export projects as JSON', category: 'File', run: handleExportProjects },
+      {
+        id: 'export.pdf',
+        title: 'Export chapter as PDF',
+        category: 'File',
+        isEnabled: () => selectedProject !== null && selectedProject.type === 'chapter',
+        run: exportToPDF,
+      },
+      {
+        id: 'binder.undo',
+        title: 'Undo binder change',
+        category: 'Binder',
+        isEnabled: () => treeHistory.past.length > 0,
+        run: () => handleStepTreeHistory('undo'),
+      },
+      {
+        id: 'binder.redo',
+        title: 'Redo binder change',
+        category: 'Binder',
+        isEnabled: () => treeHistory.future.length > 0,
+        run: () => handleStepTreeHistory('redo'),
+      },
+      {
+        id: 'theme.toggle',
+        title: 'Toggle light and dark theme',
+        category: 'View',
+        defaultKeybinding: 'Ctrl+Alt+T',
+        run: () => selectTheme(theme.dark ? 'light' : 'dark'),
+      },
+      {
+        id: 'metadata.toggle',
+        title: 'Toggle metadata',
+        category: 'View',
+        defaultKeybinding: 'Ctrl+Alt+M',
+        isEnabled: () => selectedProject !== null,
+        run: () => setIsEditingMetadata(!isEditingMetadata),
+      },
+      {
+        id: 'composition.enter',
+        title: 'Composition mode',
+        category: 'View',
+        isEnabled: () => selectedProject !== null && isTextDocument(selectedProject),
+        run: () => setIsComposing(true),
+      },
+      {
+        id: 'style.check',
+        title: 'Toggle style check',
+        category: 'View',
+        isEnabled: () => selectedProject !== null && canLint(selectedProject),
+        run: () => setIsLinting(!isLinting),
+      },
+    ];
+    const keybindings = resolveKeybindings(commands, keybindingOverrides);
+    commandRegistryRef.current = { commands, bindings: keybindings };
+
+    const renderNodeIcon = (node: Project) => {
+      switch (node.type) {
+        case 'research':
+          return <Library size={24} />;
+        case 'note':
+          return <StickyNote size={24} />;
+        case 'attachment':
+          return <Paperclip size={24} />;
+        default:
+          return isContainer(node) ? <Folder size={24} /> : <File size={24} />;
+      }
+    };
+
+    // Items below the top level use the schema of the project they're in.
+    const getItemSchema = (node: Project, projectSchema?: MetadataSchema) => projectSchema || node.metadataSchema || defaultMetadataSchema;
+
+    const renderProjects = (projects: Project[], parentId: number | null = null, schema?: MetadataSchema) => {
       return (
-        <Droppable droppableId={`projectList-${level}`} type={`level-${level}`}>
+        <Droppable droppableId={getDroppableId(parentId)} type={parentId === null ? 'project' : 'item'}>
           {(provided: DroppableProvided) => (
-            <div {...provided.droppableProps} ref={provided.innerRef}>
+            <div {...provided.droppableProps} ref={provided.innerRef} className={parentId === null ? undefined : 'min-h-[0.5rem]'}>
               {projects.map((project, index) => (
                 <Draggable key={project.id} draggableId={project.id.toString()} index={index}>
                   {(provided: DraggableProvided) => (
@@ -383,7 +1052,7 @@ function App() {
                       {...provided.draggableProps}
                       {...provided.dragHandleProps}
                     >
-                      <div className="flex items-center py-2 px-4 hover:bg-gray-200 cursor-pointer">
+                      <div className="flex items-center py-2 px-4 hover:bg-gray-200 dark:hover:bg-gray-700 cursor-pointer">
                         {editingId === project.id ? (
                           <input
                             type="text"
@@ -394,9 +1063,14 @@ function App() {
                           />
                         ) : (
                           <div onClick={() => handleSelectProject(project)}>
-                            {project.type === 'project' ? <Folder size={24} /> : <File size={24} />}
+                            {renderNodeIcon(project)}
                             <span className="ml-2">{project.name}</span>
-                            <span className="ml-2 text-sm text-gray-500">({project.metadata.status})</span>
+                            {dirtyIds.has(project.id) && <span className="ml-1 text-orange-500" title="Unsaved changes">●</span>}
+                            <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                              <span className={`inline-block w-2 h-2 mr-1 rounded-full ${getStatusColor(getItemSchema(project, schema), project.metadata.status)}`} />
+                              ({project.metadata.status})
+                            </span>
+                            <FieldBadges schema={getItemSchema(project, schema)} metadata={project.metadata} />
                           </div>
                         )}
                         <button
@@ -407,20 +1081,71 @@ function App() {
                         </button>
                         <button
                           className="ml-auto bg-red-500 hover:bg-red-700 text-white font-bold py-1 px-2 rounded text-sm"
-                          onClick={() => project.type === 'project' ? handleDeleteProject(project.id) : handleDeleteChapter(project.id, project.id)}
+                          onClick={() => handleDeleteNode(project)}
                         >
                           Delete
                         </button>
                       </div>
-                      {project.type === 'project' && (
+                      {isContainer(project) && (
                         <div className="ml-4">
-                          {renderProjects(project.children, level + 1)}
-                          <button
-                            className="mt-2 bg-green-500 hover:bg-green-700 text-white font-bold py-1 px-2 rounded text-sm"
-                            onClick={() => handleCreateNewChapter(project.id)}
-                          >
-                            New Chapter
-                          </button>
+                          {renderProjects(project.children, project.id, getItemSchema(project, schema))}
+                          <div className="flex flex-wrap space-x-2">
+                            {project.type === 'research' ? (
+                              <>
+                                <button
+                                  className="mt-2 bg-green-500 hover:bg-green-700 text-white font-bold py-1 px-2 rounded text-sm"
+                                  onClick={() => handleCreateNewNote(project.id)}
+                                >
+                                  New Note
+                                </button>
+                                <TemplatePicker
+                                  className="mt-2"
+                                  templates={templates}
+                                  kind="document"
+                                  onChoose={(template) => handleCreateFromTemplate(project.id, template)}
+                                />
+                                <label className="mt-2 bg-orange-500 hover:bg-orange-700 text-white font-bold py-1 px-2 rounded text-sm cursor-pointer">
+                                  <input
+                                    type="file"
+                                    accept={RESEARCH_FILE_ACCEPT}
+                                    multiple
+                                    onChange={(e) => handleAddResearchFiles(project.id, e)}
+                                    className="hidden"
+                                  />
+                                  Add File
+                                </label>
+                              </>
+                            ) : (
+                              <>
+                                <button
+                                  className="mt-2 bg-green-500 hover:bg-green-700 text-white font-bold py-1 px-2 rounded text-sm"
+                                  onClick={() => handleCreateNewChapter(project.id)}
+                                >
+                                  New Chapter
+                                </button>
+                                <TemplatePicker
+                                  className="mt-2"
+                                  templates={templates}
+                                  kind="document"
+                                  onChoose={(template) => handleCreateFromTemplate(project.id, template)}
+                                />
+                              </>
+                            )}
+                            <button
+                              className="mt-2 bg-teal-500 hover:bg-teal-700 text-white font-bold py-1 px-2 rounded text-sm"
+                              onClick={() => handleCreateNewFolder(project.id)}
+                            >
+                              New Folder
+                            </button>
+                            {project.type === 'project' && !findResearchFolder(project) && (
+                              <button
+                                className="mt-2 bg-gray-500 hover:bg-gray-700 text-white font-bold py-1 px-2 rounded text-sm"
+                                onClick={() => handleAddResearchFolder(project.id)}
+                              >
+                                Add Research
+                              </button>
+                            )}
+                          </div>
                         </div>
                       )}
                     </div>
@@ -436,22 +1161,28 @@ function App() {
 
     const renderMetadataEditor = () => {
       if (!selectedProject) return null;
+      const schema = getMetadataSchema(projects, selectedProject.id);
+      const root = findRootProject(getBinder(projects), selectedProject.id);
+      const stats = calculateNodeStats(findNode(projects, selectedProject.id) || selectedProject, liveWordCounts, schema.statuses);
 
       return (
 
-        <div className="mt-4 p-4 bg-gray-100 rounded">
+        <div className="mt-4 p-4 bg-panel rounded">
           <h3 className="text-lg font-semibold mb-2">Metadata</h3>
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block mb-1">Status:</label>
               <select
                 value={selectedProject.metadata.status}
-                onChange={(e) => handleUpdateMetadata({ ...selectedProject.metadata, status: e.target.value as ProjectMetadata['status'] })}
-                className="w-full p-2 border rounded"
+                onChange={(e) => handleUpdateMetadata({ ...selectedProject.metadata, status: e.target.value })}
+                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
               >
-                <option value="Not Started">Not Started</option>
-                <option value="In Progress">In Progress</option>
-                <option value="Completed">Completed</option>
+                {schema.statuses.some(status => status.name === selectedProject.metadata.status) ? null : (
+                  <option value={selectedProject.metadata.status}>{selectedProject.metadata.status}</option>
+                )}
+                {schema.statuses.map(status => (
+                  <option key={status.name} value={status.name}>{status.name}</option>
+                ))}
               </select>
             </div>
             <div>
@@ -459,25 +1190,25 @@ function App() {
               <input
                 type="number"
                 value={selectedProject.metadata.wordCountGoal}
-                onChange={(e) => handleUpdateMetadata({ ...selectedProject.metadata, wordCountGoal: parseInt(e.target.value) })}
-                className="w-full p-2 border rounded"
+                onChange={(e) => handleUpdateMetadata({ ...selectedProject.metadata, wordCountGoal: parseInt(e.target.value) || 0 })}
+                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
               />
             </div>
             <div>
               <label className="block mb-1">Actual Word Count:</label>
-              <input type="number" value={selectedProject.metadata.actualWordCount} readOnly className="w-full p-2 border rounded bg-gray-200" />
+              <input type="number" value={stats.totalWords} readOnly className="w-full p-2 border rounded bg-gray-200 dark:bg-gray-600 dark:border-gray-500" />
             </div>
             <div>
               <label className="block mb-1">Completion Percentage:</label>
-              <input type="number" value={selectedProject.metadata.completionPercentage.toFixed(2)} readOnly className="w-full p-2 border rounded bg-gray-200" />
+              <input type="number" value={stats.completionPercentage.toFixed(2)} readOnly className="w-full p-2 border rounded bg-gray-200 dark:bg-gray-600 dark:border-gray-500" />
             </div>
             <div>
               <label className="block mb-1">Last Modified:</label>
-              <input type="text" value={new Date(selectedProject.metadata.lastModified).toLocaleString()} readOnly className="w-full p-2 border rounded bg-gray-200" />
+              <input type="text" value={new Date(selectedProject.metadata.lastModified).toLocaleString()} readOnly className="w-full p-2 border rounded bg-gray-200 dark:bg-gray-600 dark:border-gray-500" />
             </div>
             <div>
               <label className="block mb-1">Creation Date:</label>
-              <input type="text" value={new Date(selectedProject.metadata.creationDate).toLocaleString()} readOnly className="w-full p-2 border rounded bg-gray-200" />
+              <input type="text" value={new Date(selectedProject.metadata.creationDate).toLocaleString()} readOnly className="w-full p-2 border rounded bg-gray-200 dark:bg-gray-600 dark:border-gray-500" />
             </div>
             <div>
               <label className="block mb-1">Tags:</label>
@@ -485,7 +1216,7 @@ function App() {
                 type="text"
                 value={selectedProject.metadata.tags.join(', ')}
                 onChange={(e) => handleUpdateMetadata({ ...selectedProject.metadata, tags: e.target.value.split(',').map(tag => tag.trim()) })}
-                className="w-full p-2 border rounded"
+                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
               />
             </div>
             <div>
@@ -494,12 +1225,12 @@ function App() {
                 type="text"
                 value={selectedProject.metadata.author}
                 onChange={(e) => handleUpdateMetadata({ ...selectedProject.metadata, author: e.target.value })}
-                className="w-full p-2 border rounded"
+                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
               />
             </div>
             <div>
               <label className="block mb-1">Estimated Reading Time (minutes):</label>
-              <input type="number" value={selectedProject.metadata.estimatedReadingTime} readOnly className="w-full p-2 border rounded bg-gray-200" />
+              <input type="number" value={stats.estimatedReadingTime} readOnly className="w-full p-2 border rounded bg-gray-200 dark:bg-gray-600 dark:border-gray-500" />
             </div>
             <div>
               <label className="block mb-1">Version:</label>
@@ -507,19 +1238,63 @@ function App() {
                 type="text"
                 value={selectedProject.metadata.version}
                 onChange={(e) => handleUpdateMetadata({ ...selectedProject.metadata, version: e.target.value })}
-                className="w-full p-2 border rounded"
+                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
               />
             </div>
+            <div className="col-span-2">
+              <label className="block mb-1">Synopsis:</label>
+              <textarea
+                value={selectedProject.metadata.synopsis || ''}
+                onChange={(e) => handleUpdateMetadata({ ...selectedProject.metadata, synopsis: e.target.value })}
+                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                rows={3}
+              />
+            </div>
+            <CustomFieldInputs fields={schema.fields} metadata={selectedProject.metadata} onChange={handleUpdateMetadata} />
           </div>
+          {root && (
+            <button className="mt-4 text-blue-600 hover:underline" onClick={() => setIsEditingSchema(!isEditingSchema)}>
+              {isEditingSchema ? 'Done customizing' : `Customize statuses and fields for "${root.name}"`}
+            </button>
+          )}
+          {root && isEditingSchema && (
+            <MetadataSchemaEditor
+              key={root.id}
+              schema={schema}
+              onChange={(metadataSchema) => handleUpdateProjectSchema(root.id, node => ({ ...node, metadataSchema }))}
+              onRenameStatus={(from, to) => handleUpdateProjectSchema(root.id, node => renameStatus(node, from, to), `Rename "${from}"`)}
+              onRemoveField={(field) => handleRemoveField(root.id, field)}
+            />
+          )}
+          {isContainer(selectedProject) && <ProjectStats stats={stats} schema={schema} />}
         </div>
 
     );
   };
 
+  if (!storage.isLoaded) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-paper text-ink">
+        {storage.error ? (
+          <>
+            <p className="mb-4">{storage.error}</p>
+            <button className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded" onClick={() => storage.reload()}>
+              Try again
+            </button>
+          </>
+        ) : (
+          'Loading your projects…'
+        )}
+      </div>
+    );
+  }
+
   return (
+    <NotificationContext.Provider value={notify}>
+    <LintSettingsContext.Provider value={lintSettings}>
     <DragDropContext onDragEnd={onDragEnd}>
-    <div className="h-screen flex flex-col">
-      <nav className="bg-gray-800 text-gray-100 p-4 flex justify-between items-center">
+    <div className="h-screen flex flex-col bg-paper text-ink">
+      <nav className="bg-gray-800 dark:bg-gray-950 text-gray-100 p-4 flex justify-between items-center">
   <h1 className="text-lg font-bold">Scrivener-like App</h1>
   <div className="flex space-x-2">
     <button
@@ -538,7 +1313,10 @@ function App() {
     </button>
     <button
       className="bg-purple-500 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded flex items-center"
-      onClick={handleCreateNewProject}
+      onClick={() => {
+        setIsCreatingNewProject(!isCreatingNewProject);
+        setSidebarTab('binder');
+      }}
     >
       <Plus size={20} className="mr-2" />
       New Project
@@ -566,7 +1344,7 @@ function App() {
     </label>
     <button
   className="bg-red-500 hover:bg-red-700 text-white font-bold py-2 px-4 rounded flex items-center"
-  onClick={clearLocalStorage}
+  onClick={handleClearAll}
 >
   <Trash size={20} className="mr-2" />
   Clear All
@@ -579,19 +1357,21 @@ function App() {
       New Version
     </button>
     <button
-      className="bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded flex items-center"
-      onClick={() => changeTheme('dark')}
+      className="bg-gray-600 hover:bg-gray-500 text-white py-2 px-2 rounded"
+      onClick={() => setPaletteMode('commands')}
+      title={`Command palette${keybindings['palette.commands'] ? ` (${keybindings['palette.commands']})` : ''}`}
+      aria-label="Command palette"
     >
-      <Moon size={20} className="mr-2" />
-      Dark Theme
-    </button>
-    <button
-      className="bg-yellow-300 hover:bg-yellow-500 text-black font-bold py-2 px-4 rounded flex items-center"
-      onClick={() => changeTheme('light')}
-    >
-      <Sun size={20} className="mr-2" />
-      Light Theme
+      <Keyboard size={20} />
     </button>
+    <TemplateMenu customTemplates={customTemplates} onDelete={handleDeleteTemplate} />
+    <ThemeMenu
+      theme={theme}
+      settings={themeSettings}
+      onSelect={selectTheme}
+      onSaveCustom={saveCustomTheme}
+      onDeleteCustom={deleteCustomTheme}
+    />
     <button
       className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded flex items-center"
       onClick={exportToPDF}
@@ -601,36 +1381,144 @@ function App() {
     </button>
   </div>
 </nav>
+        {storage.error && (
+          <div className="bg-red-100 text-red-800 px-4 py-2 flex justify-between items-center">
+            <span>{storage.error}</span>
+            <button className="ml-4 font-bold" onClick={storage.dismissError}>
+              Dismiss
+            </button>
+          </div>
+        )}
         <div className="flex flex-1 overflow-hidden">
-          <div className="w-64 bg-gray-100 p-4 flex flex-col">
-            {renderProjects(projects)}
-            {isCreatingNewProject && (
-              <div className="flex items-center py-2 px-4">
-                <input
-                  type="text"
-                  value={newProjectName}
-                  onChange={(e) => setNewProjectName(e.target.value)}
-                  className="w-full p-2 border border-gray-400 rounded"
-                  placeholder="New Project Name"
-                />
+          <div className="w-64 bg-panel p-4 flex flex-col">
+            <div className="flex mb-2 border-b border-gray-300 dark:border-gray-600">
+              {(['binder', 'search'] as const).map(tab => (
                 <button
-                  className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded"
-                  onClick={handleSaveNewProject}
+                  key={tab}
+                  className={`flex-1 py-1 capitalize ${sidebarTab === tab ? 'font-bold border-b-2 border-blue-500' : 'text-gray-600'}`}
+                  onClick={() => setSidebarTab(tab)}
                 >
-                  Save
+                  {tab}
+                </button>
+              ))}
+            </div>
+            {sidebarTab === 'search' && (
+              <SearchPanel
+                projects={getBinder(projects)}
+                onOpenMatch={handleOpenMatch}
+                onOpenNode={handleSelectProject}
+                onSaveAsCollection={handleSaveSearchAsCollection}
+                onReplaceAll={handleReplaceAll}
+                onUndoReplace={handleUndoReplace}
+                canUndo={lastReplace !== null}
+              />
+            )}
+            {sidebarTab === 'binder' && (
+              <div className="flex justify-end space-x-2 mb-1">
+                <button
+                  className="disabled:opacity-30"
+                  onClick={() => handleStepTreeHistory('undo')}
+                  disabled={treeHistory.past.length === 0}
+                  title={treeHistory.past.length > 0 ? `Undo ${treeHistory.past[treeHistory.past.length - 1].label}` : 'Nothing to undo'}
+                  aria-label="Undo binder change"
+                >
+                  <Undo2 size={18} />
+                </button>
+                <button
+                  className="disabled:opacity-30"
+                  onClick={() => handleStepTreeHistory('redo')}
+                  disabled={treeHistory.future.length === 0}
+                  title={treeHistory.future.length > 0 ? `Redo ${treeHistory.future[treeHistory.future.length - 1].label}` : 'Nothing to redo'}
+                  aria-label="Redo binder change"
+                >
+                  <Redo2 size={18} />
                 </button>
               </div>
             )}
+            {sidebarTab === 'binder' && (
+              <CollectionTabs
+                collections={collections}
+                activeId={activeCollection ? activeCollection.id : null}
+                onSelect={setActiveCollectionId}
+                onCreate={() => handleCreateCollection()}
+              />
+            )}
+            {sidebarTab === 'binder' && activeCollection && (
+              <CollectionView
+                collection={activeCollection}
+                items={getCollectionItems(getBinder(projects), activeCollection)}
+                selectedId={selectedProject ? selectedProject.id : null}
+                isCompiling={compilingCollectionId === activeCollection.id}
+                onOpen={handleSelectProject}
+                onRemove={(node) => notifyCollectionSaved(updateCollection(activeCollection.id, current => removeFromCollection(current, node.id)))}
+                onMove={(node, offset) => notifyCollectionSaved(updateCollection(activeCollection.id, current => moveInCollection(current, node.id, offset)))}
+                onRename={() => handleRenameCollection(activeCollection)}
+                onDelete={() => handleDeleteCollection(activeCollection)}
+                onToggleCompile={() => setCompilingCollectionId(compilingCollectionId === activeCollection.id ? null : activeCollection.id)}
+              />
+            )}
+            {sidebarTab === 'binder' && !activeCollection && renderProjects(getBinder(projects))}
+            {sidebarTab === 'binder' && !activeCollection && isCreatingNewProject && (
+              <div className="py-2 px-4">
+                <div className="flex items-center">
+                  <input
+                    type="text"
+                    value={newProjectName}
+                    onChange={(e) => setNewProjectName(e.target.value)}
+                    className="w-full p-2 border border-gray-400 rounded dark:bg-gray-700 dark:border-gray-600"
+                    placeholder="New Project Name"
+                  />
+                  <button
+                    className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded"
+                    onClick={handleCreateNewProject}
+                  >
+                    Save
+                  </button>
+                </div>
+                <select
+                  className="w-full mt-2 p-2 border border-gray-400 rounded dark:bg-gray-700 dark:border-gray-600"
+                  value={newProjectTemplateId}
+                  onChange={(e) => setNewProjectTemplateId(e.target.value)}
+                  aria-label="Project template"
+                >
+                  <option value="">Blank project</option>
+                  {templates.filter(template => getTemplateKind(template) === 'project').map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {sidebarTab === 'binder' && (
+              <TrashPanel
+                items={getTrashedItems(projects)}
+                onRestore={handleRestoreFromTrash}
+                onPurge={handlePurgeFromTrash}
+                onEmpty={handleEmptyTrash}
+              />
+            )}
           </div>
           <div className="flex-1 p-4 overflow-y-auto">
+            {compilingCollection && (
+              <div className="mb-4">
+                <h2 className="text-lg font-bold">Collection: {compilingCollection.name}</h2>
+                <CompilePanel key={compilingCollection.id} project={collectionToProject(getBinder(projects), compilingCollection)} />
+              </div>
+            )}
             {selectedProject && (
               <div>
                 <div className="flex justify-between items-center mb-4">
-  <h2 className="text-lg font-bold">{selectedProject.name}</h2>
+  <div className="flex items-baseline">
+    <h2 className="text-lg font-bold">{selectedProject.name}</h2>
+    {isTextDocument(selectedProject) && (
+      <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+        {isSelectedDirty ? 'Unsaved changes' : lastSavedAt ? `Saved at ${lastSavedAt.toLocaleTimeString()}` : ''}
+      </span>
+    )}
+  </div>
   <div className="flex space-x-2">
     <button
       className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded flex items-center"
-      onClick={handleSaveContent}
+      onClick={() => handleSaveAll()}
     >
       <Save size={24} className="mr-2" />
       Save Project
@@ -642,32 +1530,267 @@ function App() {
       <Edit size={24} className="mr-2" />
       {isEditingMetadata ? 'Hide Metadata' : 'Edit Metadata'}
     </button>
+    {(isTextDocument(selectedProject) || selectedProject.type === 'project') && (
+      <button
+        className="bg-sky-600 hover:bg-sky-800 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={handleSaveAsTemplate}
+      >
+        <BookmarkPlus size={24} className="mr-2" />
+        Save as Template
+      </button>
+    )}
+    <CollectionPicker
+      collections={collections}
+      onAdd={handleAddToCollection}
+      onCreate={() => handleCreateCollection([selectedProject.id])}
+    />
+    {isTextDocument(selectedProject) && (
+      <button
+        className="bg-indigo-500 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsViewingHistory(!isViewingHistory)}
+      >
+        <History size={24} className="mr-2" />
+        {isViewingHistory ? 'Hide History' : 'History'}
+      </button>
+    )}
+    {isTextDocument(selectedProject) && (
+      <button
+        className="bg-stone-500 hover:bg-stone-700 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsViewingResearch(!isViewingResearch)}
+      >
+        <Library size={24} className="mr-2" />
+        {isViewingResearch ? 'Hide Research' : 'Research'}
+      </button>
+    )}
+    {isTextDocument(selectedProject) && (
+      <button
+        className="bg-yellow-600 hover:bg-yellow-800 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsViewingComments(!isViewingComments)}
+      >
+        <MessageSquare size={24} className="mr-2" />
+        {isViewingComments ? 'Hide Comments' : `Comments (${openCommentCount})`}
+      </button>
+    )}
+    {canLint(selectedProject) && (
+      <button
+        className="bg-teal-600 hover:bg-teal-800 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsLinting(!isLinting)}
+      >
+        <SpellCheck size={24} className="mr-2" />
+        {isLinting ? 'Hide Style Check' : 'Style Check'}
+      </button>
+    )}
+    {isTextDocument(selectedProject) && (
+      <button
+        className="bg-stone-700 hover:bg-stone-900 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsComposing(true)}
+      >
+        <Maximize2 size={24} className="mr-2" />
+        Compose
+      </button>
+    )}
+    {isTextDocument(selectedProject) && (
+      <button
+        className={`${splitOrientation === 'vertical' ? 'bg-gray-700' : 'bg-gray-500'} hover:bg-gray-700 text-white font-bold py-2 px-2 rounded flex items-center`}
+        onClick={() => (splitOrientation === 'vertical' ? handleCloseSplit() : setSplitOrientation('vertical'))}
+        title="Split side by side"
+      >
+        <Columns2 size={24} />
+      </button>
+    )}
+    {isTextDocument(selectedProject) && (
+      <button
+        className={`${splitOrientation === 'horizontal' ? 'bg-gray-700' : 'bg-gray-500'} hover:bg-gray-700 text-white font-bold py-2 px-2 rounded flex items-center`}
+        onClick={() => (splitOrientation === 'horizontal' ? handleCloseSplit() : setSplitOrientation('horizontal'))}
+        title="Split top and bottom"
+      >
+        <Rows2 size={24} />
+      </button>
+    )}
+    {isContainer(selectedProject) && selectedProject.type !== 'research' && (
+      <button
+        className="bg-purple-500 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsCompiling(!isCompiling)}
+      >
+        <BookOpen size={24} className="mr-2" />
+        {isCompiling ? 'Hide Compile' : 'Compile'}
+      </button>
+    )}
+    {isContainer(selectedProject) && (
+      <button
+        className="bg-amber-500 hover:bg-amber-700 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsViewingCorkboard(!isViewingCorkboard)}
+      >
+        <LayoutGrid size={24} className="mr-2" />
+        {isViewingCorkboard ? 'Hide Corkboard' : 'Corkboard'}
+      </button>
+    )}
+    {isContainer(selectedProject) && (
+      <button
+        className="bg-cyan-600 hover:bg-cyan-800 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsViewingOutliner(!isViewingOutliner)}
+      >
+        <Table size={24} className="mr-2" />
+        {isViewingOutliner ? 'Hide Outliner' : 'Outliner'}
+      </button>
+    )}
+    {isContainer(selectedProject) && (
+      <button
+        className="bg-orange-500 hover:bg-orange-700 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={() => setIsImportingFiles(!isImportingFiles)}
+      >
+        <Upload size={24} className="mr-2" />
+        {isImportingFiles ? 'Hide Import' : 'Import Files'}
+      </button>
+    )}
+    <button
+      className="bg-orange-400 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded flex items-center"
+      onClick={() => setIsViewingSessions(!isViewingSessions)}
+    >
+      <Flame size={24} className="mr-2" />
+      {isViewingSessions ? 'Hide Sessions' : 'Sessions'}
+    </button>
+    <ExportMenu
+      title={selectedProject.name}
+      author={selectedProject.metadata.author}
+      getChapters={getExportChapters}
+    />
   </div>
 </div>
                 {isEditingMetadata && renderMetadataEditor()}
-                {selectedProject.type === 'chapter' && (
-                  <div>
+                {isViewingSessions && renderWritingSessions()}
+                {isViewingCorkboard && isContainer(selectedProject) && (
+                  <Corkboard
+                    parent={findNode(projects, selectedProject.id) || selectedProject}
+                    schema={getMetadataSchema(projects, selectedProject.id)}
+                    onOpen={handleSelectProject}
+                    onUpdateSynopsis={(node, synopsis) => handleUpdateNodeMetadata(node, { ...node.metadata, synopsis })}
+                  />
+                )}
+                {isViewingOutliner && isContainer(selectedProject) && (
+                  <Outliner
+                    parent={findNode(projects, selectedProject.id) || selectedProject}
+                    schema={getMetadataSchema(projects, selectedProject.id)}
+                    liveWordCounts={liveWordCounts}
+                    onOpen={handleSelectProject}
+                    onRename={handleRename}
+                    onUpdateMetadata={handleUpdateNodeMetadata}
+                    onBulkUpdate={handleBulkUpdateMetadata}
+                  />
+                )}
+                {isCompiling && isContainer(selectedProject) && (
+                  <CompilePanel key={selectedProject.id} project={findNode(projects, selectedProject.id) || selectedProject} />
+                )}
+                {isImportingFiles && isContainer(selectedProject) && <ImportPanel onImport={handleImportChapters} />}
+                {isViewingHistory && isTextDocument(selectedProject) && (
+                  <VersionHistory
+                    versions={selectedProject.versions || []}
+                    currentBlocks={convertToRaw(editorState.getCurrentContent()).blocks}
+                    onRestore={handleRestoreVersion}
+                  />
+                )}
+                {isLinting && canLint(selectedProject) && (
+                  <LintPanel
+                    title={selectedProject.name}
+                    documents={lintDocuments}
+                    settings={lintSettings}
+                    onUpdateSettings={updateLintSettings}
+                    onOpenFinding={handleOpenFinding}
+                    onClose={() => setIsLinting(false)}
+                  />
+                )}
+                {selectedProject.type === 'attachment' && <ResearchViewer node={selectedProject} />}
+                {isTextDocument(selectedProject) && (
+                  <div className="flex">
+                  <div className={`flex-1 min-w-0 ${splitOrientation ? `flex h-[calc(100vh-250px)] ${splitOrientation === 'horizontal' ? 'flex-col' : ''}` : ''}`}>
+                  <div className={splitOrientation ? 'flex-1 min-w-0 min-h-0 overflow-y-auto' : ''}>
                     <Editor
+  key={isHighlightingLint ? 'lint' : 'plain'}
   editorState={editorState}
-  onEditorStateChange={setEditorState}
-  wrapperClassName="border border-gray-300 rounded"
-  editorClassName="p-2 min-h-[calc(100vh-300px)]"
-  toolbar={{
-    options: ['inline', 'blockType', 'fontSize', 'fontFamily', 'list', 'textAlign', 'colorPicker', 'link', 'embedded', 'emoji', 'image', 'remove', 'history'],
-    inline: { inDropdown: false, options: ['bold', 'italic', 'underline', 'strikethrough', 'monospace', 'superscript', 'subscript'] },
-    blockType: { inDropdown: true, options: ['Normal', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'Blockquote', 'Code'] },
-    fontSize: { options: [8, 9, 10, 11, 12, 14, 16, 18, 24, 30, 36, 48] },
-    fontFamily: { options: ['Arial', 'Georgia', 'Impact', 'Tahoma', 'Times New Roman', 'Verdana'] },
+  onEditorStateChange={handleEditorChange}
+  editorRef={(ref) => {
+    editorRef.current = ref as DraftEditor;
   }}
+  wrapperClassName="border border-gray-300 dark:border-gray-600 rounded"
+  editorClassName={splitOrientation ? 'p-2' : 'p-2 min-h-[calc(100vh-300px)]'}
+  toolbar={editorToolbar}
+  customDecorators={getEditorDecorators(isHighlightingLint)}
 />
                   </div>
+                  {splitOrientation && (
+                    <EditorPane
+                      className={`flex-1 ${splitOrientation === 'horizontal' ? 'mt-4' : 'ml-4'}`}
+                      documents={flattenTree(getBinder(projects)).map(entry => entry.node).filter(node => isTextDocument(node) && node.id !== selectedProject.id)}
+                      node={secondaryNode}
+                      editorState={secondaryEditorState}
+                      isDirty={isSecondaryDirty}
+                      onEditorStateChange={handleSecondaryEditorChange}
+                      onSelectDocument={handleOpenInSecondaryPane}
+                      onSave={() => handleSaveSecondary()}
+                      onClose={handleCloseSplit}
+                    />
+                  )}
+                  </div>
+                  {isViewingComments && (
+                    <CommentsMargin
+                      editorState={editorState}
+                      onEditorStateChange={handleEditorChange}
+                      onClose={() => setIsViewingComments(false)}
+                    />
+                  )}
+                  {isViewingResearch && (
+                    <ResearchPane
+                      items={collectResearchItems(findRootProject(projects, selectedProject.id) || selectedProject).filter(item => item.id !== selectedProject.id)}
+                      selectedId={researchItemId}
+                      onSelect={setResearchItemId}
+                      onClose={() => setIsViewingResearch(false)}
+                    />
+                  )}
+                  </div>
                 )}
               </div>
             )}
           </div>
         </div>
       </div>
+      {pendingImport && (
+        <ProjectImportDialog
+          imported={pendingImport.projects}
+          clashCount={countIdClashes(projects, pendingImport.projects)}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
       </DragDropContext>
+      {isComposing && selectedProject && isTextDocument(selectedProject) && renderCompositionMode()}
+      {paletteMode && (
+        <CommandPalette
+          key={paletteMode}
+          mode={paletteMode}
+          commands={commands}
+          keybindings={keybindings}
+          documents={getBinder(projects).flatMap(root =>
+            flattenTree([root]).filter(entry => isTextDocument(entry.node)).map(entry => ({ node: entry.node, location: root.name }))
+          )}
+          onRunCommand={(command) => command.run()}
+          onOpenDocument={handleSelectProject}
+          onClose={() => setPaletteMode(null)}
+        />
+      )}
+      {isEditingKeybindings && (
+        <KeybindingsEditor
+          commands={commands}
+          keybindings={keybindings}
+          overrides={keybindingOverrides}
+          onAssign={assignKeybindings}
+          onReset={resetKeybinding}
+          onResetAll={resetAllKeybindings}
+          onClose={() => setIsEditingKeybindings(false)}
+        />
+      )}
+      <Notifications notices={notices} onDismiss={dismiss} />
+    </LintSettingsContext.Provider>
+    </NotificationContext.Provider>
 
     );
   }
@@ -0,0 +1,94 @@
+import { Project } from '../types';
+import { createDefaultMetadata } from '../utils/metadata';
+import { SearchOptions } from '../utils/search';
+import {
+  addToCollection,
+  COLLECTIONS_STORAGE_KEY,
+  collectionToProject,
+  createManualCollection,
+  createSmartCollection,
+  getCollectionItems,
+  importCollections,
+  loadCollections,
+  moveInCollection,
+  removeFromCollection,
+} from './collections';
+
+const content = (text: string) =>
+  JSON.stringify({ blocks: [{ key: 'a', text, type: 'unstyled', depth: 0, inlineStyleRanges: [], entityRanges: [], data: {} }], entityMap: {} });
+
+const chapter = (id: number, text: string, metadata: Partial<Project['metadata']> = {}): Project => ({
+  id,
+  name: `Chapter ${id}`,
+  type: 'chapter',
+  children: [],
+  content: content(text),
+  metadata: createDefaultMetadata(metadata),
+});
+
+const binder: Project[] = [
+  {
+    id: 1,
+    name: 'Novel',
+    type: 'project',
+    metadata: createDefaultMetadata({ author: 'Ada' }),
+    children: [
+      chapter(2, 'Anna arrives', { tags: ['pov-anna'] }),
+      chapter(3, 'Ben leaves', { status: 'In Progress' }),
+      chapter(4, 'Anna returns', { tags: ['pov-anna'], status: 'In Progress' }),
+    ],
+  },
+];
+
+const query = (overrides: Partial<SearchOptions>): SearchOptions => ({
+  query: '',
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  tag: '',
+  status: '',
+  field: null,
+  ...overrides,
+});
+
+test('manual collections keep their own order and skip missing items', () => {
+  const collection = createManualCollection('Favourites', [4, 99, 2]);
+  expect(getCollectionItems(binder, collection).map(node => node.id)).toEqual([4, 2]);
+});
+
+test('smart collections combine filters with the text query', () => {
+  expect(getCollectionItems(binder, createSmartCollection('Anna', query({ tag: 'pov-anna' }))).map(node => node.id)).toEqual([2, 4]);
+  expect(getCollectionItems(binder, createSmartCollection('WIP', query({ status: 'In Progress', query: 'anna' }))).map(node => node.id)).toEqual([4]);
+});
+
+test('manual collections can be edited', () => {
+  const collection = addToCollection(addToCollection(createManualCollection('Picks', [2]), 3), 3);
+  expect(collection.type === 'manual' && collection.nodeIds).toEqual([2, 3]);
+  const moved = moveInCollection(collection, 3, -1);
+  expect(moved.type === 'manual' && moved.nodeIds).toEqual([3, 2]);
+  const removed = removeFromCollection(moved, 3);
+  expect(removed.type === 'manual' && removed.nodeIds).toEqual([2]);
+});
+
+test('collectionToProject wraps the items for compiling', () => {
+  const project = collectionToProject(binder, createManualCollection('Picks', [3]));
+  expect(project.name).toBe('Picks');
+  expect(project.metadata.author).toBe('Ada');
+  expect(project.children.map(node => node.id)).toEqual([3]);
+});
+
+test('importCollections follows renumbered items and avoids id clashes', () => {
+  const existing = createManualCollection('Picks', [2]);
+  const imported = [{ ...existing, nodeIds: [2, 3] }, createSmartCollection('Anna', query({ tag: 'pov-anna' }))];
+  const merged = importCollections([existing], imported, new Map([[2, 20]]));
+  expect(merged).toHaveLength(3);
+  expect(merged[1].id).not.toBe(existing.id);
+  expect(merged[1].type === 'manual' && merged[1].nodeIds).toEqual([20, 3]);
+  expect(merged[2].id).toBe(imported[1].id);
+});
+
+test('loadCollections ignores malformed entries', () => {
+  localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify([createManualCollection('Picks', [2]), { id: 'x', name: 'Broken', type: 'manual' }]));
+  expect(loadCollections().map(collection => collection.name)).toEqual(['Picks']);
+  localStorage.removeItem(COLLECTIONS_STORAGE_KEY);
+});
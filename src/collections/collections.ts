@@ -0,0 +1,123 @@
+import { Project } from '../types';
+import { createDefaultMetadata } from '../utils/metadata';
+import { filterProjects, SearchOptions, searchProjects } from '../utils/search';
+import { findNode, findRootProject, generateId } from '../utils/tree';
+import { isObject } from '../utils/validation';
+
+// A collection is another way of grouping binder items without copying
+// them. Manual collections list item ids in the writer's own order; smart
+// collections save a search and list the chapters it currently matches.
+export type Collection =
+  | { id: string; name: string; type: 'manual'; nodeIds: number[] }
+  | { id: string; name: string; type: 'smart'; query: SearchOptions };
+
+export const COLLECTIONS_STORAGE_KEY = 'collections';
+
+export const createManualCollection = (name: string, nodeIds: number[] = []): Collection => ({
+  id: `collection-${generateId()}`,
+  name,
+  type: 'manual',
+  nodeIds,
+});
+
+export const createSmartCollection = (name: string, query: SearchOptions): Collection => ({
+  id: `collection-${generateId()}`,
+  name,
+  type: 'smart',
+  query,
+});
+
+// Items that have since been deleted or moved to the trash are skipped, so
+// pass the binder rather than the full project list.
+export const getCollectionItems = (binder: Project[], collection: Collection): Project[] => {
+  if (collection.type === 'manual') {
+    return collection.nodeIds.map(id => findNode(binder, id)).filter((node): node is Project => node !== null);
+  }
+  const { query } = collection;
+  if (!query.query) return filterProjects(binder, query);
+  const matchingIds = new Set(searchProjects(binder, query).map(match => match.nodeId));
+  return filterProjects(binder, query).filter(node => matchingIds.has(node.id));
+};
+
+export const describeQuery = (query: SearchOptions): string => {
+  const parts = [
+    query.query && `"${query.query}"`,
+    query.tag && `tag ${query.tag}`,
+    query.status && `status ${query.status}`,
+    query.field && (query.field.value ? `field = ${query.field.value}` : 'field is set'),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'all chapters';
+};
+
+export const addToCollection = (collection: Collection, nodeId: number): Collection => {
+  if (collection.type !== 'manual' || collection.nodeIds.includes(nodeId)) return collection;
+  return { ...collection, nodeIds: [...collection.nodeIds, nodeId] };
+};
+
+export const removeFromCollection = (collection: Collection, nodeId: number): Collection => {
+  if (collection.type !== 'manual') return collection;
+  return { ...collection, nodeIds: collection.nodeIds.filter(id => id !== nodeId) };
+};
+
+export const moveInCollection = (collection: Collection, nodeId: number, offset: number): Collection => {
+  if (collection.type !== 'manual') return collection;
+  const index = collection.nodeIds.indexOf(nodeId);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= collection.nodeIds.length) return collection;
+  const nodeIds = [...collection.nodeIds];
+  nodeIds.splice(index, 1);
+  nodeIds.splice(target, 0, nodeId);
+  return { ...collection, nodeIds };
+};
+
+// A stand-in folder holding the collection's items, so it can be compiled
+// like a project. The author is taken from the first item's project.
+export const collectionToProject = (binder: Project[], collection: Collection): Project => {
+  const children = getCollectionItems(binder, collection);
+  const root = children.length > 0 ? findRootProject(binder, children[0].id) : null;
+  return {
+    id: 0,
+    name: collection.name,
+    type: 'folder',
+    children,
+    metadata: createDefaultMetadata({ author: root?.metadata.author || '' }),
+  };
+};
+
+const isSearchOptions = (value: unknown): value is SearchOptions =>
+  isObject(value) && typeof value.query === 'string' && typeof value.tag === 'string' && typeof value.status === 'string';
+
+export const isCollection = (value: unknown): value is Collection =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  ((value.type === 'manual' && Array.isArray(value.nodeIds) && value.nodeIds.every((id: unknown) => typeof id === 'number')) ||
+    (value.type === 'smart' && isSearchOptions(value.query)));
+
+// Collections from a project file are added alongside the existing ones,
+// following any items the import renumbered.
+export const importCollections = (existing: Collection[], imported: Collection[], renumbered: Map<number, number>): Collection[] => {
+  const takenIds = new Set(existing.map(collection => collection.id));
+  return [
+    ...existing,
+    ...imported.map(collection => {
+      const id = takenIds.has(collection.id) ? `collection-${generateId()}` : collection.id;
+      takenIds.add(id);
+      return collection.type === 'manual' ? { ...collection, id, nodeIds: collection.nodeIds.map(nodeId => renumbered.get(nodeId) ?? nodeId) } : { ...collection, id };
+    }),
+  ];
+};
+
+export const loadCollections = (): Collection[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLLECTIONS_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isCollection) : [];
+  } catch (error) {
+    console.error('Error reading collections:', error);
+    return [];
+  }
+};
+
+export const saveCollections = (collections: Collection[]) => {
+  localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+};
@@ -0,0 +1,29 @@
+import { useState } from 'react';
+import { Collection, loadCollections, saveCollections } from './collections';
+
+const useCollections = () => {
+  const [collections, setCollections] = useState<Collection[]>(loadCollections);
+
+  const updateCollections = (next: Collection[]): boolean => {
+    try {
+      saveCollections(next);
+    } catch (error) {
+      console.error('Error saving collections:', error);
+      return false;
+    }
+    setCollections(next);
+    return true;
+  };
+
+  const addCollection = (collection: Collection) => updateCollections([...collections, collection]);
+
+  const updateCollection = (id: string, update: (collection: Collection) => Collection) => {
+    return updateCollections(collections.map(collection => (collection.id === id ? update(collection) : collection)));
+  };
+
+  const deleteCollection = (id: string) => updateCollections(collections.filter(collection => collection.id !== id));
+
+  return { collections, addCollection, updateCollection, deleteCollection, replaceCollections: updateCollections };
+};
+
+export default useCollections;
@@ -0,0 +1,49 @@
+import { Command, findCommandByCombo, findConflicts, fuzzyFilter, fuzzyScore, getKeyCombo, isTypingCombo, KEYBINDINGS_STORAGE_KEY, loadKeybindings, resolveKeybindings } from './commands';
+
+const command = (id: string, title: string, defaultKeybinding?: string): Command => ({ id, title, category: 'Test', defaultKeybinding, run: () => {} });
+
+const commands = [command('save', 'Save', 'Ctrl+S'), command('palette', 'Show all commands', 'Ctrl+K'), command('export', 'Export as JSON')];
+
+const keyEvent = (key: string, modifiers: Partial<Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>> = {}) => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+test('getKeyCombo names key presses consistently', () => {
+  expect(getKeyCombo(keyEvent('s', { ctrlKey: true }))).toBe('Ctrl+S');
+  expect(getKeyCombo(keyEvent('k', { metaKey: true }))).toBe('Ctrl+K');
+  expect(getKeyCombo(keyEvent('ArrowDown', { altKey: true }))).toBe('Alt+Down');
+  expect(getKeyCombo(keyEvent('S', { ctrlKey: true, shiftKey: true }))).toBe('Ctrl+Shift+S');
+  expect(getKeyCombo(keyEvent('Control', { ctrlKey: true }))).toBeNull();
+});
+
+test('isTypingCombo spots shortcuts that would interfere with typing', () => {
+  expect(isTypingCombo('Shift+A')).toBe(true);
+  expect(isTypingCombo('Ctrl+S')).toBe(false);
+  expect(isTypingCombo('F2')).toBe(false);
+});
+
+test('user keybindings override or remove the defaults', () => {
+  const bindings = resolveKeybindings(commands, { save: 'Ctrl+Alt+S', palette: '', export: 'Ctrl+E' });
+  expect(bindings).toEqual({ save: 'Ctrl+Alt+S', export: 'Ctrl+E' });
+  expect(findCommandByCombo(commands, bindings, 'Ctrl+E')?.id).toBe('export');
+  expect(findCommandByCombo(commands, bindings, 'Ctrl+K')).toBeNull();
+  expect(findConflicts(commands, bindings, 'palette', 'Ctrl+E').map(conflict => conflict.id)).toEqual(['export']);
+});
+
+test('fuzzyFilter ranks word starts and consecutive letters first', () => {
+  expect(fuzzyScore('xyz', 'Save')).toBeNull();
+  expect(fuzzyFilter(commands, 'sac', item => item.title).map(item => item.id)).toEqual(['palette']);
+  expect(fuzzyFilter(commands, 'ex', item => item.title).map(item => item.id)).toEqual(['export']);
+  expect(fuzzyFilter(['Chapter Ten', 'The Chase'], 'cha', item => item)).toEqual(['Chapter Ten', 'The Chase']);
+});
+
+test('loadKeybindings ignores malformed values', () => {
+  localStorage.setItem(KEYBINDINGS_STORAGE_KEY, JSON.stringify({ save: 'Ctrl+Alt+S', palette: 3 }));
+  expect(loadKeybindings()).toEqual({ save: 'Ctrl+Alt+S' });
+  localStorage.removeItem(KEYBINDINGS_STORAGE_KEY);
+});
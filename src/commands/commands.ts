@@ -0,0 +1,108 @@
+// Every action that can be run from the command palette or a keyboard
+// shortcut. Commands are rebuilt on each render of App so they always see
+// current state; only their ids and default keys need to be stable.
+export interface Command {
+  id: string;
+  title: string;
+  category: string;
+  defaultKeybinding?: string;
+  isEnabled?: () => boolean;
+  run: () => void;
+}
+
+// User overrides by command id. An empty string removes the default binding.
+export type Keybindings = Record<string, string>;
+
+export const KEYBINDINGS_STORAGE_KEY = 'keybindings';
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+const keyNames: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Escape: 'Esc',
+};
+
+export type KeyComboEvent = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+// Turns a key press into a combo such as "Ctrl+Shift+K". Cmd on a Mac counts
+// as Ctrl, so defaults work on both. Returns null for a bare modifier.
+export const getKeyCombo = (event: KeyComboEvent): string | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const key = keyNames[event.key] || (event.key.length === 1 ? event.key.toUpperCase() : event.key);
+  return [event.ctrlKey || event.metaKey ? 'Ctrl' : '', event.altKey ? 'Alt' : '', event.shiftKey ? 'Shift' : '', key].filter(Boolean).join('+');
+};
+
+// Combos without Ctrl or Alt would swallow ordinary typing, so they only fire
+// outside text fields. Function keys are the exception.
+export const isTypingCombo = (combo: string): boolean => !/^(Ctrl|Alt)\+/.test(combo) && !/^(Shift\+)?F\d+$/.test(combo);
+
+export const resolveKeybindings = (commands: Command[], overrides: Keybindings): Keybindings => {
+  return commands.reduce<Keybindings>((bindings, command) => {
+    const combo = overrides[command.id] ?? command.defaultKeybinding ?? '';
+    return combo ? { ...bindings, [command.id]: combo } : bindings;
+  }, {});
+};
+
+export const findCommandByCombo = (commands: Command[], bindings: Keybindings, combo: string): Command | null => {
+  return commands.find(command => bindings[command.id] === combo) || null;
+};
+
+// Other commands already bound to the combo.
+export const findConflicts = (commands: Command[], bindings: Keybindings, commandId: string, combo: string): Command[] => {
+  return commands.filter(command => command.id !== commandId && bindings[command.id] === combo);
+};
+
+// Scores how well a query matches text when its characters appear in order.
+// Consecutive characters and characters at the start of the text or of a
+// word score higher.
+// Returns null when the query doesn't match.
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+  let score = 0;
+  let position = -1;
+  let previous = -2;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position + 1);
+    if (position === -1) return null;
+    if (position === previous + 1) score += 3;
+    if (position === 0) {
+      score += 4;
+    } else if (/[\s\-_:/]/.test(haystack[position - 1])) {
+      score += 2;
+    }
+    score += 1;
+    previous = position;
+  }
+  return score - haystack.length * 0.01;
+};
+
+export const fuzzyFilter = <T>(items: T[], query: string, getText: (item: T) => string): T[] => {
+  return items
+    .map(item => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.item);
+};
+
+export const loadKeybindings = (): Keybindings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEYBINDINGS_STORAGE_KEY) || '{}');
+    if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return {};
+    return Object.keys(saved)
+      .filter(id => typeof saved[id] === 'string')
+      .reduce<Keybindings>((bindings, id) => ({ ...bindings, [id]: saved[id] }), {});
+  } catch (error) {
+    console.error('Error reading keybindings:', error);
+    return {};
+  }
+};
+
+export const saveKeybindings = (keybindings: Keybindings) => {
+  localStorage.setItem(KEYBINDINGS_STORAGE_KEY, JSON.stringify(keybindings));
+};
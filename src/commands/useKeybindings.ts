@@ -0,0 +1,28 @@
+import { useState } from 'react';
+import { Keybindings, loadKeybindings, saveKeybindings } from './commands';
+
+const useKeybindings = () => {
+  const [keybindings, setKeybindings] = useState<Keybindings>(loadKeybindings);
+
+  const updateKeybindings = (next: Keybindings) => {
+    try {
+      saveKeybindings(next);
+    } catch (error) {
+      console.error('Error saving keybindings:', error);
+    }
+    setKeybindings(next);
+  };
+
+  // Takes new combos by command id; an empty combo leaves the command without
+  // a shortcut.
+  const assignKeybindings = (changes: Keybindings) => updateKeybindings({ ...keybindings, ...changes });
+
+  const resetKeybinding = (commandId: string) => {
+    const { [commandId]: _removed, ...rest } = keybindings;
+    updateKeybindings(rest);
+  };
+
+  return { keybindings, assignKeybindings, resetKeybinding, resetAllKeybindings: () => updateKeybindings({}) };
+};
+
+export default useKeybindings;
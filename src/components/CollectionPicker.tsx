@@ -0,0 +1,41 @@
+import React from 'react';
+import { Collection } from '../collections/collections';
+
+interface CollectionPickerProps {
+  collections: Collection[];
+  onAdd: (collection: Collection) => void;
+  onCreate: () => void;
+  className?: string;
+}
+
+const NEW_COLLECTION = 'new';
+
+// A one-shot select, like TemplatePicker. Only manual collections are
+// offered; smart collections choose their own items.
+const CollectionPicker = ({ collections, onAdd, onCreate, className = '' }: CollectionPickerProps) => {
+  const manual = collections.filter(collection => collection.type === 'manual');
+
+  return (
+    <select
+      className={`p-1 border rounded text-sm dark:bg-gray-700 dark:border-gray-600 ${className}`}
+      value=""
+      onChange={(e) => {
+        if (e.target.value === NEW_COLLECTION) {
+          onCreate();
+          return;
+        }
+        const collection = manual.find(option => option.id === e.target.value);
+        if (collection) onAdd(collection);
+      }}
+      aria-label="Add to collection"
+    >
+      <option value="" disabled>Add to collection…</option>
+      {manual.map(collection => (
+        <option key={collection.id} value={collection.id}>{collection.name}</option>
+      ))}
+      <option value={NEW_COLLECTION}>New collection…</option>
+    </select>
+  );
+};
+
+export default CollectionPicker;
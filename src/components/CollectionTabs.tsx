@@ -0,0 +1,32 @@
+import React from 'react';
+import { Filter, ListOrdered, Plus } from 'lucide-react';
+import { Collection } from '../collections/collections';
+
+interface CollectionTabsProps {
+  collections: Collection[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+}
+
+const tabClassName = (isActive: boolean) =>
+  `flex items-center flex-shrink-0 px-2 py-1 rounded-t ${isActive ? 'font-bold border-b-2 border-blue-500' : 'text-gray-600 dark:text-gray-400'}`;
+
+const CollectionTabs = ({ collections, activeId, onSelect, onCreate }: CollectionTabsProps) => (
+  <div className="flex items-center overflow-x-auto text-sm mb-2">
+    <button className={tabClassName(activeId === null)} onClick={() => onSelect(null)}>
+      Manuscript
+    </button>
+    {collections.map(collection => (
+      <button key={collection.id} className={tabClassName(activeId === collection.id)} onClick={() => onSelect(collection.id)} title={collection.name}>
+        {collection.type === 'smart' ? <Filter size={14} className="mr-1" /> : <ListOrdered size={14} className="mr-1" />}
+        <span className="max-w-[6rem] truncate">{collection.name}</span>
+      </button>
+    ))}
+    <button className="flex-shrink-0 px-2 py-1 text-gray-600 dark:text-gray-400" onClick={onCreate} title="New collection" aria-label="New collection">
+      <Plus size={14} />
+    </button>
+  </div>
+);
+
+export default CollectionTabs;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, FileText, Pencil, Trash2, X } from 'lucide-react';
+import { Collection, describeQuery } from '../collections/collections';
+import { Project } from '../types';
+
+interface CollectionViewProps {
+  collection: Collection;
+  items: Project[];
+  selectedId: number | null;
+  isCompiling: boolean;
+  onOpen: (node: Project) => void;
+  onRemove: (node: Project) => void;
+  onMove: (node: Project, offset: number) => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onToggleCompile: () => void;
+}
+
+const CollectionView = ({ collection, items, selectedId, isCompiling, onOpen, onRemove, onMove, onRename, onDelete, onToggleCompile }: CollectionViewProps) => (
+  <div className="flex flex-col min-h-0">
+    <div className="flex items-center mb-1">
+      <h3 className="flex-1 font-semibold truncate">{collection.name}</h3>
+      <button className="ml-2" onClick={onRename} title="Rename collection" aria-label="Rename collection">
+        <Pencil size={16} />
+      </button>
+      <button className="ml-2 text-red-600" onClick={onDelete} title="Delete collection" aria-label="Delete collection">
+        <Trash2 size={16} />
+      </button>
+    </div>
+    <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+      {collection.type === 'smart' ? `Chapters matching ${describeQuery(collection.query)}` : 'Use "Add to collection" on any item to add it here.'}
+    </p>
+    {items.length === 0 && <p className="text-sm text-gray-600 dark:text-gray-400">This collection is empty.</p>}
+    <ul className="overflow-y-auto text-sm">
+      {items.map((node, index) => (
+        <li key={node.id} className={`flex items-center py-1 px-2 rounded ${node.id === selectedId ? 'bg-gray-200 dark:bg-gray-700' : ''}`}>
+          <button className="flex-1 min-w-0 text-left truncate hover:underline" onClick={() => onOpen(node)}>
+            {node.name}
+            <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({node.metadata.status})</span>
+          </button>
+          {collection.type === 'manual' && (
+            <>
+              <button onClick={() => onMove(node, -1)} disabled={index === 0} className="ml-1 disabled:opacity-30" aria-label={`Move ${node.name} up`}>
+                <ArrowUp size={14} />
+              </button>
+              <button onClick={() => onMove(node, 1)} disabled={index === items.length - 1} className="ml-1 disabled:opacity-30" aria-label={`Move ${node.name} down`}>
+                <ArrowDown size={14} />
+              </button>
+              <button onClick={() => onRemove(node)} className="ml-1 text-red-600" aria-label={`Remove ${node.name} from collection`}>
+                <X size={14} />
+              </button>
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+    <button
+      className="mt-2 self-start bg-green-500 hover:bg-green-700 disabled:opacity-50 text-white font-bold py-1 px-2 rounded flex items-center text-sm"
+      onClick={onToggleCompile}
+      disabled={items.length === 0 && !isCompiling}
+    >
+      <FileText size={16} className="mr-1" />
+      {isCompiling ? 'Hide Compile' : 'Compile'}
+    </button>
+  </div>
+);
+
+export default CollectionView;
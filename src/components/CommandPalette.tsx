@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Command as CommandIcon, File } from 'lucide-react';
+import { Command, fuzzyFilter, Keybindings } from '../commands/commands';
+import { Project } from '../types';
+
+export type PaletteMode = 'commands' | 'chapters';
+
+export interface PaletteDocument {
+  node: Project;
+  location: string;
+}
+
+interface CommandPaletteProps {
+  mode: PaletteMode;
+  commands: Command[];
+  keybindings: Keybindings;
+  documents: PaletteDocument[];
+  onRunCommand: (command: Command) => void;
+  onOpenDocument: (node: Project) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+type PaletteItem = { kind: 'command'; command: Command } | { kind: 'document'; document: PaletteDocument };
+
+const CommandPalette = ({ mode, commands, keybindings, documents, onRunCommand, onOpenDocument, onClose }: CommandPaletteProps) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const items: PaletteItem[] =
+    mode === 'commands'
+      ? fuzzyFilter(
+          commands.filter(command => !command.isEnabled || command.isEnabled()),
+          query,
+          command => `${command.category}: ${command.title}`
+        ).map(command => ({ kind: 'command', command }))
+      : fuzzyFilter(documents, query, document => document.node.name).map(document => ({ kind: 'document', document }));
+  const visible = items.slice(0, MAX_RESULTS);
+
+  const choose = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    if (item.kind === 'command') {
+      onRunCommand(item.command);
+    } else {
+      onOpenDocument(item.document.node);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const offset = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + offset + visible.length) % Math.max(visible.length, 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(visible[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center pt-24 z-50" onMouseDown={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded shadow-lg w-[32rem] max-w-full" onMouseDown={(e) => e.stopPropagation()}>
+        <input
+          type="text"
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          className="w-full p-3 border-b border-gray-300 dark:border-gray-600 bg-transparent outline-none"
+          placeholder={mode === 'commands' ? 'Type a command' : 'Go to chapter or note'}
+          aria-label={mode === 'commands' ? 'Command' : 'Chapter name'}
+        />
+        <ul className="max-h-96 overflow-y-auto py-1" role="listbox">
+          {visible.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">No matches</li>}
+          {visible.map((item, index) => (
+            <li
+              key={item.kind === 'command' ? item.command.id : item.document.node.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`flex items-center px-3 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-blue-100 dark:bg-gray-700' : ''}`}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => choose(item)}
+            >
+              {item.kind === 'command' ? (
+                <>
+                  <CommandIcon size={14} className="mr-2 flex-shrink-0 text-gray-500" />
+                  <span className="text-gray-500 mr-1">{item.command.category}:</span>
+                  <span className="flex-1 truncate">{item.command.title}</span>
+                  {keybindings[item.command.id] && (
+                    <kbd className="ml-2 px-1 text-xs border rounded border-gray-300 dark:border-gray-600">{keybindings[item.command.id]}</kbd>
+                  )}
+                </>
+              ) : (
+                <>
+                  <File size={14} className="mr-2 flex-shrink-0 text-gray-500" />
+                  <span className="flex-1 truncate">{item.document.node.name}</span>
+                  <span className="ml-2 text-xs text-gray-500 truncate">{item.document.location}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { EditorState } from 'draft-js';
+import { Check, MessageSquarePlus, RotateCcw, Trash2, X } from 'lucide-react';
+import {
+  addCommentThread,
+  canAddComment,
+  CommentAnchor,
+  createComment,
+  deleteCommentThread,
+  findCommentAnchors,
+  replyToComment,
+  selectCommentAnchor,
+  setCommentResolved,
+} from '../utils/comments';
+
+interface CommentsMarginProps {
+  editorState: EditorState;
+  onEditorStateChange: (editorState: EditorState) => void;
+  onClose: () => void;
+}
+
+const AUTHOR_STORAGE_KEY = 'commentAuthor';
+
+const getThreadId = (anchor: CommentAnchor) => anchor.thread.comments[0]?.id ?? 0;
+
+const CommentsMargin = ({ editorState, onEditorStateChange, onClose }: CommentsMarginProps) => {
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_STORAGE_KEY) || '');
+  const [newComment, setNewComment] = useState('');
+  const [replies, setReplies] = useState<Record<number, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+
+  const anchors = findCommentAnchors(editorState.getCurrentContent());
+  const visibleAnchors = anchors.filter(anchor => showResolved || !anchor.thread.resolved);
+  const selection = editorState.getSelection();
+  const canComment = canAddComment(editorState);
+
+  const isActive = (anchor: CommentAnchor) =>
+    anchor.ranges.some(range => range.blockKey === selection.getStartKey() && selection.getStartOffset() >= range.start && selection.getStartOffset() < range.end);
+
+  const updateAuthor = (value: string) => {
+    setAuthor(value);
+    localStorage.setItem(AUTHOR_STORAGE_KEY, value);
+  };
+
+  const handleAdd = () => {
+    if (!newComment.trim() || !canComment) return;
+    onEditorStateChange(addCommentThread(editorState, createComment(author, newComment)));
+    setNewComment('');
+  };
+
+  const handleReply = (anchor: CommentAnchor) => {
+    const text = replies[getThreadId(anchor)] || '';
+    if (!text.trim()) return;
+    onEditorStateChange(replyToComment(editorState, anchor, createComment(author, text)));
+    setReplies({ ...replies, [getThreadId(anchor)]: '' });
+  };
+
+  return (
+    <div className="w-72 ml-4 flex flex-col min-w-0 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">Comments</h3>
+        <button onClick={onClose} aria-label="Close comments">
+          <X size={20} />
+        </button>
+      </div>
+      <input
+        type="text"
+        className="p-1 mb-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+        placeholder="Your name"
+        value={author}
+        onChange={(e) => updateAuthor(e.target.value)}
+      />
+      <textarea
+        className="p-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+        rows={2}
+        placeholder={canComment ? 'Comment on the selected text…' : 'Select some text to comment on it'}
+        value={newComment}
+        onChange={(e) => setNewComment(e.target.value)}
+      />
+      <button
+        className="mt-1 mb-3 self-start flex items-center text-blue-600 hover:underline disabled:opacity-50"
+        onClick={handleAdd}
+        disabled={!canComment || !newComment.trim()}
+      >
+        <MessageSquarePlus size={16} className="mr-1" />
+        Add comment
+      </button>
+      <label className="flex items-center mb-2 text-gray-600 dark:text-gray-400">
+        <input type="checkbox" className="mr-1" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+        Show resolved ({anchors.filter(anchor => anchor.thread.resolved).length})
+      </label>
+      <div className="overflow-y-auto space-y-2">
+        {visibleAnchors.map(anchor => (
+          <div
+            key={getThreadId(anchor)}
+            className={`p-2 rounded border ${isActive(anchor) ? 'border-yellow-500' : 'border-gray-300 dark:border-gray-600'} ${anchor.thread.resolved ? 'opacity-60' : ''}`}
+          >
+            <button
+              className="block w-full text-left italic text-gray-600 dark:text-gray-400 truncate"
+              onClick={() => onEditorStateChange(selectCommentAnchor(editorState, anchor))}
+              title="Select the commented text"
+            >
+              “{anchor.text}”
+            </button>
+            {anchor.thread.comments.map(comment => (
+              <div key={comment.id} className="mt-1">
+                <span className="font-semibold">{comment.author}</span>
+                <span className="ml-1 text-xs text-gray-500">{new Date(comment.createdAt).toLocaleString()}</span>
+                <p className="whitespace-pre-wrap">{comment.text}</p>
+              </div>
+            ))}
+            {!anchor.thread.resolved && (
+              <input
+                type="text"
+                className="w-full mt-1 p-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+                placeholder="Reply…"
+                value={replies[getThreadId(anchor)] || ''}
+                onChange={(e) => setReplies({ ...replies, [getThreadId(anchor)]: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && handleReply(anchor)}
+              />
+            )}
+            <div className="flex justify-end space-x-2 mt-1">
+              <button
+                className="flex items-center text-green-700 hover:underline"
+                onClick={() => onEditorStateChange(setCommentResolved(editorState, anchor, !anchor.thread.resolved))}
+              >
+                {anchor.thread.resolved ? <RotateCcw size={14} className="mr-1" /> : <Check size={14} className="mr-1" />}
+                {anchor.thread.resolved ? 'Reopen' : 'Resolve'}
+              </button>
+              <button className="flex items-center text-red-600 hover:underline" onClick={() => onEditorStateChange(deleteCommentThread(editorState, anchor))}>
+                <Trash2 size={14} className="mr-1" />
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+        {visibleAnchors.length === 0 && <p className="text-gray-600 dark:text-gray-400">No comments on this document.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CommentsMargin;
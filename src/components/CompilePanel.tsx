@@ -0,0 +1,85 @@
+import React, { useContext, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { Project } from '../types';
+import { compileToPDF } from '../utils/compile';
+import { flattenManuscript } from '../utils/tree';
+import { NotificationContext } from './Notifications';
+
+interface CompilePanelProps {
+  project: Project;
+}
+
+const CompilePanel = ({ project }: CompilePanelProps) => {
+  const entries = flattenManuscript(project.children);
+  const chapterIds = entries.filter(entry => entry.node.type === 'chapter').map(entry => entry.node.id);
+  const [selection, setSelection] = useState<number[]>(chapterIds);
+  // Chapters deleted or moved out while the panel is open drop out of the selection.
+  const selectedIds = selection.filter(id => chapterIds.includes(id));
+  const [includeTitlePage, setIncludeTitlePage] = useState(true);
+  const notify = useContext(NotificationContext);
+
+  const toggleChapter = (id: number) => {
+    setSelection(selectedIds.includes(id) ? selectedIds.filter(selectedId => selectedId !== id) : [...selectedIds, id]);
+  };
+
+  const handleCompile = () => {
+    const chapters = entries.map(entry => entry.node).filter(node => selectedIds.includes(node.id));
+    if (chapters.length === 0) {
+      notify('Select at least one chapter to compile.', 'error');
+      return;
+    }
+    const doc = compileToPDF(chapters, { title: project.name, author: project.metadata.author, includeTitlePage });
+    doc.save(`${project.name}.pdf`);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-panel rounded">
+      <h3 className="text-lg font-semibold mb-2">Compile</h3>
+      <div className="flex space-x-2 mb-2">
+        <button className="text-sm text-blue-600 hover:underline" onClick={() => setSelection(chapterIds)}>
+          Select all
+        </button>
+        <button className="text-sm text-blue-600 hover:underline" onClick={() => setSelection([])}>
+          Select none
+        </button>
+      </div>
+      <ul className="mb-4">
+        {entries.map(({ node, depth }) => (
+          <li key={node.id} style={{ paddingLeft: `${depth * 1.5}rem` }}>
+            {node.type === 'chapter' ? (
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={selectedIds.includes(node.id)}
+                  onChange={() => toggleChapter(node.id)}
+                />
+                {node.name}
+              </label>
+            ) : (
+              <span className="font-semibold text-gray-600">{node.name}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <label className="flex items-center mb-4">
+        <input
+          type="checkbox"
+          className="mr-2"
+          checked={includeTitlePage}
+          onChange={(e) => setIncludeTitlePage(e.target.checked)}
+        />
+        Include title page
+      </label>
+      <button
+        className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded flex items-center"
+        onClick={handleCompile}
+      >
+        <FileText size={20} className="mr-2" />
+        Compile PDF
+      </button>
+    </div>
+  );
+};
+
+export default CompilePanel;
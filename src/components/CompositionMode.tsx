@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Editor as DraftEditor, EditorState } from 'draft-js';
+import { Editor } from 'react-draft-wysiwyg';
+import { Minimize2 } from 'lucide-react';
+import { countWords } from '../utils/textAnalysis';
+import { isObject } from '../utils/validation';
+import { getEditorDecorators } from './editorDecorators';
+
+interface CompositionModeProps {
+  editorState: EditorState;
+  onEditorStateChange: (editorState: EditorState) => void;
+  sessionWords: number;
+  sessionTarget: number;
+  highlightLint: boolean;
+  onExit: () => void;
+}
+
+interface CompositionSettings {
+  width: number;
+  typewriter: boolean;
+  dimParagraphs: boolean;
+}
+
+const SETTINGS_STORAGE_KEY = 'compositionSettings';
+const MIN_WIDTH = 400;
+const MAX_WIDTH = 1200;
+const DEFAULT_SETTINGS: CompositionSettings = { width: 720, typewriter: true, dimParagraphs: false };
+
+const loadSettings = (): CompositionSettings => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+    if (!isObject(saved)) return DEFAULT_SETTINGS;
+    const { width, typewriter, dimParagraphs } = saved;
+    return {
+      width: typeof width === 'number' && width >= MIN_WIDTH && width <= MAX_WIDTH ? width : DEFAULT_SETTINGS.width,
+      typewriter: typeof typewriter === 'boolean' ? typewriter : DEFAULT_SETTINGS.typewriter,
+      dimParagraphs: typeof dimParagraphs === 'boolean' ? dimParagraphs : DEFAULT_SETTINGS.dimParagraphs,
+    };
+  } catch (error) {
+    console.error('Error reading composition settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const CompositionMode = ({ editorState, onEditorStateChange, sessionWords, sessionTarget, highlightLint, onExit }: CompositionModeProps) => {
+  const [settings, setSettings] = useState<CompositionSettings>(loadSettings);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<DraftEditor | null>(null);
+  const wordCount = countWords(editorState.getCurrentContent().getPlainText());
+  const currentBlockKey = editorState.getSelection().getStartKey();
+
+  const updateSettings = (changes: Partial<CompositionSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  useEffect(() => {
+    editorRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onExit();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onExit]);
+
+  // Typewriter scrolling: after every change, scroll so the line holding the
+  // caret sits in the middle of the screen.
+  useEffect(() => {
+    if (!settings.typewriter) return;
+    const frame = requestAnimationFrame(() => {
+      const container = scrollRef.current;
+      const selection = window.getSelection();
+      if (!container || !selection || selection.rangeCount === 0) return;
+      const rect = selection.getRangeAt(0).getBoundingClientRect();
+      if (rect.top === 0 && rect.bottom === 0) return;
+      const containerRect = container.getBoundingClientRect();
+      container.scrollTop += rect.top + rect.height / 2 - (containerRect.top + container.clientHeight / 2);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [editorState, settings.typewriter]);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-paper flex flex-col">
+      {settings.dimParagraphs && (
+        <style>
+          {`.composition-editor [data-block="true"] { opacity: 0.3; transition: opacity 0.2s; }
+.composition-editor [data-block="true"][data-offset-key^="${currentBlockKey}-"] { opacity: 1; }`}
+        </style>
+      )}
+      <div className="flex items-center justify-end space-x-4 px-4 py-2 text-sm text-gray-500 opacity-30 hover:opacity-100 transition-opacity">
+        <label className="flex items-center">
+          Width
+          <input
+            type="range"
+            className="ml-2"
+            min={MIN_WIDTH}
+            max={MAX_WIDTH}
+            step={20}
+            value={settings.width}
+            onChange={(e) => updateSettings({ width: Number(e.target.value) })}
+          />
+        </label>
+        <label className="flex items-center">
+          <input type="checkbox" className="mr-1" checked={settings.typewriter} onChange={(e) => updateSettings({ typewriter: e.target.checked })} />
+          Typewriter scrolling
+        </label>
+        <label className="flex items-center">
+          <input type="checkbox" className="mr-1" checked={settings.dimParagraphs} onChange={(e) => updateSettings({ dimParagraphs: e.target.checked })} />
+          Dim other paragraphs
+        </label>
+        <button className="flex items-center" onClick={onExit} title="Back to the normal layout (Esc)">
+          <Minimize2 size={16} className="mr-1" />
+          Exit
+        </button>
+      </div>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto">
+        <div
+          className="composition-editor mx-auto text-lg leading-relaxed"
+          style={{ maxWidth: settings.width, paddingTop: settings.typewriter ? '50vh' : '2rem', paddingBottom: '50vh' }}
+        >
+          <Editor
+            editorState={editorState}
+            onEditorStateChange={onEditorStateChange}
+            editorRef={(ref) => {
+              editorRef.current = ref as DraftEditor;
+            }}
+            toolbarHidden
+            customDecorators={getEditorDecorators(highlightLint)}
+          />
+        </div>
+      </div>
+      <div className="fixed bottom-4 left-4 text-sm text-gray-500 bg-paper bg-opacity-90 rounded px-3 py-1">
+        {wordCount.toLocaleString()} words
+        {sessionTarget > 0 && ` · session ${Math.max(sessionWords, 0).toLocaleString()} / ${sessionTarget.toLocaleString()}`}
+      </div>
+    </div>
+  );
+};
+
+export default CompositionMode;
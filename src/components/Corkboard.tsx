@@ -0,0 +1,73 @@
+import React from 'react';
+import { Draggable, DraggableProvided, Droppable, DroppableProvided } from 'react-beautiful-dnd';
+import { Folder, File } from 'lucide-react';
+import { MetadataSchema, Project } from '../types';
+import { CARDS_PER_ROW, getCardDraggableId, getCorkboardRowId } from '../utils/corkboard';
+import { getStatusColor } from '../utils/metadataSchema';
+import { isContainer } from '../utils/tree';
+
+interface CorkboardProps {
+  parent: Project;
+  schema: MetadataSchema;
+  onOpen: (node: Project) => void;
+  onUpdateSynopsis: (node: Project, synopsis: string) => void;
+}
+
+const Corkboard = ({ parent, schema, onOpen, onUpdateSynopsis }: CorkboardProps) => {
+  const rows: Project[][] = [];
+  for (let index = 0; index < parent.children.length; index += CARDS_PER_ROW) {
+    rows.push(parent.children.slice(index, index + CARDS_PER_ROW));
+  }
+
+  return (
+    <div className="mt-4 p-4 bg-amber-100 rounded">
+      <h3 className="text-lg font-semibold mb-2">Corkboard</h3>
+      {rows.length === 0 && <p className="text-gray-600">This {parent.type} is empty.</p>}
+      {rows.map((row, rowIndex) => (
+        <Droppable key={rowIndex} droppableId={getCorkboardRowId(parent.id, rowIndex)} direction="horizontal" type="card">
+          {(provided: DroppableProvided) => (
+            <div {...provided.droppableProps} ref={provided.innerRef} className="flex mb-4 min-h-[10rem]">
+              {row.map((node, index) => (
+                <Draggable key={node.id} draggableId={getCardDraggableId(node.id)} index={index}>
+                  {(provided: DraggableProvided) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      {...provided.dragHandleProps}
+                      className="w-1/4 mr-4 bg-white dark:bg-gray-800 rounded shadow flex flex-col overflow-hidden"
+                    >
+                      <div className={`h-2 ${getStatusColor(schema, node.metadata.status)}`} title={node.metadata.status} />
+                      <button className="flex items-center px-2 pt-2 font-semibold text-left hover:underline" onClick={() => onOpen(node)}>
+                        {isContainer(node) ? <Folder size={16} className="mr-1 flex-shrink-0" /> : <File size={16} className="mr-1 flex-shrink-0" />}
+                        <span className="truncate">{node.name}</span>
+                      </button>
+                      <textarea
+                        value={node.metadata.synopsis || ''}
+                        onChange={(e) => onUpdateSynopsis(node, e.target.value)}
+                        className="flex-1 m-2 p-1 text-sm border border-gray-200 rounded resize-none"
+                        placeholder="Synopsis"
+                        rows={4}
+                      />
+                      {node.metadata.tags.some(tag => tag) && (
+                        <div className="flex flex-wrap px-2 pb-2">
+                          {node.metadata.tags.filter(tag => tag).map((tag, tagIndex) => (
+                            <span key={tagIndex} className="mr-1 mb-1 px-1 text-xs bg-gray-200 rounded">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </Draggable>
+              ))}
+              {provided.placeholder}
+            </div>
+          )}
+        </Droppable>
+      ))}
+    </div>
+  );
+};
+
+export default Corkboard;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { CustomFieldDefinition, ProjectMetadata } from '../types';
+import { getOptionColor, setFieldValue } from '../utils/metadataSchema';
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  metadata: ProjectMetadata;
+  onChange: (metadata: ProjectMetadata) => void;
+}
+
+const inputClassName = 'w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600';
+
+// One labelled input per custom field, laid out as cells of the metadata
+// editor's grid.
+const CustomFieldInputs = ({ fields, metadata, onChange }: CustomFieldInputsProps) => {
+  const renderInput = (field: CustomFieldDefinition) => {
+    const value = metadata.customFields?.[field.id];
+    const update = (next: string | number | string[] | undefined) => onChange(setFieldValue(metadata, field.id, next));
+
+    switch (field.type) {
+      case 'text':
+        return <input type="text" value={String(value ?? '')} onChange={(e) => update(e.target.value)} className={inputClassName} />;
+      case 'number':
+        return (
+          <input
+            type="number"
+            value={value ?? ''}
+            onChange={(e) => update(e.target.value === '' ? undefined : Number(e.target.value))}
+            className={inputClassName}
+          />
+        );
+      case 'date':
+        return <input type="date" value={String(value ?? '')} onChange={(e) => update(e.target.value)} className={inputClassName} />;
+      case 'select':
+        return (
+          <select value={String(value ?? '')} onChange={(e) => update(e.target.value)} className={inputClassName}>
+            <option value="">—</option>
+            {field.options.map(option => (
+              <option key={option.value} value={option.value}>{option.value}</option>
+            ))}
+          </select>
+        );
+      case 'multiselect':
+      case 'label': {
+        const selected = Array.isArray(value) ? value : value !== undefined ? [String(value)] : [];
+        const toggle = (choice: string) => {
+          if (field.type === 'label') {
+            update(selected.includes(choice) ? undefined : choice);
+          } else {
+            update(selected.includes(choice) ? selected.filter(item => item !== choice) : [...selected, choice]);
+          }
+        };
+        return (
+          <div className="flex flex-wrap gap-1">
+            {field.options.length === 0 && <span className="text-sm text-gray-500">No options defined</span>}
+            {field.options.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => toggle(option.value)}
+                aria-pressed={selected.includes(option.value)}
+                className={`px-2 py-1 text-sm rounded ${
+                  selected.includes(option.value)
+                    ? `text-white ${getOptionColor(field, option.value)}`
+                    : 'bg-gray-200 dark:bg-gray-700'
+                }`}
+              >
+                {option.value}
+              </button>
+            ))}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <>
+      {fields.map(field => (
+        <div key={field.id}>
+          <label className="block mb-1">{field.name}:</label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default CustomFieldInputs;
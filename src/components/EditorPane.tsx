@@ -0,0 +1,70 @@
+import React, { useEffect, useRef } from 'react';
+import { EditorState } from 'draft-js';
+import { Editor } from 'react-draft-wysiwyg';
+import { Save, X } from 'lucide-react';
+import { Project } from '../types';
+import { commentDecorators } from './commentDecorator';
+import { editorToolbar } from './editorToolbar';
+
+interface EditorPaneProps {
+  documents: Project[];
+  node: Project | null;
+  editorState: EditorState;
+  isDirty: boolean;
+  onEditorStateChange: (editorState: EditorState) => void;
+  onSelectDocument: (id: number | null) => void;
+  onSave: () => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// The second pane of a split editor. It keeps its own scroll position, which
+// is reset whenever a different document is opened in it.
+const EditorPane = ({ documents, node, editorState, isDirty, onEditorStateChange, onSelectDocument, onSave, onClose, className = '' }: EditorPaneProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const nodeId = node?.id;
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  }, [nodeId]);
+
+  return (
+    <div className={`flex flex-col min-w-0 min-h-0 ${className}`}>
+      <div className="flex items-center mb-2">
+        <select
+          className="flex-1 p-2 border rounded"
+          value={node ? node.id : ''}
+          onChange={(e) => onSelectDocument(e.target.value ? Number(e.target.value) : null)}
+        >
+          <option value="">Choose a document…</option>
+          {documents.map(document => (
+            <option key={document.id} value={document.id}>{document.name}</option>
+          ))}
+        </select>
+        {node && <span className="ml-2 text-sm text-gray-500 whitespace-nowrap">{isDirty ? 'Unsaved changes' : 'Saved'}</span>}
+        <button className="ml-2 disabled:opacity-50" onClick={onSave} disabled={!node} aria-label="Save this pane" title="Save">
+          <Save size={20} />
+        </button>
+        <button className="ml-2" onClick={onClose} aria-label="Close split" title="Close split">
+          <X size={20} />
+        </button>
+      </div>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto">
+        {node ? (
+          <Editor
+            editorState={editorState}
+            onEditorStateChange={onEditorStateChange}
+            wrapperClassName="border border-gray-300 rounded"
+            editorClassName="p-2"
+            toolbar={editorToolbar}
+            customDecorators={commentDecorators}
+          />
+        ) : (
+          <p className="text-gray-600">Pick a chapter or note to open it in this pane.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EditorPane;
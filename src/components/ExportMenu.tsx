@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Project } from '../types';
+import { downloadBlob } from '../utils/files';
+import { ExportFormat, exportFormats, exportManuscript } from '../utils/export';
+
+interface ExportMenuProps {
+  title: string;
+  author: string;
+  getChapters: () => Project[];
+}
+
+const ExportMenu = ({ title, author, getChapters }: ExportMenuProps) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [includeComments, setIncludeComments] = useState(false);
+
+  const handleExport = () => {
+    const { extension } = exportFormats.find(option => option.value === format)!;
+    downloadBlob(exportManuscript(format, { title, author, chapters: getChapters(), includeComments }), `${title}.${extension}`);
+  };
+
+  return (
+    <div className="flex items-center">
+      <label className="flex items-center mr-2 text-sm whitespace-nowrap" title="Keep review comments in the exported file">
+        <input type="checkbox" className="mr-1" checked={includeComments} onChange={(e) => setIncludeComments(e.target.checked)} />
+        Comments
+      </label>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="p-2 border rounded-l"
+      >
+        {exportFormats.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <button
+        className="bg-yellow-500 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded-r flex items-center"
+        onClick={handleExport}
+      >
+        <Download size={24} className="mr-2" />
+        Export
+      </button>
+    </div>
+  );
+};
+
+export default ExportMenu;
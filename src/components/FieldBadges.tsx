@@ -0,0 +1,37 @@
+import React from 'react';
+import { MetadataSchema, ProjectMetadata } from '../types';
+import { formatFieldValue, getOptionColor, hasOptions, isEmptyFieldValue } from '../utils/metadataSchema';
+
+interface FieldBadgesProps {
+  schema: MetadataSchema;
+  metadata: ProjectMetadata;
+}
+
+// The filled-in custom fields of one item: choices as coloured chips, other
+// values as "Field: value".
+const FieldBadges = ({ schema, metadata }: FieldBadgesProps) => {
+  const filled = schema.fields.filter(field => !isEmptyFieldValue(metadata.customFields?.[field.id]));
+  if (filled.length === 0) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1 ml-2 align-middle">
+      {filled.map(field => {
+        const value = metadata.customFields![field.id];
+        if (!hasOptions(field.type)) {
+          return (
+            <span key={field.id} className="px-1 text-xs rounded bg-gray-200 dark:bg-gray-700">
+              {field.name}: {formatFieldValue(field, value)}
+            </span>
+          );
+        }
+        return (Array.isArray(value) ? value : [String(value)]).map(choice => (
+          <span key={`${field.id}-${choice}`} className={`px-1 text-xs text-white rounded ${getOptionColor(field, choice)}`} title={field.name}>
+            {choice}
+          </span>
+        ));
+      })}
+    </span>
+  );
+};
+
+export default FieldBadges;
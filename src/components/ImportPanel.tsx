@@ -0,0 +1,83 @@
+import React, { useContext, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Project } from '../types';
+import { readFileAsText } from '../utils/files';
+import { importChapters, ImportOptions } from '../utils/import';
+import { NotificationContext } from './Notifications';
+
+interface ImportPanelProps {
+  onImport: (chapters: Project[]) => void;
+}
+
+const ImportPanel = ({ onImport }: ImportPanelProps) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [splitAtHeadings, setSplitAtHeadings] = useState(false);
+  const [headingType, setHeadingType] = useState<ImportOptions['headingType']>('header-one');
+  const notify = useContext(NotificationContext);
+
+  const handleImport = async () => {
+    const chapters: Project[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        const text = await readFileAsText(file);
+        chapters.push(...importChapters(file.name, text, { splitAtHeadings, headingType }));
+      } catch (error) {
+        console.error('Error importing file:', error);
+        failures.push(file.name);
+      }
+    }
+    if (chapters.length > 0) {
+      onImport(chapters);
+    }
+    if (failures.length > 0) {
+      notify(`Imported ${chapters.length} chapter(s). Could not import: ${failures.join(', ')}`, 'error');
+    } else {
+      notify(`Imported ${chapters.length} chapter(s).`);
+    }
+    setFiles([]);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-panel rounded">
+      <h3 className="text-lg font-semibold mb-2">Import Chapters</h3>
+      <input
+        type="file"
+        multiple
+        accept=".md,.markdown,.txt,.html,.htm"
+        onChange={(e) => setFiles(Array.from(e.target.files || []))}
+        className="mb-2"
+      />
+      <div className="flex items-center space-x-2 mb-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="mr-2"
+            checked={splitAtHeadings}
+            onChange={(e) => setSplitAtHeadings(e.target.checked)}
+          />
+          Split into chapters at
+        </label>
+        <select
+          value={headingType}
+          onChange={(e) => setHeadingType(e.target.value as ImportOptions['headingType'])}
+          disabled={!splitAtHeadings}
+          className="p-1 border rounded"
+        >
+          <option value="header-one">H1 headings</option>
+          <option value="header-two">H2 headings</option>
+        </select>
+      </div>
+      <button
+        className="bg-orange-500 hover:bg-orange-700 text-white font-bold py-2 px-4 rounded flex items-center disabled:opacity-50"
+        onClick={handleImport}
+        disabled={files.length === 0}
+      >
+        <Upload size={20} className="mr-2" />
+        Import {files.length > 0 ? `${files.length} file(s)` : ''}
+      </button>
+    </div>
+  );
+};
+
+export default ImportPanel;
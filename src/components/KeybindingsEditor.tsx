@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Command, findConflicts, getKeyCombo, Keybindings } from '../commands/commands';
+
+interface KeybindingsEditorProps {
+  commands: Command[];
+  keybindings: Keybindings;
+  overrides: Keybindings;
+  onAssign: (changes: Keybindings) => void;
+  onReset: (commandId: string) => void;
+  onResetAll: () => void;
+  onClose: () => void;
+}
+
+const KeybindingsEditor = ({ commands, keybindings, overrides, onAssign, onReset, onResetAll, onClose }: KeybindingsEditorProps) => {
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  // While recording, the next key combo becomes the shortcut. Escape cancels
+  // and Backspace removes the shortcut. A combo already in use moves here.
+  const handleRecord = (command: Command, e: React.KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecordingId(null);
+      return;
+    }
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      onAssign({ [command.id]: '' });
+      setRecordingId(null);
+      setMessage('');
+      return;
+    }
+    const combo = getKeyCombo(e);
+    if (!combo) return;
+    const conflicts = findConflicts(commands, keybindings, command.id, combo);
+    onAssign(conflicts.reduce<Keybindings>((changes, conflict) => ({ ...changes, [conflict.id]: '' }), { [command.id]: combo }));
+    setRecordingId(null);
+    setMessage(conflicts.length > 0 ? `${combo} was removed from ${conflicts.map(conflict => conflict.title).join(', ')}.` : '');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onMouseDown={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded p-6 w-[36rem] max-w-full max-h-[80vh] flex flex-col" onMouseDown={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-2">Keyboard Shortcuts</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+          Click a shortcut and press the new keys. Backspace removes it; Escape cancels.
+        </p>
+        {message && <p className="text-sm text-orange-600 mb-2">{message}</p>}
+        <div className="overflow-y-auto flex-1">
+          <table className="w-full text-sm">
+            <tbody>
+              {commands.map(command => (
+                <tr key={command.id} className="border-t border-gray-200 dark:border-gray-700">
+                  <td className="py-1 text-gray-500">{command.category}</td>
+                  <td className="py-1">{command.title}</td>
+                  <td className="py-1 text-right whitespace-nowrap">
+                    <button
+                      className={`px-2 py-0.5 border rounded min-w-[6rem] ${recordingId === command.id ? 'border-blue-500' : 'border-gray-300 dark:border-gray-600'}`}
+                      onClick={() => setRecordingId(command.id)}
+                      onKeyDown={(e) => recordingId === command.id && handleRecord(command, e)}
+                      onBlur={() => recordingId === command.id && setRecordingId(null)}
+                    >
+                      {recordingId === command.id ? 'Press keys…' : keybindings[command.id] || '—'}
+                    </button>
+                    {overrides[command.id] !== undefined && (
+                      <button className="ml-2 text-blue-600 hover:underline" onClick={() => onReset(command.id)}>
+                        Reset
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-between mt-4">
+          <button className="text-blue-600 hover:underline" onClick={onResetAll}>
+            Reset all
+          </button>
+          <button className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeybindingsEditor;
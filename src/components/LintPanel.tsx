@@ -0,0 +1,181 @@
+import React, { useMemo } from 'react';
+import { EyeOff, X } from 'lucide-react';
+import { analyzeText, describeReadingEase, isFindingIgnored, LINT_RULES, LintFinding, LintRule, LintSettings, TextBlock } from '../utils/textAnalysis';
+
+export interface LintDocument {
+  id: number;
+  name: string;
+  blocks: TextBlock[];
+}
+
+interface LintPanelProps {
+  title: string;
+  documents: LintDocument[];
+  settings: LintSettings;
+  onUpdateSettings: (changes: Partial<LintSettings>) => void;
+  onOpenFinding: (documentId: number, finding: LintFinding) => void;
+  onClose: () => void;
+}
+
+const MAX_LISTED_FINDINGS = 200;
+
+const ruleLabels = LINT_RULES.reduce((labels, rule) => ({ ...labels, [rule.id]: rule.label }), {} as Record<LintRule, string>);
+
+// Block keys are only unique within a document, so the whole selection is
+// analysed with keys prefixed by the document id and split apart afterwards.
+const analyzeDocuments = (documents: LintDocument[]) => {
+  const analysis = analyzeText(documents.flatMap(document => document.blocks.map(block => ({ key: `${document.id}:${block.key}`, text: block.text }))));
+  const findings = analysis.findings.map(finding => {
+    const separator = finding.blockKey.indexOf(':');
+    return { documentId: Number(finding.blockKey.slice(0, separator)), finding: { ...finding, blockKey: finding.blockKey.slice(separator + 1) } };
+  });
+  return { analysis, findings };
+};
+
+const Stat = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="p-2 rounded bg-gray-100 dark:bg-gray-700">
+    <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+    <div className="font-semibold">{value}</div>
+    {detail && <div className="text-xs text-gray-500 dark:text-gray-400">{detail}</div>}
+  </div>
+);
+
+const LintPanel = ({ title, documents, settings, onUpdateSettings, onOpenFinding, onClose }: LintPanelProps) => {
+  const { analysis, findings } = useMemo(() => analyzeDocuments(documents), [documents]);
+  const visibleFindings = findings.filter(({ finding }) => !isFindingIgnored(finding, settings));
+  const maxSentenceBucket = Math.max(...analysis.sentenceLengths.map(bucket => bucket.count), 1);
+  const documentNames = new Map(documents.map(document => [document.id, document.name]));
+
+  const toggleRule = (rule: LintRule) => {
+    onUpdateSettings({
+      ignoredRules: settings.ignoredRules.includes(rule) ? settings.ignoredRules.filter(ignored => ignored !== rule) : [...settings.ignoredRules, rule],
+    });
+  };
+
+  const ignoreWord = (word: string) => {
+    if (!settings.ignoredWords.includes(word)) onUpdateSettings({ ignoredWords: [...settings.ignoredWords, word] });
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-panel rounded">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">Style check: {title}</h3>
+        <button onClick={onClose} aria-label="Close style check">
+          <X size={20} />
+        </button>
+      </div>
+      {analysis.wordCount === 0 ? (
+        <p className="text-sm text-gray-500">There's no text to check yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4 text-sm">
+            <Stat label="Words" value={analysis.wordCount.toLocaleString()} detail={`${analysis.estimatedReadingTime} min read`} />
+            <Stat label="Sentences" value={analysis.sentenceCount.toLocaleString()} detail={`${analysis.averageSentenceLength} words on average`} />
+            <Stat label="Reading ease" value={analysis.readingEase.toString()} detail={`${describeReadingEase(analysis.readingEase)} · grade ${analysis.gradeLevel}`} />
+            <Stat label="Adverbs" value={analysis.adverbCount.toLocaleString()} detail={`${analysis.adverbDensity}% of words`} />
+          </div>
+          <div className="grid md:grid-cols-3 gap-4 mb-4 text-sm">
+            <div>
+              <h4 className="font-semibold mb-1">Sentence length</h4>
+              {analysis.sentenceLengths.map(bucket => (
+                <div key={bucket.label} className="flex items-center mb-1">
+                  <span className="w-12 text-xs text-gray-500 dark:text-gray-400">{bucket.label}</span>
+                  <div className="flex-1 h-3 bg-gray-200 dark:bg-gray-700 rounded">
+                    <div className="h-3 bg-blue-500 rounded" style={{ width: `${(bucket.count / maxSentenceBucket) * 100}%` }} />
+                  </div>
+                  <span className="w-8 text-right text-xs">{bucket.count}</span>
+                </div>
+              ))}
+            </div>
+            <div>
+              <h4 className="font-semibold mb-1">Most used words</h4>
+              <div className="flex flex-wrap gap-1">
+                {analysis.wordFrequency.map(({ word, count }) => (
+                  <span key={word} className="px-2 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-xs">
+                    {word} ×{count}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h4 className="font-semibold mb-1">Overused phrases</h4>
+              {analysis.overusedPhrases.length === 0 && <p className="text-xs text-gray-500">None found.</p>}
+              {analysis.overusedPhrases.map(({ phrase, count }) => (
+                <div key={phrase} className="text-xs">
+                  "{phrase}" ×{count}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-sm">
+        {LINT_RULES.map(rule => (
+          <label key={rule.id} className="flex items-center" title={rule.description}>
+            <input type="checkbox" className="mr-1" checked={!settings.ignoredRules.includes(rule.id)} onChange={() => toggleRule(rule.id)} />
+            {rule.label}
+          </label>
+        ))}
+        <label className="flex items-center">
+          <input type="checkbox" className="mr-1" checked={settings.highlight} onChange={e => onUpdateSettings({ highlight: e.target.checked })} />
+          Highlight in editor
+        </label>
+      </div>
+      {settings.ignoredWords.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mb-2 text-xs">
+          <span className="text-gray-500 dark:text-gray-400">Ignored:</span>
+          {settings.ignoredWords.map(word => (
+            <span key={word} className="flex items-center px-2 py-0.5 rounded bg-gray-200 dark:bg-gray-700">
+              {word}
+              <button
+                className="ml-1"
+                onClick={() => onUpdateSettings({ ignoredWords: settings.ignoredWords.filter(ignored => ignored !== word) })}
+                aria-label={`Stop ignoring ${word}`}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {analysis.wordCount > 0 && (
+        <>
+          <h4 className="font-semibold text-sm mb-1">Findings ({visibleFindings.length})</h4>
+          <ul className="max-h-64 overflow-y-auto text-sm">
+            {visibleFindings.slice(0, MAX_LISTED_FINDINGS).map(({ documentId, finding }, index) => (
+              <li
+                key={`${documentId}-${finding.blockKey}-${finding.start}-${finding.rule}-${index}`}
+                className="flex items-center py-1 px-2 rounded cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-700"
+                onClick={() => onOpenFinding(documentId, finding)}
+              >
+                <span className="w-32 shrink-0 text-xs text-gray-500 dark:text-gray-400">{ruleLabels[finding.rule]}</span>
+                <span className="flex-1 min-w-0 truncate">
+                  {documents.length > 1 && <span className="text-gray-500 dark:text-gray-400">{documentNames.get(documentId)}: </span>}
+                  <span className="font-medium">{finding.text}</span>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{finding.message}</span>
+                </span>
+                {finding.rule !== 'long-sentence' && (
+                  <button
+                    className="ml-2 text-gray-500"
+                    onClick={e => {
+                      e.stopPropagation();
+                      ignoreWord(finding.text.toLowerCase());
+                    }}
+                    title={`Ignore "${finding.text.toLowerCase()}"`}
+                  >
+                    <EyeOff size={14} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {visibleFindings.length > MAX_LISTED_FINDINGS && (
+            <p className="text-xs text-gray-500 mt-1">Showing the first {MAX_LISTED_FINDINGS} findings.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LintPanel;
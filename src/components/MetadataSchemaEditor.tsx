@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldType, LabelColor, MetadataSchema } from '../types';
+import { createFieldDefinition, createFieldOption, FIELD_TYPES, hasOptions, LABEL_COLORS, labelColorClassNames } from '../utils/metadataSchema';
+
+interface MetadataSchemaEditorProps {
+  schema: MetadataSchema;
+  onChange: (schema: MetadataSchema) => void;
+  onRenameStatus: (from: string, to: string) => void;
+  onRemoveField: (field: CustomFieldDefinition) => void;
+}
+
+const inputClassName = 'p-1 border rounded dark:bg-gray-700 dark:border-gray-600';
+
+const ColorSelect = ({ color, onChange }: { color: LabelColor; onChange: (color: LabelColor) => void }) => (
+  <span className="flex items-center">
+    <span className={`inline-block w-3 h-3 rounded-full mr-1 ${labelColorClassNames[color]}`} />
+    <select value={color} onChange={(e) => onChange(e.target.value as LabelColor)} className={`${inputClassName} text-sm`} aria-label="Color">
+      {LABEL_COLORS.map(option => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+  </span>
+);
+
+const MetadataSchemaEditor = ({ schema, onChange, onRenameStatus, onRemoveField }: MetadataSchemaEditorProps) => {
+  const [newStatus, setNewStatus] = useState('');
+  const [newFieldName, setNewFieldName] = useState('');
+  const [newFieldType, setNewFieldType] = useState<CustomFieldType>('text');
+  const [newOptions, setNewOptions] = useState<Record<string, string>>({});
+  // Names being typed, by "status:<name>" or "field:<id>". They're committed
+  // on blur, and a rejected name goes back to the one in the schema.
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+
+  const statusNames = schema.statuses.map(status => status.name);
+
+  const setNameDraft = (key: string, value: string) => setNameDrafts({ ...nameDrafts, [key]: value });
+
+  const clearNameDraft = (key: string) => {
+    const { [key]: _committed, ...rest } = nameDrafts;
+    setNameDrafts(rest);
+  };
+
+  const isFieldNameTaken = (name: string, exceptId?: string) => schema.fields.some(field => field.id !== exceptId && field.name === name);
+
+  const updateStatuses = (statuses: MetadataSchema['statuses']) => onChange({ ...schema, statuses });
+
+  const moveStatus = (index: number, offset: number) => {
+    const statuses = [...schema.statuses];
+    const [status] = statuses.splice(index, 1);
+    statuses.splice(index + offset, 0, status);
+    updateStatuses(statuses);
+  };
+
+  const addStatus = () => {
+    const name = newStatus.trim();
+    if (!name || statusNames.includes(name)) return;
+    updateStatuses([...schema.statuses, { name, color: LABEL_COLORS[schema.statuses.length % LABEL_COLORS.length] }]);
+    setNewStatus('');
+  };
+
+  const commitStatusName = (from: string, to: string) => {
+    const name = to.trim();
+    if (name && name !== from && !statusNames.includes(name)) onRenameStatus(from, name);
+  };
+
+  const commitFieldName = (field: CustomFieldDefinition, value: string) => {
+    const name = value.trim();
+    if (name && name !== field.name && !isFieldNameTaken(name, field.id)) updateField(field.id, { name });
+  };
+
+  const updateField = (id: string, changes: Partial<CustomFieldDefinition>) => {
+    onChange({ ...schema, fields: schema.fields.map(field => (field.id === id ? { ...field, ...changes } : field)) });
+  };
+
+  const addField = () => {
+    const name = newFieldName.trim();
+    if (!name || isFieldNameTaken(name)) return;
+    onChange({ ...schema, fields: [...schema.fields, createFieldDefinition(name, newFieldType)] });
+    setNewFieldName('');
+  };
+
+  const addOption = (field: CustomFieldDefinition) => {
+    const value = (newOptions[field.id] || '').trim();
+    if (!value || field.options.some(option => option.value === value)) return;
+    updateField(field.id, { options: [...field.options, createFieldOption(field, value)] });
+    setNewOptions({ ...newOptions, [field.id]: '' });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-300 dark:border-gray-600">
+      <h4 className="font-semibold mb-2">Statuses</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Listed in workflow order. Renaming a status updates every item that uses it.</p>
+      {schema.statuses.map((status, index) => (
+        <div key={status.name} className="flex items-center space-x-2 mb-1">
+          <ColorSelect color={status.color} onChange={(color) => updateStatuses(schema.statuses.map(item => (item.name === status.name ? { ...item, color } : item)))} />
+          <input
+            type="text"
+            value={nameDrafts[`status:${status.name}`] ?? status.name}
+            onChange={(e) => setNameDraft(`status:${status.name}`, e.target.value)}
+            onBlur={(e) => {
+              commitStatusName(status.name, e.target.value);
+              clearNameDraft(`status:${status.name}`);
+            }}
+            className={`${inputClassName} flex-1`}
+            aria-label="Status name"
+          />
+          <button onClick={() => moveStatus(index, -1)} disabled={index === 0} className="disabled:opacity-30" aria-label={`Move ${status.name} up`}>
+            <ArrowUp size={16} />
+          </button>
+          <button
+            onClick={() => moveStatus(index, 1)}
+            disabled={index === schema.statuses.length - 1}
+            className="disabled:opacity-30"
+            aria-label={`Move ${status.name} down`}
+          >
+            <ArrowDown size={16} />
+          </button>
+          <button
+            onClick={() => updateStatuses(schema.statuses.filter(item => item.name !== status.name))}
+            disabled={schema.statuses.length === 1}
+            className="text-red-600 disabled:opacity-30"
+            aria-label={`Remove ${status.name}`}
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center space-x-2 mt-2 mb-4">
+        <input
+          type="text"
+          value={newStatus}
+          onChange={(e) => setNewStatus(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addStatus()}
+          className={`${inputClassName} flex-1`}
+          placeholder="New status"
+        />
+        <button className="text-blue-600 hover:underline flex items-center" onClick={addStatus}>
+          <Plus size={16} className="mr-1" />
+          Add
+        </button>
+      </div>
+
+      <h4 className="font-semibold mb-2">Custom fields</h4>
+      {schema.fields.length === 0 && <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">No custom fields yet.</p>}
+      {schema.fields.map(field => (
+        <div key={field.id} className="mb-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={nameDrafts[`field:${field.id}`] ?? field.name}
+              onChange={(e) => setNameDraft(`field:${field.id}`, e.target.value)}
+              onBlur={(e) => {
+                commitFieldName(field, e.target.value);
+                clearNameDraft(`field:${field.id}`);
+              }}
+              className={`${inputClassName} flex-1`}
+              aria-label="Field name"
+            />
+            <span className="text-sm text-gray-500">{FIELD_TYPES.find(fieldType => fieldType.type === field.type)?.label}</span>
+            <button onClick={() => onRemoveField(field)} className="text-red-600" aria-label={`Remove ${field.name}`}>
+              <X size={16} />
+            </button>
+          </div>
+          {hasOptions(field.type) && (
+            <div className="ml-4 mt-1">
+              {field.options.map(option => (
+                <div key={option.value} className="flex items-center space-x-2 text-sm mb-1">
+                  <ColorSelect
+                    color={option.color}
+                    onChange={(color) => updateField(field.id, { options: field.options.map(item => (item.value === option.value ? { ...item, color } : item)) })}
+                  />
+                  <span className="flex-1">{option.value}</span>
+                  <button
+                    onClick={() => updateField(field.id, { options: field.options.filter(item => item.value !== option.value) })}
+                    className="text-red-600"
+                    aria-label={`Remove ${option.value}`}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center space-x-2 text-sm">
+                <input
+                  type="text"
+                  value={newOptions[field.id] || ''}
+                  onChange={(e) => setNewOptions({ ...newOptions, [field.id]: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && addOption(field)}
+                  className={`${inputClassName} flex-1`}
+                  placeholder="New option"
+                />
+                <button className="text-blue-600 hover:underline" onClick={() => addOption(field)}>
+                  Add option
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={newFieldName}
+          onChange={(e) => setNewFieldName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addField()}
+          className={`${inputClassName} flex-1`}
+          placeholder="New field"
+        />
+        <select value={newFieldType} onChange={(e) => setNewFieldType(e.target.value as CustomFieldType)} className={inputClassName}>
+          {FIELD_TYPES.map(fieldType => (
+            <option key={fieldType.type} value={fieldType.type}>{fieldType.label}</option>
+          ))}
+        </select>
+        <button className="text-blue-600 hover:underline flex items-center" onClick={addField}>
+          <Plus size={16} className="mr-1" />
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MetadataSchemaEditor;
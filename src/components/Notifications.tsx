@@ -0,0 +1,64 @@
+import React, { createContext, useCallback, useState } from 'react';
+import { X } from 'lucide-react';
+
+export type NoticeKind = 'success' | 'error' | 'info';
+
+export interface Notice {
+  id: number;
+  message: string;
+  kind: NoticeKind;
+}
+
+export type Notify = (message: string, kind?: NoticeKind) => void;
+
+const NOTICE_DURATION: Record<NoticeKind, number> = {
+  success: 3000,
+  info: 3000,
+  error: 8000,
+};
+
+export const NotificationContext = createContext<Notify>((message) => console.info(message));
+
+let nextNoticeId = 1;
+
+export const useNotifications = () => {
+  const [notices, setNotices] = useState<Notice[]>([]);
+
+  const dismiss = useCallback((id: number) => {
+    setNotices(current => current.filter(notice => notice.id !== id));
+  }, []);
+
+  const notify: Notify = useCallback((message, kind = 'success') => {
+    const id = nextNoticeId++;
+    setNotices(current => [...current, { id, message, kind }]);
+    setTimeout(() => dismiss(id), NOTICE_DURATION[kind]);
+  }, [dismiss]);
+
+  return { notices, notify, dismiss };
+};
+
+const noticeClassNames: Record<NoticeKind, string> = {
+  success: 'bg-green-600 text-white',
+  info: 'bg-gray-800 text-white',
+  error: 'bg-red-600 text-white',
+};
+
+interface NotificationsProps {
+  notices: Notice[];
+  onDismiss: (id: number) => void;
+}
+
+const Notifications = ({ notices, onDismiss }: NotificationsProps) => (
+  <div className="fixed bottom-4 right-4 z-50 flex flex-col space-y-2" role="status" aria-live="polite">
+    {notices.map(notice => (
+      <div key={notice.id} className={`${noticeClassNames[notice.kind]} rounded shadow px-4 py-2 flex items-start max-w-md`}>
+        <span className="whitespace-pre-line">{notice.message}</span>
+        <button className="ml-4" onClick={() => onDismiss(notice.id)} aria-label="Dismiss">
+          <X size={16} />
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default Notifications;
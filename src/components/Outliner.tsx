@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Folder, File } from 'lucide-react';
+import { MetadataSchema, Project, ProjectMetadata } from '../types';
+import {
+  BulkMetadataChange,
+  getOutlinerRows,
+  OUTLINER_COLUMNS,
+  OutlinerColumn,
+  OutlinerSort,
+  OutlinerSortKey,
+  parseTags,
+  sortOutlinerRows,
+} from '../utils/outliner';
+import { LiveWordCounts } from '../utils/stats';
+import { isContainer } from '../utils/tree';
+
+interface OutlinerProps {
+  parent: Project;
+  schema: MetadataSchema;
+  liveWordCounts: LiveWordCounts;
+  onOpen: (node: Project) => void;
+  onRename: (id: number, name: string) => void;
+  onUpdateMetadata: (node: Project, metadata: ProjectMetadata) => void;
+  onBulkUpdate: (ids: number[], change: BulkMetadataChange) => void;
+}
+
+const COLUMNS_STORAGE_KEY = 'outlinerColumns';
+
+const loadVisibleColumns = (): OutlinerColumn[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) || 'null');
+    if (Array.isArray(saved)) return OUTLINER_COLUMNS.map(column => column.key).filter(key => saved.includes(key));
+  } catch (error) {
+    console.error('Error reading outliner columns:', error);
+  }
+  return OUTLINER_COLUMNS.map(column => column.key);
+};
+
+const cellInputClassName = 'w-full p-1 border border-transparent hover:border-gray-300 rounded bg-transparent';
+
+const Outliner = ({ parent, schema, liveWordCounts, onOpen, onRename, onUpdateMetadata, onBulkUpdate }: OutlinerProps) => {
+  const [visibleColumns, setVisibleColumns] = useState<OutlinerColumn[]>(loadVisibleColumns);
+  const [sort, setSort] = useState<OutlinerSort | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkTag, setBulkTag] = useState('');
+
+  const rows = sortOutlinerRows(getOutlinerRows(parent, liveWordCounts), sort);
+  const rowIds = rows.map(row => row.node.id);
+  const activeSelection = selectedIds.filter(id => rowIds.includes(id));
+  const columns = OUTLINER_COLUMNS.filter(column => visibleColumns.includes(column.key));
+  const statusNames = schema.statuses.map(status => status.name);
+
+  const toggleColumn = (key: OutlinerColumn) => {
+    const next = visibleColumns.includes(key) ? visibleColumns.filter(column => column !== key) : [...visibleColumns, key];
+    setVisibleColumns(next);
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // Clicking a header cycles ascending, descending, then back to tree order.
+  const toggleSort = (key: OutlinerSortKey) => {
+    if (sort?.key !== key) setSort({ key, direction: 'asc' });
+    else if (sort.direction === 'asc') setSort({ key, direction: 'desc' });
+    else setSort(null);
+  };
+
+  const toggleRow = (id: number) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(selectedId => selectedId !== id) : [...selectedIds, id]);
+  };
+
+  const applyBulk = (change: BulkMetadataChange) => {
+    if (activeSelection.length > 0) onBulkUpdate(activeSelection, change);
+  };
+
+  const renderHeader = (key: OutlinerSortKey, label: string) => (
+    <th key={key} className="p-2 text-left">
+      <button className="flex items-center font-semibold" onClick={() => toggleSort(key)}>
+        {label}
+        {sort?.key === key && (sort.direction === 'asc' ? <ArrowUp size={14} className="ml-1" /> : <ArrowDown size={14} className="ml-1" />)}
+      </button>
+    </th>
+  );
+
+  const renderCell = (column: OutlinerColumn, node: Project, words: number, goal: number, progress: number) => {
+    const { metadata } = node;
+    switch (column) {
+      case 'synopsis':
+        return (
+          <input
+            key={`${node.id}-${metadata.synopsis || ''}`}
+            type="text"
+            defaultValue={metadata.synopsis || ''}
+            onBlur={(e) => e.target.value !== (metadata.synopsis || '') && onUpdateMetadata(node, { ...metadata, synopsis: e.target.value })}
+            className={cellInputClassName}
+          />
+        );
+      case 'status':
+        return (
+          <select
+            value={metadata.status}
+            onChange={(e) => onUpdateMetadata(node, { ...metadata, status: e.target.value })}
+            className={cellInputClassName}
+          >
+            {statusNames.includes(metadata.status) ? null : <option value={metadata.status}>{metadata.status}</option>}
+            {statusNames.map(status => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+        );
+      case 'tags':
+        return (
+          <input
+            key={`${node.id}-${metadata.tags.join(',')}`}
+            type="text"
+            defaultValue={metadata.tags.join(', ')}
+            onBlur={(e) => onUpdateMetadata(node, { ...metadata, tags: parseTags(e.target.value) })}
+            className={cellInputClassName}
+          />
+        );
+      case 'words':
+        return words.toLocaleString();
+      case 'goal':
+        return isContainer(node) && !metadata.wordCountGoal ? (
+          <span className="text-gray-500" title="Sum of the chapter goals">{goal.toLocaleString()}</span>
+        ) : (
+          <input
+            key={`${node.id}-${metadata.wordCountGoal}`}
+            type="number"
+            min={0}
+            defaultValue={metadata.wordCountGoal}
+            onBlur={(e) => onUpdateMetadata(node, { ...metadata, wordCountGoal: Math.max(parseInt(e.target.value) || 0, 0) })}
+            className={`${cellInputClassName} w-24`}
+          />
+        );
+      case 'progress':
+        return goal > 0 ? `${progress.toFixed(0)}%` : '—';
+      case 'lastModified':
+        return metadata.lastModified ? new Date(metadata.lastModified).toLocaleDateString() : '';
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-panel rounded">
+      <h3 className="text-lg font-semibold mb-2">Outliner</h3>
+      <div className="flex flex-wrap items-center text-sm mb-2">
+        <span className="mr-2 text-gray-600">Columns:</span>
+        {OUTLINER_COLUMNS.map(column => (
+          <label key={column.key} className="flex items-center mr-3">
+            <input type="checkbox" className="mr-1" checked={visibleColumns.includes(column.key)} onChange={() => toggleColumn(column.key)} />
+            {column.label}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center space-x-2 text-sm mb-2">
+        <span className="text-gray-600">{activeSelection.length} selected</span>
+        <select
+          className="p-1 border rounded"
+          value=""
+          onChange={(e) => applyBulk({ status: e.target.value })}
+          disabled={activeSelection.length === 0}
+        >
+          <option value="" disabled>Set status…</option>
+          {statusNames.map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          className="p-1 border rounded"
+          placeholder="Tag"
+          value={bulkTag}
+          onChange={(e) => setBulkTag(e.target.value)}
+        />
+        <button
+          className="text-blue-600 hover:underline disabled:opacity-50"
+          disabled={activeSelection.length === 0 || !bulkTag.trim()}
+          onClick={() => applyBulk({ addTag: bulkTag.trim() })}
+        >
+          Add tag
+        </button>
+        <button
+          className="text-blue-600 hover:underline disabled:opacity-50"
+          disabled={activeSelection.length === 0 || !bulkTag.trim()}
+          onClick={() => applyBulk({ removeTag: bulkTag.trim() })}
+        >
+          Remove tag
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm bg-white dark:bg-gray-800">
+          <thead className="bg-gray-200 dark:bg-gray-700">
+            <tr>
+              <th className="p-2">
+                <input
+                  type="checkbox"
+                  checked={rows.length > 0 && activeSelection.length === rows.length}
+                  onChange={(e) => setSelectedIds(e.target.checked ? rowIds : [])}
+                  aria-label="Select all rows"
+                />
+              </th>
+              {renderHeader('name', 'Name')}
+              {columns.map(column => renderHeader(column.key, column.label))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ node, depth, words, goal, progress }) => (
+              <tr key={node.id} className="border-t border-gray-200">
+                <td className="p-2 text-center">
+                  <input type="checkbox" checked={activeSelection.includes(node.id)} onChange={() => toggleRow(node.id)} aria-label={`Select ${node.name}`} />
+                </td>
+                <td className="p-2" style={{ paddingLeft: `${(sort ? 0 : depth) * 1.5 + 0.5}rem` }}>
+                  <div className="flex items-center">
+                    <button className="mr-1 flex-shrink-0" onClick={() => onOpen(node)} title="Open">
+                      {isContainer(node) ? <Folder size={16} /> : <File size={16} />}
+                    </button>
+                    <input
+                      key={`${node.id}-${node.name}`}
+                      type="text"
+                      defaultValue={node.name}
+                      onBlur={(e) => e.target.value.trim() && e.target.value !== node.name && onRename(node.id, e.target.value.trim())}
+                      className={cellInputClassName}
+                    />
+                  </div>
+                </td>
+                {columns.map(column => (
+                  <td key={column.key} className="p-2">
+                    {renderCell(column.key, node, words, goal, progress)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.length === 0 && <p className="text-gray-600 mt-2">This {parent.type} is empty.</p>}
+    </div>
+  );
+};
+
+export default Outliner;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Project } from '../types';
+import { MergeStrategy } from '../utils/projectFile';
+
+interface ProjectImportDialogProps {
+  imported: Project[];
+  clashCount: number;
+  onConfirm: (strategy: MergeStrategy) => void;
+  onCancel: () => void;
+}
+
+const strategies: { value: MergeStrategy; label: string; description: string }[] = [
+  { value: 'keep-both', label: 'Merge, keep both', description: 'Add the imported projects and give clashing items new ids.' },
+  { value: 'replace-matching', label: 'Merge, replace matching', description: 'Imported projects overwrite existing projects with the same id.' },
+  { value: 'replace-all', label: 'Replace workspace', description: 'Discard every existing project and keep only the imported ones.' },
+];
+
+const ProjectImportDialog = ({ imported, clashCount, onConfirm, onCancel }: ProjectImportDialogProps) => {
+  const [strategy, setStrategy] = useState<MergeStrategy>('keep-both');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded p-6 w-96">
+        <h3 className="text-lg font-semibold mb-2">Import Projects</h3>
+        <p className="text-sm mb-2">
+          The file contains {imported.length} project(s): {imported.map(project => project.name).join(', ')}.
+        </p>
+        {clashCount > 0 && (
+          <p className="text-sm text-orange-600 mb-2">{clashCount} item(s) share an id with items already in the workspace.</p>
+        )}
+        <div className="mb-4">
+          {strategies.map(option => (
+            <label key={option.value} className="flex items-start mb-2">
+              <input
+                type="radio"
+                name="merge-strategy"
+                className="mt-1 mr-2"
+                checked={strategy === option.value}
+                onChange={() => setStrategy(option.value)}
+              />
+              <span>
+                <span className="font-semibold">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button className="bg-gray-300 hover:bg-gray-400 font-bold py-2 px-4 rounded" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="bg-orange-500 hover:bg-orange-700 text-white font-bold py-2 px-4 rounded" onClick={() => onConfirm(strategy)}>
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectImportDialog;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { MetadataSchema } from '../types';
+import { getStatusColor } from '../utils/metadataSchema';
+import { NodeStats } from '../utils/stats';
+
+interface ProjectStatsProps {
+  stats: NodeStats;
+  schema: MetadataSchema;
+}
+
+const ProjectStats = ({ stats, schema }: ProjectStatsProps) => (
+  <div className="mt-4">
+    <h4 className="font-semibold mb-2">Progress</h4>
+    <div className="w-full h-3 bg-gray-300 rounded mb-1">
+      <div className="h-3 bg-blue-500 rounded" style={{ width: `${stats.completionPercentage}%` }} />
+    </div>
+    <p className="text-sm text-gray-600 mb-4">
+      {stats.totalWords.toLocaleString()} words
+      {stats.goal > 0 ? ` of ${stats.goal.toLocaleString()} (${stats.completionPercentage.toFixed(1)}%)` : ' (no goal set)'}
+      {` · ${stats.chapters.length} ${stats.chapters.length === 1 ? 'chapter' : 'chapters'}`}
+    </p>
+    <div className="flex flex-wrap gap-x-4 text-sm mb-4">
+      {Object.keys(stats.statusCounts).map(status => (
+        <span key={status} className="flex items-center">
+          <span className={`inline-block w-3 h-3 rounded-full mr-1 ${getStatusColor(schema, status)}`} />
+          {status}: {stats.statusCounts[status]}
+        </span>
+      ))}
+    </div>
+    {stats.chapters.length > 0 && (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th className="py-1">Chapter</th>
+            <th className="py-1">Status</th>
+            <th className="py-1 text-right">Words</th>
+            <th className="py-1 text-right">Goal</th>
+            <th className="py-1 text-right">Progress</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.chapters.map(chapter => (
+            <tr key={chapter.id} className="border-t border-gray-300">
+              <td className="py-1">{chapter.name}</td>
+              <td className="py-1">{chapter.status}</td>
+              <td className="py-1 text-right">{chapter.words.toLocaleString()}</td>
+              <td className="py-1 text-right">{chapter.goal > 0 ? chapter.goal.toLocaleString() : '—'}</td>
+              <td className="py-1 text-right">{chapter.goal > 0 ? `${chapter.completionPercentage.toFixed(0)}%` : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export default ProjectStats;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Project } from '../types';
+import ResearchViewer from './ResearchViewer';
+
+interface ResearchPaneProps {
+  items: Project[];
+  selectedId: number | null;
+  onSelect: (id: number | null) => void;
+  onClose: () => void;
+}
+
+const ResearchPane = ({ items, selectedId, onSelect, onClose }: ResearchPaneProps) => {
+  const selected = items.find(item => item.id === selectedId) || null;
+
+  return (
+    <div className="w-1/2 ml-4 flex flex-col min-w-0">
+      <div className="flex items-center mb-2">
+        <select
+          className="flex-1 p-2 border rounded"
+          value={selected ? selected.id : ''}
+          onChange={(e) => onSelect(e.target.value ? Number(e.target.value) : null)}
+        >
+          <option value="">Choose a research item…</option>
+          {items.map(item => (
+            <option key={item.id} value={item.id}>{item.name}</option>
+          ))}
+        </select>
+        <button className="ml-2" onClick={onClose} aria-label="Close research">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="overflow-y-auto">
+        {selected ? (
+          <ResearchViewer node={selected} />
+        ) : (
+          <p className="text-gray-600">{items.length === 0 ? 'This project has no research notes or files yet.' : 'Pick a note or file to view it here.'}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResearchPane;
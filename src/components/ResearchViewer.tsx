@@ -0,0 +1,49 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Editor } from 'draft-js';
+import { Project } from '../types';
+import { createEditorState } from '../utils/content';
+import { dataUrlToBlob } from '../utils/files';
+import { getAttachmentKind } from '../utils/research';
+
+interface ResearchViewerProps {
+  node: Project;
+}
+
+// PDFs are shown from an object URL because browsers refuse to render large
+// data: URLs in frames.
+const usePdfUrl = (dataUrl: string | undefined, isPdf: boolean) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!dataUrl || !isPdf) return;
+    const objectUrl = URL.createObjectURL(dataUrlToBlob(dataUrl));
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [dataUrl, isPdf]);
+  return url;
+};
+
+const ResearchViewer = ({ node }: ResearchViewerProps) => {
+  const kind = node.attachment ? getAttachmentKind(node.attachment.mimeType) : null;
+  const pdfUrl = usePdfUrl(node.attachment?.dataUrl, kind === 'pdf');
+  const noteState = useMemo(() => (node.type === 'note' ? createEditorState(node.content) : null), [node.type, node.content]);
+
+  if (noteState) {
+    return (
+      <div className="p-2 bg-white border border-gray-300 rounded">
+        <Editor editorState={noteState} onChange={() => undefined} readOnly />
+      </div>
+    );
+  }
+  if (node.attachment && kind === 'image') {
+    return <img src={node.attachment.dataUrl} alt={node.name} className="max-w-full" />;
+  }
+  if (node.attachment && kind === 'pdf') {
+    return pdfUrl ? <iframe src={pdfUrl} title={node.name} className="w-full h-[calc(100vh-250px)] border border-gray-300" /> : null;
+  }
+  return <p className="text-gray-600">{node.attachment ? `${node.attachment.fileName} can't be previewed.` : 'Nothing to show.'}</p>;
+};
+
+export default ResearchViewer;
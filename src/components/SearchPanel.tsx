@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { FolderSearch, Replace, Undo2 } from 'lucide-react';
+import { Project } from '../types';
+import { collectFieldDefinitions, collectStatuses, hasOptions } from '../utils/metadataSchema';
+import { buildSearchPattern, filterProjects, hasActiveFilters, SearchMatch, SearchOptions, searchProjects } from '../utils/search';
+import { flattenTree } from '../utils/tree';
+
+interface SearchPanelProps {
+  projects: Project[];
+  onOpenMatch: (match: SearchMatch) => void;
+  onOpenNode: (node: Project) => void;
+  onSaveAsCollection: (options: SearchOptions) => void;
+  onReplaceAll: (options: SearchOptions, replacement: string) => void;
+  onUndoReplace: () => void;
+  canUndo: boolean;
+}
+
+const MAX_RESULTS = 500;
+
+const SearchPanel = ({ projects, onOpenMatch, onOpenNode, onSaveAsCollection, onReplaceAll, onUndoReplace, canUndo }: SearchPanelProps) => {
+  const [options, setOptions] = useState<SearchOptions>({
+    query: '',
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+    tag: '',
+    status: '',
+    field: null,
+  });
+  const [replacement, setReplacement] = useState('');
+
+  const { error } = buildSearchPattern(options);
+  const matches = useMemo(() => searchProjects(projects, options), [projects, options]);
+  const tags = useMemo(
+    () => Array.from(new Set(flattenTree(projects).flatMap(entry => entry.node.metadata.tags))).sort(),
+    [projects]
+  );
+  const statuses = useMemo(() => collectStatuses(projects), [projects]);
+  const fields = useMemo(() => collectFieldDefinitions(projects), [projects]);
+  const filtered = useMemo(
+    () => (!options.query && hasActiveFilters(options) ? filterProjects(projects, options) : []),
+    [projects, options]
+  );
+  const filterField = fields.find(({ field }) => field.id === options.field?.fieldId)?.field;
+  const contentMatchCount = matches.filter(match => match.field === 'content').length;
+
+  const updateOptions = (changes: Partial<SearchOptions>) => setOptions({ ...options, ...changes });
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <input
+        type="text"
+        value={options.query}
+        onChange={(e) => updateOptions({ query: e.target.value })}
+        className="w-full p-2 border border-gray-400 rounded mb-2"
+        placeholder="Search all chapters"
+      />
+      <input
+        type="text"
+        value={replacement}
+        onChange={(e) => setReplacement(e.target.value)}
+        className="w-full p-2 border border-gray-400 rounded mb-2"
+        placeholder="Replace with"
+      />
+      <div className="text-sm mb-2">
+        <label className="flex items-center">
+          <input type="checkbox" className="mr-2" checked={options.caseSensitive} onChange={(e) => updateOptions({ caseSensitive: e.target.checked })} />
+          Match case
+        </label>
+        <label className="flex items-center">
+          <input type="checkbox" className="mr-2" checked={options.wholeWord} onChange={(e) => updateOptions({ wholeWord: e.target.checked })} />
+          Whole word
+        </label>
+        <label className="flex items-center">
+          <input type="checkbox" className="mr-2" checked={options.regex} onChange={(e) => updateOptions({ regex: e.target.checked })} />
+          Regular expression
+        </label>
+      </div>
+      <div className="flex space-x-2 mb-2 text-sm">
+        <select className="flex-1 p-1 border border-gray-400 rounded" value={options.tag} onChange={(e) => updateOptions({ tag: e.target.value })}>
+          <option value="">Any tag</option>
+          {tags.map(tag => (
+            <option key={tag} value={tag}>{tag}</option>
+          ))}
+        </select>
+        <select
+          className="flex-1 p-1 border border-gray-400 rounded"
+          value={options.status}
+          onChange={(e) => updateOptions({ status: e.target.value })}
+        >
+          <option value="">Any status</option>
+          {statuses.map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+      </div>
+      {fields.length > 0 && (
+        <div className="flex space-x-2 mb-2 text-sm">
+          <select
+            className="flex-1 p-1 border border-gray-400 rounded"
+            value={options.field?.fieldId || ''}
+            onChange={(e) => {
+              const field = fields.find(entry => entry.field.id === e.target.value)?.field;
+              updateOptions({ field: field ? { fieldId: field.id, type: field.type, value: '' } : null });
+            }}
+          >
+            <option value="">Any field</option>
+            {fields.map(({ project, field }) => (
+              <option key={field.id} value={field.id}>
+                {field.name}
+                {projects.length > 1 ? ` (${project.name})` : ''}
+              </option>
+            ))}
+          </select>
+          {options.field && filterField && hasOptions(filterField.type) && (
+            <select
+              className="flex-1 p-1 border border-gray-400 rounded"
+              value={options.field.value}
+              onChange={(e) => updateOptions({ field: { ...options.field!, value: e.target.value } })}
+            >
+              <option value="">Any value</option>
+              {filterField.options.map(option => (
+                <option key={option.value} value={option.value}>{option.value}</option>
+              ))}
+            </select>
+          )}
+          {options.field && filterField && !hasOptions(filterField.type) && (
+            <input
+              type={filterField.type}
+              className="flex-1 min-w-0 p-1 border border-gray-400 rounded"
+              value={options.field.value}
+              onChange={(e) => updateOptions({ field: { ...options.field!, value: e.target.value } })}
+              placeholder="Any value"
+            />
+          )}
+        </div>
+      )}
+      <div className="flex space-x-2 mb-2">
+        <button
+          className="bg-blue-500 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-1 px-2 rounded flex items-center text-sm"
+          onClick={() => onReplaceAll(options, replacement)}
+          disabled={contentMatchCount === 0}
+        >
+          <Replace size={16} className="mr-1" />
+          Replace All
+        </button>
+        <button
+          className="bg-gray-500 hover:bg-gray-700 disabled:opacity-50 text-white font-bold py-1 px-2 rounded flex items-center text-sm"
+          onClick={onUndoReplace}
+          disabled={!canUndo}
+        >
+          <Undo2 size={16} className="mr-1" />
+          Undo
+        </button>
+        <button
+          className="bg-gray-500 hover:bg-gray-700 disabled:opacity-50 text-white font-bold py-1 px-2 rounded flex items-center text-sm"
+          onClick={() => onSaveAsCollection(options)}
+          disabled={!options.query && !hasActiveFilters(options)}
+          title="Save this search as a smart collection"
+        >
+          <FolderSearch size={16} className="mr-1" />
+          Save
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {options.query && !error && (
+        <p className="text-sm text-gray-500 mb-2">
+          {matches.length === 1 ? '1 match' : `${matches.length} matches`}
+          {matches.length > MAX_RESULTS ? ` (showing first ${MAX_RESULTS})` : ''}
+        </p>
+      )}
+      {!options.query && hasActiveFilters(options) && (
+        <p className="text-sm text-gray-500 mb-2">{filtered.length === 1 ? '1 chapter' : `${filtered.length} chapters`}</p>
+      )}
+      <ul className="overflow-y-auto text-sm">
+        {filtered.map(node => (
+          <li key={node.id}>
+            <button className="w-full text-left py-1 px-2 rounded hover:bg-gray-200" onClick={() => onOpenNode(node)}>
+              <span className="block font-semibold text-gray-700">{node.name}</span>
+            </button>
+          </li>
+        ))}
+        {matches.slice(0, MAX_RESULTS).map((match, index) => (
+          <li key={`${match.nodeId}-${match.blockKey || 'name'}-${match.offset}-${index}`}>
+            <button className="w-full text-left py-1 px-2 rounded hover:bg-gray-200" onClick={() => onOpenMatch(match)}>
+              <span className="block font-semibold text-gray-700">
+                {match.nodeName}
+                {match.field === 'name' && <span className="ml-1 font-normal text-gray-500">(title)</span>}
+              </span>
+              <span className="block text-gray-600 break-words">
+                {match.before}
+                <mark>{match.match}</mark>
+                {match.after}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { LayoutTemplate, Trash2 } from 'lucide-react';
+import { getTemplateKind, Template } from '../templates/templates';
+
+interface TemplateMenuProps {
+  customTemplates: Template[];
+  onDelete: (template: Template) => void;
+}
+
+const TemplateMenu = ({ customTemplates, onDelete }: TemplateMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        className="bg-gray-600 hover:bg-gray-500 text-white py-2 px-2 rounded"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Saved templates"
+      >
+        <LayoutTemplate size={20} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-72 p-4 bg-white text-gray-800 dark:bg-gray-800 dark:text-gray-100 rounded shadow-lg">
+          <h3 className="font-semibold mb-2">Saved templates</h3>
+          {customTemplates.length === 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Use "Save as Template" on a project, chapter or note to reuse it here.
+            </p>
+          )}
+          {customTemplates.map(template => (
+            <div key={template.id} className="flex items-center py-1 text-sm">
+              <span className="flex-1 truncate">{template.name}</span>
+              <span className="ml-2 text-xs text-gray-500">{getTemplateKind(template) === 'project' ? 'project' : template.node.type}</span>
+              <button className="ml-2 text-red-600" onClick={() => onDelete(template)} aria-label={`Delete ${template.name}`}>
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateMenu;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { getTemplateKind, Template, TemplateKind } from '../templates/templates';
+
+interface TemplatePickerProps {
+  templates: Template[];
+  kind: TemplateKind;
+  onChoose: (template: Template) => void;
+  className?: string;
+}
+
+// A one-shot select: choosing a template fires onChoose and the select goes
+// back to its placeholder.
+const TemplatePicker = ({ templates, kind, onChoose, className = '' }: TemplatePickerProps) => {
+  const options = templates.filter(template => getTemplateKind(template) === kind);
+  const builtIn = options.filter(template => template.builtIn);
+  const custom = options.filter(template => !template.builtIn);
+
+  return (
+    <select
+      className={`p-1 border rounded text-sm dark:bg-gray-700 dark:border-gray-600 ${className}`}
+      value=""
+      onChange={(e) => {
+        const template = options.find(option => option.id === e.target.value);
+        if (template) onChoose(template);
+      }}
+      aria-label="Create from template"
+    >
+      <option value="" disabled>From template…</option>
+      <optgroup label="Built-in">
+        {builtIn.map(template => (
+          <option key={template.id} value={template.id}>{template.name}</option>
+        ))}
+      </optgroup>
+      {custom.length > 0 && (
+        <optgroup label="Saved">
+          {custom.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+};
+
+export default TemplatePicker;
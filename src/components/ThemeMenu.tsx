@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Palette } from 'lucide-react';
+import { builtInThemes, Theme, ThemeColors, ThemeSelection, ThemeSettings } from '../theme/themes';
+
+interface ThemeMenuProps {
+  theme: Theme;
+  settings: ThemeSettings;
+  onSelect: (selected: ThemeSelection) => void;
+  onSaveCustom: (theme: Theme) => void;
+  onDeleteCustom: (id: string) => void;
+}
+
+const colorLabels: Record<keyof ThemeColors, string> = {
+  background: 'Background',
+  panel: 'Panels',
+  text: 'Text',
+  accent: 'Accent',
+};
+
+const ThemeMenu = ({ theme, settings, onSelect, onSaveCustom, onDeleteCustom }: ThemeMenuProps) => {
+  const [draft, setDraft] = useState<Theme | null>(null);
+  const isCustom = settings.customThemes.some(custom => custom.id === draft?.id);
+
+  // Customizing a built-in theme starts a new custom theme from its colours.
+  const startCustomizing = () => {
+    const existing = settings.customThemes.find(custom => custom.id === theme.id);
+    setDraft(existing ? { ...existing } : { ...theme, id: `custom-${Date.now()}`, name: `${theme.name} (custom)` });
+  };
+
+  const updateColor = (key: keyof ThemeColors, value: string) => {
+    if (draft) setDraft({ ...draft, colors: { ...draft.colors, [key]: value } });
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <select
+        className="bg-gray-700 text-gray-100 py-2 px-2 rounded"
+        value={settings.selected}
+        onChange={(e) => onSelect(e.target.value)}
+        aria-label="Theme"
+      >
+        <option value="system">System ({theme.name})</option>
+        {[...builtInThemes, ...settings.customThemes].map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+      <button className="ml-2 bg-gray-600 hover:bg-gray-500 text-white py-2 px-2 rounded" onClick={() => (draft ? setDraft(null) : startCustomizing())} title="Customize theme">
+        <Palette size={20} />
+      </button>
+      {draft && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-72 p-4 bg-white text-gray-800 dark:bg-gray-800 dark:text-gray-100 rounded shadow-lg">
+          <label className="block mb-1">Name:</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full p-2 border rounded mb-2 dark:bg-gray-700 dark:border-gray-600"
+          />
+          <label className="flex items-center mb-2">
+            <input type="checkbox" className="mr-2" checked={draft.dark} onChange={(e) => setDraft({ ...draft, dark: e.target.checked })} />
+            Dark controls
+          </label>
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            {(Object.keys(colorLabels) as (keyof ThemeColors)[]).map(key => (
+              <label key={key} className="flex items-center justify-between">
+                {colorLabels[key]}
+                <input type="color" value={draft.colors[key]} onChange={(e) => updateColor(key, e.target.value)} />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-between">
+            <button
+              className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-1 px-2 rounded"
+              onClick={() => {
+                onSaveCustom({ ...draft, name: draft.name.trim() || 'Custom' });
+                setDraft(null);
+              }}
+            >
+              Save theme
+            </button>
+            {isCustom && (
+              <button
+                className="bg-red-500 hover:bg-red-700 text-white font-bold py-1 px-2 rounded"
+                onClick={() => {
+                  onDeleteCustom(draft.id);
+                  setDraft(null);
+                }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemeMenu;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, RotateCcw, Trash2, X } from 'lucide-react';
+import { Project } from '../types';
+import { countDescendants } from '../utils/tree';
+
+interface TrashPanelProps {
+  items: Project[];
+  onRestore: (item: Project) => void;
+  onPurge: (item: Project) => void;
+  onEmpty: () => void;
+}
+
+const TrashPanel = ({ items, onRestore, onPurge, onEmpty }: TrashPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-4 pt-2 border-t border-gray-300 dark:border-gray-600">
+      <button className="flex items-center w-full font-semibold" onClick={() => setIsOpen(!isOpen)}>
+        {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        <Trash2 size={16} className="mx-1" />
+        Trash ({items.length})
+      </button>
+      {isOpen && (
+        <div className="mt-2 text-sm">
+          {items.length === 0 && <p className="text-gray-600 dark:text-gray-400">The trash is empty.</p>}
+          {items.map(item => (
+            <div key={item.id} className="flex items-center py-1">
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{item.name}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {item.type}
+                  {countDescendants(item) > 0 && ` · ${countDescendants(item)} inside`}
+                  {item.trashedFrom && ` · ${new Date(item.trashedFrom.deletedAt).toLocaleDateString()}`}
+                </div>
+              </div>
+              <button className="ml-2 text-blue-600" onClick={() => onRestore(item)} title="Restore" aria-label={`Restore ${item.name}`}>
+                <RotateCcw size={16} />
+              </button>
+              <button className="ml-2 text-red-600" onClick={() => onPurge(item)} title="Delete permanently" aria-label={`Delete ${item.name} permanently`}>
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+          {items.length > 0 && (
+            <button className="mt-2 text-red-600 hover:underline" onClick={onEmpty}>
+              Empty trash
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashPanel;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { RawDraftContentBlock } from 'draft-js';
+import { RotateCcw } from 'lucide-react';
+import { ChapterVersion } from '../types';
+import { getRawBlocks } from '../utils/content';
+import { diffBlocks } from '../utils/versions';
+
+interface VersionHistoryProps {
+  versions: ChapterVersion[];
+  currentBlocks: RawDraftContentBlock[];
+  onRestore: (version: ChapterVersion) => void;
+}
+
+const diffClassNames = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800 line-through',
+  unchanged: 'text-gray-600',
+};
+
+const diffPrefixes = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+const VersionHistory = ({ versions, currentBlocks, onRestore }: VersionHistoryProps) => {
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(null);
+  const sortedVersions = [...versions].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  const selectedVersion = versions.find(version => version.id === selectedVersionId);
+
+  if (versions.length === 0) {
+    return (
+      <div className="mt-4 p-4 bg-panel rounded">
+        <h3 className="text-lg font-semibold mb-2">Version History</h3>
+        <p className="text-sm text-gray-500">No versions saved yet. Use "New Version" to take a snapshot.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 p-4 bg-panel rounded">
+      <h3 className="text-lg font-semibold mb-2">Version History</h3>
+      <div className="flex space-x-4">
+        <ul className="w-64">
+          {sortedVersions.map(version => (
+            <li
+              key={version.id}
+              className={`flex items-center justify-between py-1 px-2 rounded cursor-pointer hover:bg-gray-200 ${version.id === selectedVersionId ? 'bg-gray-300' : ''}`}
+              onClick={() => setSelectedVersionId(version.id)}
+            >
+              <div>
+                <div className="text-sm">{new Date(version.timestamp).toLocaleString()}</div>
+                {version.label && <div className="text-xs text-gray-500">{version.label}</div>}
+              </div>
+              <button
+                className="ml-2 bg-indigo-500 hover:bg-indigo-700 text-white font-bold py-1 px-2 rounded text-sm flex items-center"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRestore(version);
+                }}
+              >
+                <RotateCcw size={14} className="mr-1" />
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex-1 font-mono text-sm whitespace-pre-wrap">
+          {selectedVersion ? (
+            diffBlocks(getRawBlocks(selectedVersion.content), currentBlocks).map((entry, index) => (
+              <div key={index} className={`px-2 ${diffClassNames[entry.kind]}`}>
+                {diffPrefixes[entry.kind]} {entry.text}
+              </div>
+            ))
+          ) : (
+            <p className="text-gray-500">Select a version to compare it with the current text.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Flame } from 'lucide-react';
+import { Project, WritingDay, WritingLog } from '../types';
+import { calculateDailyTarget, calculateStreak, createWritingLog, getRecentDays, getWordsOn } from '../utils/writingLog';
+
+interface WritingSessionsProps {
+  project: Project;
+  allDays: WritingDay[];
+  totalWords: number;
+  goal: number;
+  sessionWords: number;
+  onUpdateLog: (changes: Partial<WritingLog>) => void;
+}
+
+const CALENDAR_WEEKS = 12;
+const CHART_DAYS = 30;
+
+const getCalendarClassName = (words: number, target: number) => {
+  if (words <= 0) return 'bg-gray-200';
+  if (words >= target) return 'bg-green-600';
+  if (words >= target / 2) return 'bg-green-400';
+  return 'bg-green-200';
+};
+
+const ProgressBar = ({ value, target }: { value: number; target: number }) => (
+  <div className="w-full h-2 bg-gray-300 rounded">
+    <div className="h-2 bg-blue-500 rounded" style={{ width: `${target > 0 ? Math.min((Math.max(value, 0) / target) * 100, 100) : 0}%` }} />
+  </div>
+);
+
+const WritingSessions = ({ project, allDays, totalWords, goal, sessionWords, onUpdateLog }: WritingSessionsProps) => {
+  const [scope, setScope] = useState<'project' | 'all'>('project');
+  const log = createWritingLog(project.writingLog);
+  const days = scope === 'project' ? log.days : allDays;
+  const todayWords = getWordsOn(log.days, new Date());
+  const dailyTarget = calculateDailyTarget(goal, totalWords, log.deadline);
+  const calendarTarget = dailyTarget || log.sessionTarget;
+  const streak = calculateStreak(days);
+
+  // Start the calendar on a Sunday so each column is one week, ending today.
+  const calendarDays = getRecentDays(days, (CALENDAR_WEEKS - 1) * 7 + new Date().getDay() + 1);
+  const chartDays = getRecentDays(days, CHART_DAYS);
+  const chartMax = Math.max(...chartDays.map(day => day.words), calendarTarget, 1);
+
+  return (
+    <div className="mt-4 p-4 bg-panel rounded">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold">Writing Sessions: {project.name}</h3>
+        <span className="flex items-center text-orange-600 font-semibold">
+          <Flame size={20} className="mr-1" />
+          {streak} day streak
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block mb-1">Session target (words):</label>
+          <input
+            type="number"
+            min={0}
+            value={log.sessionTarget}
+            onChange={(e) => onUpdateLog({ sessionTarget: Math.max(parseInt(e.target.value) || 0, 0) })}
+            className="w-full p-2 border rounded mb-2"
+          />
+          <p className="text-sm text-gray-600 mb-1">
+            This session: {sessionWords.toLocaleString()} / {log.sessionTarget.toLocaleString()} words
+          </p>
+          <ProgressBar value={sessionWords} target={log.sessionTarget} />
+        </div>
+        <div>
+          <label className="block mb-1">Deadline:</label>
+          <input
+            type="date"
+            value={log.deadline || ''}
+            onChange={(e) => onUpdateLog({ deadline: e.target.value || undefined })}
+            className="w-full p-2 border rounded mb-2"
+          />
+          {dailyTarget !== null ? (
+            <>
+              <p className="text-sm text-gray-600 mb-1">
+                Today: {todayWords.toLocaleString()} / {dailyTarget.toLocaleString()} words to finish {goal.toLocaleString()} by the deadline
+              </p>
+              <ProgressBar value={todayWords} target={dailyTarget} />
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {goal > 0 ? 'Set a deadline to get a daily target.' : 'Set a word count goal and a deadline to get a daily target.'}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="flex space-x-2 mb-2 text-sm">
+        <button className={scope === 'project' ? 'font-bold' : 'text-blue-600 hover:underline'} onClick={() => setScope('project')}>
+          This project
+        </button>
+        <button className={scope === 'all' ? 'font-bold' : 'text-blue-600 hover:underline'} onClick={() => setScope('all')}>
+          All projects
+        </button>
+      </div>
+      <div className="grid grid-rows-7 grid-flow-col gap-1 w-max mb-4">
+        {calendarDays.map(day => (
+          <div key={day.date} className={`w-3 h-3 rounded-sm ${getCalendarClassName(day.words, calendarTarget)}`} title={`${day.date}: ${day.words} words`} />
+        ))}
+      </div>
+      <div className="flex items-end h-32 space-x-1">
+        {chartDays.map(day => (
+          <div
+            key={day.date}
+            className="flex-1 bg-blue-500 rounded-t"
+            style={{ height: `${(Math.max(day.words, 0) / chartMax) * 100}%` }}
+            title={`${day.date}: ${day.words} words`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{chartDays[0].date}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+};
+
+export default WritingSessions;
@@ -0,0 +1,25 @@
+import React, { ReactNode } from 'react';
+import { ContentState } from 'draft-js';
+import { CommentThread, findCommentEntities } from '../utils/comments';
+
+interface CommentHighlightProps {
+  contentState: ContentState;
+  entityKey: string;
+  children: ReactNode;
+}
+
+const CommentHighlight = ({ contentState, entityKey, children }: CommentHighlightProps) => {
+  const thread: CommentThread = contentState.getEntity(entityKey).getData();
+  return (
+    <span
+      className={thread.resolved ? 'border-b border-dashed border-yellow-500' : 'bg-yellow-200 dark:bg-yellow-800'}
+      title={thread.comments[0] ? `${thread.comments[0].author}: ${thread.comments[0].text}` : undefined}
+    >
+      {children}
+    </span>
+  );
+};
+
+// react-draft-wysiwyg builds its decorators once when an editor mounts, so
+// this list is shared by every editor rather than created per render.
+export const commentDecorators = [{ strategy: findCommentEntities, component: CommentHighlight }];
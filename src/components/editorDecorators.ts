@@ -0,0 +1,9 @@
+import { commentDecorators } from './commentDecorator';
+import { lintDecorators } from './lintDecorator';
+
+const lintedDecorators = [...commentDecorators, ...lintDecorators];
+
+// Editors read their decorators once, when they mount, so an editor has to be
+// remounted when this changes. Comments come first, so commented text keeps
+// its comment highlight rather than a style finding.
+export const getEditorDecorators = (highlightLint: boolean) => (highlightLint ? lintedDecorators : commentDecorators);
@@ -0,0 +1,78 @@
+import React, { createContext, ReactNode, useContext } from 'react';
+import { ContentBlock, ContentState } from 'draft-js';
+import { analyzeText, defaultLintSettings, isFindingIgnored, LintFinding, LintRule, LintSettings } from '../utils/textAnalysis';
+
+// Which findings are shown is decided when highlights render, through this
+// context, so ignoring a rule or word doesn't need the editor remounted.
+export const LintSettingsContext = createContext<LintSettings>(defaultLintSettings);
+
+// Keyed by block, so typing only re-analyses the block being edited. Overused
+// phrases depend on the whole text, so they're listed in the Style Check panel
+// rather than highlighted.
+const findingsCache = new WeakMap<ContentBlock, LintFinding[]>();
+
+const getBlockFindings = (block: ContentBlock): LintFinding[] => {
+  let findings = findingsCache.get(block);
+  if (!findings) {
+    findings = analyzeText([{ key: block.getKey(), text: block.getText() }]).findings.filter(finding => finding.rule !== 'overused-phrase');
+    findingsCache.set(block, findings);
+  }
+  return findings;
+};
+
+// Draft.js decorations can't overlap, so overlapping findings (an adverb in
+// a long sentence) are cut into pieces that each carry every finding they
+// fall under. Text with an entity, like a comment or link, is left alone.
+const findLintRanges = (block: ContentBlock, callback: (start: number, end: number) => void) => {
+  const findings = getBlockFindings(block);
+  if (findings.length === 0) return;
+  const length = block.getLength();
+  const marked = new Array<boolean>(length).fill(false);
+  const boundaries = new Set<number>();
+  findings.forEach(finding => {
+    for (let i = finding.start; i < finding.end && i < length; i++) marked[i] = true;
+    boundaries.add(finding.start);
+    boundaries.add(finding.end);
+  });
+
+  let start = -1;
+  for (let i = 0; i <= length; i++) {
+    const inside = i < length && marked[i] && block.getEntityAt(i) === null;
+    if (start !== -1 && (!inside || boundaries.has(i))) {
+      callback(start, i);
+      start = -1;
+    }
+    if (inside && start === -1) start = i;
+  }
+};
+
+const ruleClassNames: Partial<Record<LintRule, string>> = {
+  'repeated-word': 'bg-orange-200 dark:bg-orange-800',
+  adverb: 'underline decoration-wavy decoration-sky-500',
+  'long-sentence': 'bg-red-100 dark:bg-red-900',
+};
+
+interface LintHighlightProps {
+  contentState: ContentState;
+  blockKey: string;
+  start: number;
+  end: number;
+  children: ReactNode;
+}
+
+const LintHighlight = ({ contentState, blockKey, start, end, children }: LintHighlightProps) => {
+  const settings = useContext(LintSettingsContext);
+  const findings = getBlockFindings(contentState.getBlockForKey(blockKey)).filter(
+    finding => finding.start < end && finding.end > start && !isFindingIgnored(finding, settings)
+  );
+  if (findings.length === 0) return <span>{children}</span>;
+
+  const rules = Array.from(new Set(findings.map(finding => finding.rule)));
+  return (
+    <span className={rules.map(rule => ruleClassNames[rule]).join(' ')} title={findings.map(finding => finding.message).join('\n')}>
+      {children}
+    </span>
+  );
+};
+
+export const lintDecorators = [{ strategy: findLintRanges, component: LintHighlight }];
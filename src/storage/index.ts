@@ -0,0 +1,48 @@
+import { Project } from '../types';
+import { createIndexedDbAdapter, MIGRATED_FLAG } from './indexedDbAdapter';
+import { localStorageAdapter } from './localStorageAdapter';
+import { StorageAdapter } from './types';
+
+export type { StorageAdapter } from './types';
+
+// Uses IndexedDB when the browser offers it and falls back to localStorage
+// if the database cannot be opened (e.g. some private browsing modes), unless
+// projects were already migrated out of localStorage.
+export const createStorageAdapter = (): StorageAdapter => {
+  if (typeof indexedDB === 'undefined') return localStorageAdapter;
+
+  const indexedDbAdapter = createIndexedDbAdapter();
+  let active: StorageAdapter = indexedDbAdapter;
+
+  return {
+    get name() {
+      return active.name;
+    },
+    load: async (): Promise<Project[]> => {
+      try {
+        return await indexedDbAdapter.load();
+      } catch (error) {
+        // After migration the localStorage copy is an old snapshot; loading it
+        // would bring back stale projects and save new edits beside them.
+        if (localStorage.getItem(MIGRATED_FLAG)) throw error;
+        console.error('IndexedDB unavailable, falling back to localStorage:', error);
+        active = localStorageAdapter;
+        return localStorageAdapter.load();
+      }
+    },
+    save: (projects) => active.save(projects),
+    clear: () => active.clear(),
+  };
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22;
+};
+
+export const describeStorageError = (error: unknown): string => {
+  if (isQuotaError(error)) {
+    return 'Storage is full, so your latest changes were not saved. Export your projects or remove large embedded images to free up space.';
+  }
+  return `Your projects could not be saved: ${error instanceof Error ? error.message : String(error)}`;
+};
@@ -0,0 +1,141 @@
+import { Attachment, ChapterVersion, Project } from '../types';
+import { LOCAL_STORAGE_KEY, loadProjectsFromLocalStorage } from './localStorageAdapter';
+import { StorageAdapter } from './types';
+
+const DB_NAME = 'swriter';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const CHAPTER_STORE = 'chapters';
+const TREE_KEY = 'tree';
+export const MIGRATED_FLAG = 'projectsMigratedToIndexedDB';
+
+export interface ChapterRecord {
+  id: number;
+  content?: string;
+  versions?: ChapterVersion[];
+  attachment?: Attachment;
+}
+
+// The binder tree is small and changes on every rename or move, while chapter
+// text is large and changes one chapter at a time. Keeping them in separate
+// records means a save only rewrites the chapters that actually changed.
+export const splitProjectTree = (projects: Project[]): { tree: Project[]; chapters: ChapterRecord[] } => {
+  const chapters: ChapterRecord[] = [];
+  const strip = (nodes: Project[]): Project[] =>
+    nodes.map(({ content, versions, attachment, ...node }) => {
+      if (content !== undefined || versions !== undefined || attachment !== undefined) {
+        chapters.push({ id: node.id, content, versions, attachment });
+      }
+      return { ...node, children: strip(node.children) };
+    });
+  return { tree: strip(projects), chapters };
+};
+
+export const joinProjectTree = (tree: Project[], chapters: ChapterRecord[]): Project[] => {
+  const chaptersById = new Map(chapters.map(chapter => [chapter.id, chapter]));
+  const join = (nodes: Project[]): Project[] =>
+    nodes.map(node => {
+      const chapter = chaptersById.get(node.id);
+      return {
+        ...node,
+        ...(chapter?.content !== undefined ? { content: chapter.content } : {}),
+        ...(chapter?.versions !== undefined ? { versions: chapter.versions } : {}),
+        ...(chapter?.attachment !== undefined ? { attachment: chapter.attachment } : {}),
+        children: join(node.children),
+      };
+    });
+  return join(tree);
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      if (!db.objectStoreNames.contains(CHAPTER_STORE)) db.createObjectStore(CHAPTER_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createIndexedDbAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const savedChapters = new Map<number, ChapterRecord>();
+
+  const getDatabase = () => {
+    if (!dbPromise) dbPromise = openDatabase();
+    return dbPromise;
+  };
+
+  const save = async (projects: Project[]) => {
+    const db = await getDatabase();
+    const { tree, chapters } = splitProjectTree(projects);
+    const transaction = db.transaction([META_STORE, CHAPTER_STORE], 'readwrite');
+    const chapterStore = transaction.objectStore(CHAPTER_STORE);
+    transaction.objectStore(META_STORE).put(tree, TREE_KEY);
+
+    const currentIds = new Set<number>();
+    chapters.forEach(chapter => {
+      currentIds.add(chapter.id);
+      const saved = savedChapters.get(chapter.id);
+      if (!saved || saved.content !== chapter.content || saved.versions !== chapter.versions || saved.attachment !== chapter.attachment) {
+        chapterStore.put(chapter);
+      }
+    });
+    savedChapters.forEach((_, id) => {
+      if (!currentIds.has(id)) chapterStore.delete(id);
+    });
+
+    await completeTransaction(transaction);
+    savedChapters.clear();
+    chapters.forEach(chapter => savedChapters.set(chapter.id, chapter));
+  };
+
+  const migrateFromLocalStorage = async (): Promise<Project[]> => {
+    if (localStorage.getItem(MIGRATED_FLAG) || !localStorage.getItem(LOCAL_STORAGE_KEY)) return [];
+    const projects = loadProjectsFromLocalStorage();
+    await save(projects);
+    localStorage.setItem(MIGRATED_FLAG, new Date().toISOString());
+    return projects;
+  };
+
+  const load = async () => {
+    const db = await getDatabase();
+    const transaction = db.transaction([META_STORE, CHAPTER_STORE], 'readonly');
+    const tree: Project[] | undefined = await promisifyRequest(transaction.objectStore(META_STORE).get(TREE_KEY));
+    if (!tree) return migrateFromLocalStorage();
+
+    const chapters: ChapterRecord[] = await promisifyRequest(transaction.objectStore(CHAPTER_STORE).getAll());
+    savedChapters.clear();
+    chapters.forEach(chapter => savedChapters.set(chapter.id, chapter));
+    return joinProjectTree(tree, chapters);
+  };
+
+  const clear = async () => {
+    const db = await getDatabase();
+    const transaction = db.transaction([META_STORE, CHAPTER_STORE], 'readwrite');
+    transaction.objectStore(META_STORE).clear();
+    transaction.objectStore(CHAPTER_STORE).clear();
+    await completeTransaction(transaction);
+    savedChapters.clear();
+  };
+
+  return { name: 'IndexedDB', load, save, clear };
+};
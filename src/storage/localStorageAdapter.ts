@@ -0,0 +1,23 @@
+import { Project } from '../types';
+import { StorageAdapter } from './types';
+
+export const LOCAL_STORAGE_KEY = 'projects';
+
+export const loadProjectsFromLocalStorage = (): Project[] => {
+  const savedProjects = localStorage.getItem(LOCAL_STORAGE_KEY);
+  if (savedProjects) {
+    return JSON.parse(savedProjects);
+  }
+  return [];
+};
+
+export const localStorageAdapter: StorageAdapter = {
+  name: 'localStorage',
+  load: async () => loadProjectsFromLocalStorage(),
+  save: async (projects) => {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(projects));
+  },
+  clear: async () => {
+    localStorage.removeItem(LOCAL_STORAGE_KEY);
+  },
+};
@@ -0,0 +1,62 @@
+import { Project } from '../types';
+import { createDefaultMetadata } from '../utils/metadata';
+import { createStorageAdapter, describeStorageError } from './index';
+import { joinProjectTree, MIGRATED_FLAG, splitProjectTree } from './indexedDbAdapter';
+import { LOCAL_STORAGE_KEY, localStorageAdapter } from './localStorageAdapter';
+
+const projects: Project[] = [
+  {
+    id: 1,
+    name: 'Novel',
+    type: 'project',
+    metadata: createDefaultMetadata(),
+    children: [
+      {
+        id: 2,
+        name: 'One',
+        type: 'chapter',
+        content: '{"blocks":[],"entityMap":{}}',
+        versions: [{ id: 1, content: '{}', timestamp: '2024-01-01T00:00:00.000Z' }],
+        children: [],
+        metadata: createDefaultMetadata(),
+      },
+    ],
+  },
+];
+
+test('splitProjectTree keeps chapter text out of the tree record', () => {
+  const { tree, chapters } = splitProjectTree(projects);
+  expect(tree[0].children[0].content).toBeUndefined();
+  expect(chapters).toEqual([{ id: 2, content: projects[0].children[0].content, versions: projects[0].children[0].versions }]);
+  expect(joinProjectTree(tree, chapters)).toEqual(projects);
+});
+
+test('localStorageAdapter round-trips projects', async () => {
+  await localStorageAdapter.save(projects);
+  expect(await localStorageAdapter.load()).toEqual(projects);
+  await localStorageAdapter.clear();
+  expect(await localStorageAdapter.load()).toEqual([]);
+});
+
+test('describeStorageError explains quota errors', () => {
+  expect(describeStorageError(new DOMException('full', 'QuotaExceededError'))).toMatch(/Storage is full/);
+  expect(describeStorageError(new Error('boom'))).toMatch(/boom/);
+});
+
+test('createStorageAdapter only falls back to localStorage before projects were migrated', async () => {
+  const failingRequest = () => {
+    const request: { error: Error; onerror?: () => void } = { error: new Error('blocked') };
+    setTimeout(() => request.onerror?.());
+    return request;
+  };
+  Object.defineProperty(window, 'indexedDB', { value: { open: failingRequest }, configurable: true });
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(projects));
+
+  expect(await createStorageAdapter().load()).toEqual(projects);
+  localStorage.setItem(MIGRATED_FLAG, new Date().toISOString());
+  await expect(createStorageAdapter().load()).rejects.toThrow('blocked');
+
+  localStorage.clear();
+  delete (window as { indexedDB?: unknown }).indexedDB;
+});
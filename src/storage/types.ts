@@ -0,0 +1,8 @@
+import { Project } from '../types';
+
+export interface StorageAdapter {
+  name: string;
+  load: () => Promise<Project[]>;
+  save: (projects: Project[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Project } from '../types';
+import { createStorageAdapter, describeStorageError, StorageAdapter } from './index';
+
+const SAVE_DELAY = 300;
+
+export interface ProjectStorage {
+  isLoaded: boolean;
+  backend: string;
+  error: string | null;
+  saveNow: (projectsToSave?: Project[]) => Promise<boolean>;
+  reload: () => Promise<void>;
+  clear: () => Promise<void>;
+  dismissError: () => void;
+}
+
+const useProjectsWithStorage = (customAdapter?: StorageAdapter) => {
+  const [adapter] = useState(() => customAdapter ?? createStorageAdapter());
+  const [projects, setProjectsState] = useState<Project[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const hasLoaded = useRef(false);
+  const [error, setError] = useState<string | null>(null);
+  const lastPersisted = useRef<Project[] | null>(null);
+  const latestProjects = useRef<Project[]>(projects);
+  latestProjects.current = projects;
+
+  // Nothing is written until a load has succeeded, so a failed load can't
+  // replace the stored projects with an empty binder.
+  const persist = useCallback(async (projectsToSave: Project[]) => {
+    if (!hasLoaded.current) return false;
+    try {
+      await adapter.save(projectsToSave);
+      lastPersisted.current = projectsToSave;
+      setError(null);
+      return true;
+    } catch (saveError) {
+      console.error('Error saving projects:', saveError);
+      setError(describeStorageError(saveError));
+      return false;
+    }
+  }, [adapter]);
+
+  const reload = useCallback(async () => {
+    try {
+      const loadedProjects = await adapter.load();
+      lastPersisted.current = loadedProjects;
+      hasLoaded.current = true;
+      setProjectsState(loadedProjects);
+      setIsLoaded(true);
+      setError(null);
+    } catch (loadError) {
+      console.error('Error loading projects:', loadError);
+      setError(`Your projects could not be loaded: ${loadError instanceof Error ? loadError.message : String(loadError)}`);
+    }
+  }, [adapter]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    if (!isLoaded || projects === lastPersisted.current) return;
+    const timeout = setTimeout(() => {
+      if (projects !== lastPersisted.current) persist(projects);
+    }, SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [projects, isLoaded, persist]);
+
+  // Changes made before the first load finishes would be overwritten by it,
+  // so they are refused rather than silently lost later.
+  const setProjects = useCallback((newProjects: Project[] | ((prev: Project[]) => Project[])) => {
+    if (!hasLoaded.current) return;
+    setProjectsState(newProjects);
+  }, []);
+
+  const storage: ProjectStorage = {
+    isLoaded,
+    backend: adapter.name,
+    error,
+    saveNow: (projectsToSave = latestProjects.current) => persist(projectsToSave),
+    reload,
+    clear: async () => {
+      try {
+        await adapter.clear();
+      } catch (clearError) {
+        console.error('Error clearing projects:', clearError);
+        setError(`Your projects could not be cleared: ${clearError instanceof Error ? clearError.message : String(clearError)}`);
+        return;
+      }
+      lastPersisted.current = [];
+      setProjectsState([]);
+    },
+    dismissError: () => setError(null),
+  };
+
+  return [projects, setProjects, storage] as const;
+};
+
+export default useProjectsWithStorage;
@@ -0,0 +1,55 @@
+import { Project } from '../types';
+import { createDefaultMetadata } from '../utils/metadata';
+import { flattenTree } from '../utils/tree';
+import { builtInTemplates, createTemplateFromNode, getTemplateKind, instantiateTemplate, loadCustomTemplates, TEMPLATES_STORAGE_KEY } from './templates';
+
+const chapter: Project = {
+  id: 7,
+  name: 'Chapter',
+  type: 'chapter',
+  children: [],
+  content: '{"blocks":[],"entityMap":{}}',
+  versions: [{ id: 1, content: '', timestamp: '' }],
+  metadata: createDefaultMetadata({ tags: ['draft'] }),
+};
+
+test('built-in templates cover projects and documents', () => {
+  expect(builtInTemplates.map(getTemplateKind)).toEqual(['project', 'project', 'document']);
+});
+
+test('instantiateTemplate gives every node a fresh id', () => {
+  const project = instantiateTemplate(builtInTemplates[0], 'My Novel');
+  const ids = flattenTree([project]).map(entry => entry.node.id);
+  expect(project.name).toBe('My Novel');
+  expect(ids).toHaveLength(12);
+  expect(new Set(ids).size).toBe(12);
+  expect(ids).not.toContain(0);
+});
+
+test('createTemplateFromNode keeps content and metadata but not history', () => {
+  const template = createTemplateFromNode(chapter, 'Scene');
+  expect(template.node.content).toBe(chapter.content);
+  expect(template.node.metadata.tags).toEqual(['draft']);
+  expect(template.node.versions).toBeUndefined();
+});
+
+test('createTemplateFromNode leaves research attachments out', () => {
+  const attachment: Project = {
+    id: 9,
+    name: 'map.png',
+    type: 'attachment',
+    children: [],
+    attachment: { fileName: 'map.png', mimeType: 'image/png', dataUrl: 'data:image/png;base64,AAAA' },
+    metadata: createDefaultMetadata(),
+  };
+  const research: Project = { id: 8, name: 'Research', type: 'research', children: [attachment], metadata: createDefaultMetadata() };
+  const project: Project = { id: 1, name: 'Novel', type: 'project', children: [chapter, research], metadata: createDefaultMetadata() };
+  const template = createTemplateFromNode(project, 'Novel');
+  expect(flattenTree([template.node]).map(entry => entry.node.type)).toEqual(['project', 'chapter', 'research']);
+});
+
+test('loadCustomTemplates skips malformed entries', () => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify([createTemplateFromNode(chapter, 'Scene'), { id: 'bad' }]));
+  expect(loadCustomTemplates().map(template => template.name)).toEqual(['Scene']);
+  localStorage.clear();
+});
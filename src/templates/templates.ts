@@ -0,0 +1,145 @@
+import { genKey } from 'draft-js';
+import { Project } from '../types';
+import { createDefaultMetadata } from '../utils/metadata';
+import { generateId } from '../utils/tree';
+import { isObject } from '../utils/validation';
+
+// A template is a stored node with its content, metadata and children. Project
+// templates are offered by "New Project"; chapter and note templates by "New
+// Chapter" and "New Note".
+export interface Template {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  node: Project;
+}
+
+export type TemplateKind = 'project' | 'document';
+
+export const TEMPLATES_STORAGE_KEY = 'templates';
+
+export const getTemplateKind = (template: Template): TemplateKind => (template.node.type === 'project' ? 'project' : 'document');
+
+const createContent = (blocks: [string, string][]): string => {
+  return JSON.stringify({
+    blocks: blocks.map(([type, text]) => ({ key: genKey(), type, text, depth: 0, inlineStyleRanges: [], entityRanges: [], data: {} })),
+    entityMap: {},
+  });
+};
+
+const templateNode = (type: Project['type'], name: string, children: Project[] = [], synopsis?: string): Project => ({
+  id: 0,
+  name,
+  type,
+  children,
+  ...(type === 'chapter' || type === 'note' ? { content: '' } : {}),
+  metadata: createDefaultMetadata(synopsis ? { synopsis } : {}),
+});
+
+const chapter = (name: string, synopsis: string) => templateNode('chapter', name, [], synopsis);
+
+const characterSheetFields = ['Name', 'Role in the story', 'Appearance', 'Personality', 'Background', 'Goal', 'Motivation', 'Conflict', 'Arc'];
+
+export const builtInTemplates: Template[] = [
+  {
+    id: 'builtin-three-act',
+    name: 'Three-act structure',
+    builtIn: true,
+    node: templateNode('project', 'Three-Act Novel', [
+      templateNode('folder', 'Act I: Setup', [
+        chapter('Opening Image', "The protagonist's ordinary world before anything changes."),
+        chapter('Inciting Incident', 'The event that disrupts the ordinary world.'),
+        chapter('Plot Point One', 'The protagonist commits to the story and there is no going back.'),
+      ]),
+      templateNode('folder', 'Act II: Confrontation', [
+        chapter('Rising Action', 'Obstacles escalate as the protagonist pursues the goal.'),
+        chapter('Midpoint', 'A reversal or revelation that raises the stakes.'),
+        chapter('Plot Point Two', 'Everything falls apart; the lowest point.'),
+      ]),
+      templateNode('folder', 'Act III: Resolution', [
+        chapter('Climax', 'The final confrontation with the central conflict.'),
+        chapter('Resolution', 'The new normal after the conflict is resolved.'),
+      ]),
+    ]),
+  },
+  {
+    id: 'builtin-heros-journey',
+    name: "Hero's journey",
+    builtIn: true,
+    node: templateNode('project', "Hero's Journey", [
+      chapter('The Ordinary World', 'The hero at home, before the adventure.'),
+      chapter('The Call to Adventure', 'A challenge or quest presents itself.'),
+      chapter('Refusal of the Call', 'Fear or doubt holds the hero back.'),
+      chapter('Meeting the Mentor', 'Someone offers advice, training or a gift.'),
+      chapter('Crossing the Threshold', 'The hero leaves the known world behind.'),
+      chapter('Tests, Allies and Enemies', 'The hero learns the rules of the new world.'),
+      chapter('Approach to the Inmost Cave', 'Preparing for the central ordeal.'),
+      chapter('The Ordeal', 'The hero faces their greatest fear.'),
+      chapter('The Reward', 'The hero claims what they came for.'),
+      chapter('The Road Back', 'The journey home, often pursued.'),
+      chapter('The Resurrection', 'A final test that transforms the hero.'),
+      chapter('Return with the Elixir', 'The hero comes home changed, bringing something of value.'),
+    ]),
+  },
+  {
+    id: 'builtin-character-sheet',
+    name: 'Character sheet',
+    builtIn: true,
+    node: {
+      ...templateNode('note', 'Character Sheet'),
+      content: createContent(characterSheetFields.flatMap(field => [['header-three', field], ['unstyled', '']] as [string, string][])),
+    },
+  },
+];
+
+const stripNode = ({ versions, writingLog, trashedFrom, ...node }: Project): Project => ({
+  ...node,
+  children: node.children.filter(child => child.type !== 'attachment').map(stripNode),
+});
+
+// Version history, writing logs and trash details belong to the original and
+// aren't copied into the template. Nor are research attachments, whose file
+// data would soon fill local storage.
+export const createTemplateFromNode = (node: Project, name: string): Template => ({
+  id: `custom-${generateId()}`,
+  name,
+  node: stripNode(node),
+});
+
+// Copies a template's node tree with fresh ids and dates.
+export const instantiateTemplate = (template: Template, name?: string): Project => {
+  const now = new Date().toISOString();
+  const copy = (node: Project): Project => ({
+    ...node,
+    id: generateId(),
+    metadata: { ...node.metadata, creationDate: now, lastModified: now },
+    children: node.children.map(copy),
+  });
+  const root = copy(template.node);
+  return name ? { ...root, name } : root;
+};
+
+const isTemplateNode = (value: unknown): value is Project =>
+  isObject(value) &&
+  typeof value.name === 'string' &&
+  typeof value.type === 'string' &&
+  isObject(value.metadata) &&
+  Array.isArray(value.children) &&
+  value.children.every(isTemplateNode);
+
+const isTemplate = (value: unknown): value is Template =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && isTemplateNode(value.node);
+
+export const loadCustomTemplates = (): Template[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isTemplate) : [];
+  } catch (error) {
+    console.error('Error reading templates:', error);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: Template[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
@@ -0,0 +1,34 @@
+import { useState } from 'react';
+import { builtInTemplates, loadCustomTemplates, saveCustomTemplates, Template } from './templates';
+
+const useTemplates = () => {
+  const [customTemplates, setCustomTemplates] = useState<Template[]>(loadCustomTemplates);
+  const templates = [...builtInTemplates, ...customTemplates];
+
+  const updateCustomTemplates = (next: Template[]): boolean => {
+    try {
+      saveCustomTemplates(next);
+    } catch (error) {
+      console.error('Error saving templates:', error);
+      return false;
+    }
+    setCustomTemplates(next);
+    return true;
+  };
+
+  // A template saved under an existing custom template's name replaces it.
+  const saveTemplate = (template: Template): boolean => {
+    const existing = customTemplates.find(custom => custom.name === template.name);
+    return updateCustomTemplates(
+      existing
+        ? customTemplates.map(custom => (custom.id === existing.id ? { ...template, id: existing.id } : custom))
+        : [...customTemplates, template]
+    );
+  };
+
+  const deleteTemplate = (id: string) => updateCustomTemplates(customTemplates.filter(custom => custom.id !== id));
+
+  return { templates, customTemplates, saveTemplate, deleteTemplate };
+};
+
+export default useTemplates;
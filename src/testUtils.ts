@@ -0,0 +1,14 @@
+import { Project, ProjectMetadata } from './types';
+import { createDefaultMetadata } from './utils/metadata';
+
+type TestNodeOverrides = Partial<Omit<Project, 'id' | 'type' | 'children' | 'metadata'>> & { metadata?: Partial<ProjectMetadata> };
+
+// Builds binder nodes for tests, named "Node <id>" unless a name is given.
+export const node = (id: number, type: Project['type'], children: Project[] = [], { metadata, ...overrides }: TestNodeOverrides = {}): Project => ({
+  id,
+  name: `Node ${id}`,
+  type,
+  children,
+  ...overrides,
+  metadata: createDefaultMetadata(metadata),
+});
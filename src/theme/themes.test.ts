@@ -0,0 +1,34 @@
+import { builtInThemes, loadThemeSettings, resolveTheme, THEME_STORAGE_KEY } from './themes';
+
+describe('resolveTheme', () => {
+  it('follows the system preference when set to system', () => {
+    expect(resolveTheme({ selected: 'system', customThemes: [] }, true).id).toBe('dark');
+    expect(resolveTheme({ selected: 'system', customThemes: [] }, false).id).toBe('light');
+  });
+
+  it('finds custom themes and falls back for unknown ids', () => {
+    const custom = { ...builtInThemes[2], id: 'custom-1', name: 'Mine' };
+    expect(resolveTheme({ selected: 'custom-1', customThemes: [custom] }, false)).toBe(custom);
+    expect(resolveTheme({ selected: 'missing', customThemes: [] }, false).id).toBe('light');
+  });
+});
+
+describe('loadThemeSettings', () => {
+  afterEach(() => localStorage.clear());
+
+  it('drops malformed custom themes', () => {
+    localStorage.setItem(
+      THEME_STORAGE_KEY,
+      JSON.stringify({ selected: 'sepia', customThemes: [builtInThemes[0], { id: 'bad', name: 'Bad', dark: false, colors: { background: 'red' } }] })
+    );
+    const settings = loadThemeSettings();
+    expect(settings.selected).toBe('sepia');
+    expect(settings.customThemes.map(theme => theme.id)).toEqual(['light']);
+  });
+
+  it('returns the defaults for unreadable settings', () => {
+    localStorage.setItem(THEME_STORAGE_KEY, '{not json');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(loadThemeSettings()).toEqual({ selected: 'system', customThemes: [] });
+  });
+});
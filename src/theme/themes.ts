@@ -0,0 +1,76 @@
+import { isObject } from '../utils/validation';
+
+export interface ThemeColors {
+  background: string;
+  panel: string;
+  text: string;
+  accent: string;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  dark: boolean;
+  colors: ThemeColors;
+}
+
+// 'system' follows the operating system's light or dark preference.
+export type ThemeSelection = 'system' | string;
+
+export interface ThemeSettings {
+  selected: ThemeSelection;
+  customThemes: Theme[];
+}
+
+export const THEME_STORAGE_KEY = 'themeSettings';
+
+export const builtInThemes: Theme[] = [
+  { id: 'light', name: 'Light', dark: false, colors: { background: '#ffffff', panel: '#f3f4f6', text: '#1f2937', accent: '#3b82f6' } },
+  { id: 'dark', name: 'Dark', dark: true, colors: { background: '#111827', panel: '#1f2937', text: '#e5e7eb', accent: '#60a5fa' } },
+  { id: 'sepia', name: 'Sepia', dark: false, colors: { background: '#f4ecd8', panel: '#e9dcc0', text: '#5b4636', accent: '#a0522d' } },
+];
+
+export const defaultThemeSettings: ThemeSettings = { selected: 'system', customThemes: [] };
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const isThemeColors = (value: unknown) => isObject(value) && ['background', 'panel', 'text', 'accent'].every(key => isHexColor(value[key]));
+
+const isTheme = (value: unknown): value is Theme =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.dark === 'boolean' && isThemeColors(value.colors);
+
+export const loadThemeSettings = (): ThemeSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(THEME_STORAGE_KEY) || 'null');
+    if (!isObject(saved)) return defaultThemeSettings;
+    return {
+      selected: typeof saved.selected === 'string' ? saved.selected : defaultThemeSettings.selected,
+      customThemes: Array.isArray(saved.customThemes) ? saved.customThemes.filter(isTheme) : [],
+    };
+  } catch (error) {
+    console.error('Error reading theme settings:', error);
+    return defaultThemeSettings;
+  }
+};
+
+export const saveThemeSettings = (settings: ThemeSettings) => {
+  localStorage.setItem(THEME_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const resolveTheme = (settings: ThemeSettings, prefersDark: boolean): Theme => {
+  const themes = [...builtInThemes, ...settings.customThemes];
+  const fallback = builtInThemes[prefersDark ? 1 : 0];
+  if (settings.selected === 'system') return fallback;
+  return themes.find(theme => theme.id === settings.selected) || fallback;
+};
+
+// The colours are CSS variables that Tailwind's paper/panel/ink/accent colours
+// read, and the `dark` class switches on the `dark:` variants.
+export const applyTheme = (theme: Theme, root: HTMLElement = document.documentElement) => {
+  root.classList.toggle('dark', theme.dark);
+  root.style.setProperty('--background-color', theme.colors.background);
+  root.style.setProperty('--panel-color', theme.colors.panel);
+  root.style.setProperty('--text-color', theme.colors.text);
+  root.style.setProperty('--primary-color', theme.colors.accent);
+  root.style.colorScheme = theme.dark ? 'dark' : 'light';
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { applyTheme, loadThemeSettings, resolveTheme, saveThemeSettings, Theme, ThemeSelection, ThemeSettings } from './themes';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const getPrefersDark = () => typeof window.matchMedia === 'function' && window.matchMedia(DARK_QUERY).matches;
+
+const useTheme = () => {
+  const [settings, setSettings] = useState<ThemeSettings>(loadThemeSettings);
+  const [prefersDark, setPrefersDark] = useState(getPrefersDark);
+  const theme = resolveTheme(settings, prefersDark);
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(DARK_QUERY);
+    const handleChange = (e: MediaQueryListEvent) => setPrefersDark(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  useEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  const updateSettings = useCallback((update: (current: ThemeSettings) => ThemeSettings) => {
+    setSettings(current => {
+      const next = update(current);
+      saveThemeSettings(next);
+      return next;
+    });
+  }, []);
+
+  const selectTheme = useCallback((selected: ThemeSelection) => updateSettings(current => ({ ...current, selected })), [updateSettings]);
+
+  // Saving a custom theme also selects it, so edits are visible straight away.
+  const saveCustomTheme = useCallback((custom: Theme) => {
+    updateSettings(current => ({
+      selected: custom.id,
+      customThemes: current.customThemes.some(existing => existing.id === custom.id)
+        ? current.customThemes.map(existing => (existing.id === custom.id ? custom : existing))
+        : [...current.customThemes, custom],
+    }));
+  }, [updateSettings]);
+
+  const deleteCustomTheme = useCallback((id: string) => {
+    updateSettings(current => ({
+      selected: current.selected === id ? 'system' : current.selected,
+      customThemes: current.customThemes.filter(existing => existing.id !== id),
+    }));
+  }, [updateSettings]);
+
+  return { theme, settings, selectTheme, saveCustomTheme, deleteCustomTheme };
+};
+
+export default useTheme;
@@ -0,0 +1,95 @@
+export type CustomFieldValue = string | number | string[];
+
+export interface ProjectMetadata {
+  // One of the statuses defined in the project's metadata schema.
+  status: string;
+  wordCountGoal: number;
+  actualWordCount: number;
+  lastModified: string;
+  creationDate: string;
+  completionPercentage: number;
+  tags: string[];
+  author: string;
+  estimatedReadingTime: number;
+  version: string;
+  synopsis?: string;
+  // Values of the project's custom fields, keyed by field id.
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+export type LabelColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+export interface StatusDefinition {
+  name: string;
+  color: LabelColor;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'label';
+
+export interface FieldOption {
+  value: string;
+  color: LabelColor;
+}
+
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  // Choices for select, multiselect and label fields.
+  options: FieldOption[];
+}
+
+// The statuses and custom fields available to every item in a project, in
+// the order they are offered.
+export interface MetadataSchema {
+  statuses: StatusDefinition[];
+  fields: CustomFieldDefinition[];
+}
+
+export interface ChapterVersion {
+  id: number;
+  content: string;
+  timestamp: string;
+  label?: string;
+}
+
+export interface WritingDay {
+  date: string;
+  words: number;
+}
+
+export interface WritingLog {
+  sessionTarget: number;
+  deadline?: string;
+  days: WritingDay[];
+}
+
+export interface Attachment {
+  fileName: string;
+  mimeType: string;
+  dataUrl: string;
+}
+
+// Where a deleted item came from, so restoring it puts it back in place.
+export interface TrashOrigin {
+  parentId: number | null;
+  // The folders above parentId, nearest first, so the item can go back into
+  // the closest one left if its own folder is deleted for good.
+  ancestorIds?: number[];
+  index: number;
+  deletedAt: string;
+}
+
+export interface Project {
+  id: number;
+  name: string;
+  type: 'project' | 'folder' | 'chapter' | 'research' | 'note' | 'attachment' | 'trash';
+  children: Project[];
+  content?: string;
+  versions?: ChapterVersion[];
+  attachment?: Attachment;
+  writingLog?: WritingLog;
+  metadataSchema?: MetadataSchema;
+  trashedFrom?: TrashOrigin;
+  metadata: ProjectMetadata;
+}
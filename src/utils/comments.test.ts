@@ -0,0 +1,67 @@
+import { ContentState, convertFromRaw, convertToRaw, EditorState, SelectionState } from 'draft-js';
+import {
+  addCommentThread,
+  canAddComment,
+  createComment,
+  deleteCommentThread,
+  findCommentAnchors,
+  replyToComment,
+  setCommentResolved,
+  stripComments,
+} from './comments';
+
+const selectText = (editorState: EditorState, start: number, end: number) => {
+  const blockKey = editorState.getCurrentContent().getFirstBlock().getKey();
+  const selection = SelectionState.createEmpty(blockKey).merge({ anchorOffset: start, focusOffset: end }) as SelectionState;
+  return EditorState.acceptSelection(editorState, selection);
+};
+
+const commented = () => {
+  const editorState = selectText(EditorState.createWithContent(ContentState.createFromText('The quick brown fox')), 4, 9);
+  return addCommentThread(editorState, createComment('Ana', 'Too fast?'));
+};
+
+test('addCommentThread anchors a thread to the selected text', () => {
+  const anchors = findCommentAnchors(commented().getCurrentContent());
+  expect(anchors).toHaveLength(1);
+  expect(anchors[0].text).toBe('quick');
+  expect(anchors[0].thread.comments.map(comment => comment.text)).toEqual(['Too fast?']);
+  expect(anchors[0].thread.resolved).toBe(false);
+});
+
+test('comments cannot overlap an existing comment', () => {
+  expect(canAddComment(selectText(commented(), 6, 12))).toBe(false);
+  expect(canAddComment(selectText(commented(), 10, 15))).toBe(true);
+  expect(canAddComment(selectText(commented(), 10, 10))).toBe(false);
+});
+
+test('replies, resolving and deleting update the thread', () => {
+  let editorState = commented();
+  const [anchor] = findCommentAnchors(editorState.getCurrentContent());
+  editorState = replyToComment(editorState, anchor, createComment('', 'Agreed'));
+  editorState = setCommentResolved(editorState, findCommentAnchors(editorState.getCurrentContent())[0], true);
+
+  const [updated] = findCommentAnchors(editorState.getCurrentContent());
+  expect(updated.thread.comments.map(comment => `${comment.author}: ${comment.text}`)).toEqual(['Ana: Too fast?', 'Anonymous: Agreed']);
+  expect(updated.thread.resolved).toBe(true);
+  expect(updated.text).toBe('quick');
+
+  expect(findCommentAnchors(deleteCommentThread(editorState, updated).getCurrentContent())).toEqual([]);
+});
+
+test('comments survive convertToRaw and convertFromRaw', () => {
+  const raw = JSON.parse(JSON.stringify(convertToRaw(commented().getCurrentContent())));
+  const [anchor] = findCommentAnchors(convertFromRaw(raw));
+  expect(anchor.text).toBe('quick');
+  expect(anchor.thread.comments[0].author).toBe('Ana');
+});
+
+test('stripComments keeps other entities', () => {
+  const raw = convertToRaw(commented().getCurrentContent());
+  raw.entityMap[7] = { type: 'LINK', mutability: 'MUTABLE', data: { url: 'https://example.com' } };
+  raw.blocks[0].entityRanges.push({ offset: 16, length: 3, key: 7 });
+
+  const stripped = stripComments(raw);
+  expect(stripped.blocks[0].entityRanges).toEqual([{ offset: 16, length: 3, key: 7 }]);
+  expect(Object.values(stripped.entityMap).map(entity => entity.type)).toEqual(['LINK']);
+});
@@ -0,0 +1,159 @@
+import { ContentBlock, ContentState, EditorState, Modifier, RawDraftContentState, RawDraftEntity, SelectionState } from 'draft-js';
+import { generateId } from './tree';
+
+// Comments are Draft.js entities, so they travel with the text through
+// convertToRaw/convertFromRaw and follow it when it is edited or moved.
+export const COMMENT_ENTITY = 'COMMENT';
+
+export interface Comment {
+  id: number;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface CommentThread {
+  comments: Comment[];
+  resolved: boolean;
+}
+
+export interface CommentRange {
+  blockKey: string;
+  start: number;
+  end: number;
+}
+
+export interface CommentAnchor {
+  entityKey: string;
+  thread: CommentThread;
+  ranges: CommentRange[];
+  text: string;
+}
+
+export const createComment = (author: string, text: string): Comment => ({
+  id: generateId(),
+  author: author.trim() || 'Anonymous',
+  text: text.trim(),
+  createdAt: new Date().toISOString(),
+});
+
+const isCommentEntity = (contentState: ContentState, entityKey: string | null) => {
+  return entityKey !== null && contentState.getEntity(entityKey).getType() === COMMENT_ENTITY;
+};
+
+export const findCommentEntities = (block: ContentBlock, callback: (start: number, end: number) => void, contentState: ContentState) => {
+  block.findEntityRanges(character => isCommentEntity(contentState, character.getEntity()), callback);
+};
+
+// Every comment thread in document order. A thread whose text spans several
+// paragraphs has one range per paragraph.
+export const findCommentAnchors = (contentState: ContentState): CommentAnchor[] => {
+  const anchors = new Map<string, CommentAnchor>();
+  contentState.getBlocksAsArray().forEach(block => {
+    findCommentEntities(
+      block,
+      (start, end) => {
+        const entityKey = block.getEntityAt(start);
+        const range = { blockKey: block.getKey(), start, end };
+        const text = block.getText().slice(start, end);
+        const existing = anchors.get(entityKey);
+        if (existing) {
+          existing.ranges.push(range);
+          existing.text += ` ${text}`;
+        } else {
+          anchors.set(entityKey, { entityKey, thread: contentState.getEntity(entityKey).getData(), ranges: [range], text });
+        }
+      },
+      contentState
+    );
+  });
+  return Array.from(anchors.values());
+};
+
+const getRangeSelection = (range: CommentRange) => {
+  return SelectionState.createEmpty(range.blockKey).merge({ anchorOffset: range.start, focusOffset: range.end }) as SelectionState;
+};
+
+export const selectCommentAnchor = (editorState: EditorState, anchor: CommentAnchor): EditorState => {
+  const first = anchor.ranges[0];
+  const last = anchor.ranges[anchor.ranges.length - 1];
+  const selection = SelectionState.createEmpty(first.blockKey).merge({
+    anchorOffset: first.start,
+    focusKey: last.blockKey,
+    focusOffset: last.end,
+  }) as SelectionState;
+  return EditorState.forceSelection(editorState, selection);
+};
+
+// Whether the selection covers text that can take a new comment. Comments
+// can't overlap each other or links, since a character holds one entity.
+export const canAddComment = (editorState: EditorState): boolean => {
+  const selection = editorState.getSelection();
+  if (selection.isCollapsed()) return false;
+  const contentState = editorState.getCurrentContent();
+  const blocks = contentState.getBlocksAsArray();
+  const startIndex = blocks.findIndex(block => block.getKey() === selection.getStartKey());
+  const endIndex = blocks.findIndex(block => block.getKey() === selection.getEndKey());
+  return blocks.slice(startIndex, endIndex + 1).every(block => {
+    const start = block.getKey() === selection.getStartKey() ? selection.getStartOffset() : 0;
+    const end = block.getKey() === selection.getEndKey() ? selection.getEndOffset() : block.getLength();
+    for (let offset = start; offset < end; offset++) {
+      if (block.getEntityAt(offset) !== null) return false;
+    }
+    return true;
+  });
+};
+
+export const addCommentThread = (editorState: EditorState, comment: Comment): EditorState => {
+  if (!canAddComment(editorState)) return editorState;
+  const thread: CommentThread = { comments: [comment], resolved: false };
+  const contentState = editorState.getCurrentContent().createEntity(COMMENT_ENTITY, 'MUTABLE', thread);
+  const entityKey = contentState.getLastCreatedEntityKey();
+  const withComment = Modifier.applyEntity(contentState, editorState.getSelection(), entityKey);
+  return EditorState.acceptSelection(EditorState.push(editorState, withComment, 'apply-entity'), editorState.getSelection());
+};
+
+// Entity data can only be changed in place, which neither marks the document
+// dirty nor lands on the undo stack, so a changed thread gets a fresh entity.
+const reapplyThread = (editorState: EditorState, anchor: CommentAnchor, thread: CommentThread | null): EditorState => {
+  let contentState = editorState.getCurrentContent();
+  let entityKey: string | null = null;
+  if (thread) {
+    contentState = contentState.createEntity(COMMENT_ENTITY, 'MUTABLE', thread);
+    entityKey = contentState.getLastCreatedEntityKey();
+  }
+  anchor.ranges.forEach(range => {
+    contentState = Modifier.applyEntity(contentState, getRangeSelection(range), entityKey);
+  });
+  return EditorState.acceptSelection(EditorState.push(editorState, contentState, 'apply-entity'), editorState.getSelection());
+};
+
+export const replyToComment = (editorState: EditorState, anchor: CommentAnchor, comment: Comment): EditorState => {
+  return reapplyThread(editorState, anchor, { ...anchor.thread, comments: [...anchor.thread.comments, comment] });
+};
+
+export const setCommentResolved = (editorState: EditorState, anchor: CommentAnchor, resolved: boolean): EditorState => {
+  return reapplyThread(editorState, anchor, { ...anchor.thread, resolved });
+};
+
+export const deleteCommentThread = (editorState: EditorState, anchor: CommentAnchor): EditorState => {
+  return reapplyThread(editorState, anchor, null);
+};
+
+export const formatCommentThread = (thread: CommentThread): string => {
+  const text = thread.comments.map(comment => `${comment.author}: ${comment.text}`).join(' / ');
+  return thread.resolved ? `${text} (resolved)` : text;
+};
+
+export const stripComments = (raw: RawDraftContentState): RawDraftContentState => {
+  const commentKeys = Object.keys(raw.entityMap).filter(key => raw.entityMap[key].type === COMMENT_ENTITY);
+  return {
+    blocks: raw.blocks.map(block => ({
+      ...block,
+      entityRanges: block.entityRanges.filter(range => !commentKeys.includes(String(range.key))),
+    })),
+    entityMap: Object.keys(raw.entityMap)
+      .filter(key => !commentKeys.includes(key))
+      .reduce<Record<string, RawDraftEntity>>((entityMap, key) => ({ ...entityMap, [key]: raw.entityMap[key] }), {}),
+  };
+};
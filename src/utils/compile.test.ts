@@ -0,0 +1,24 @@
+import { node } from '../testUtils';
+import { Project } from '../types';
+import { compileToPDF } from './compile';
+
+const chapter = (id: number, text: string): Project => ({
+  ...node(id, 'chapter'),
+  content: JSON.stringify({
+    blocks: [
+      { key: 'a', type: 'header-two', text: 'Heading', depth: 0, inlineStyleRanges: [], entityRanges: [] },
+      { key: 'b', type: 'unstyled', text, depth: 0, inlineStyleRanges: [{ offset: 0, length: 4, style: 'BOLD' }], entityRanges: [] },
+    ],
+    entityMap: {},
+  }),
+});
+
+test('compileToPDF starts every chapter on a new page after the title page', () => {
+  const doc = compileToPDF([chapter(1, 'Short text'), chapter(2, 'More text')], { title: 'Novel', author: 'A. Writer', includeTitlePage: true });
+  expect(doc.getNumberOfPages()).toBe(3);
+});
+
+test('compileToPDF wraps long chapters onto following pages', () => {
+  const doc = compileToPDF([chapter(1, 'word '.repeat(2000))], { title: 'Novel', author: '', includeTitlePage: false });
+  expect(doc.getNumberOfPages()).toBeGreaterThan(1);
+});
@@ -0,0 +1,218 @@
+import jsPDF from 'jspdf';
+import { RawDraftContentBlock } from 'draft-js';
+import { Project } from '../types';
+import { getInlineSegments, getRawBlocks } from './content';
+
+export interface CompileOptions {
+  title: string;
+  author: string;
+  includeTitlePage: boolean;
+}
+
+interface BlockFormat {
+  font: 'times' | 'courier';
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  indent: number;
+  spaceAfter: number;
+  prefix?: string;
+}
+
+interface TextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  code: boolean;
+}
+
+const PAGE_MARGIN = 72;
+const BODY_FONT_SIZE = 12;
+const LINE_SPACING = 1.4;
+const LIST_INDENT = 18;
+
+const headerSizes: Record<string, number> = {
+  'header-one': 24,
+  'header-two': 20,
+  'header-three': 16,
+  'header-four': 14,
+  'header-five': 13,
+  'header-six': 12,
+};
+
+const getBlockFormat = (block: RawDraftContentBlock, listNumber: number): BlockFormat => {
+  const body: BlockFormat = { font: 'times', fontSize: BODY_FONT_SIZE, bold: false, italic: false, indent: 0, spaceAfter: 6 };
+  if (headerSizes[block.type]) {
+    return { ...body, fontSize: headerSizes[block.type], bold: true, spaceAfter: 10 };
+  }
+  switch (block.type) {
+    case 'blockquote':
+      return { ...body, italic: true, indent: 24 };
+    case 'code-block':
+      return { ...body, font: 'courier', fontSize: 10, spaceAfter: 0 };
+    case 'unordered-list-item':
+      return { ...body, indent: LIST_INDENT * (block.depth + 1), spaceAfter: 2, prefix: '• ' };
+    case 'ordered-list-item':
+      return { ...body, indent: LIST_INDENT * (block.depth + 1), spaceAfter: 2, prefix: `${listNumber}. ` };
+    default:
+      return body;
+  }
+};
+
+const getStyledRuns = (block: RawDraftContentBlock): TextRun[] => {
+  return getInlineSegments(block).map(segment => ({
+    text: segment.text,
+    bold: segment.styles.includes('BOLD'),
+    italic: segment.styles.includes('ITALIC'),
+    underline: segment.styles.includes('UNDERLINE'),
+    code: segment.styles.includes('CODE'),
+  }));
+};
+
+const getFontStyle = (bold: boolean, italic: boolean) => {
+  if (bold && italic) return 'bolditalic';
+  if (bold) return 'bold';
+  if (italic) return 'italic';
+  return 'normal';
+};
+
+const createWriter = (doc: jsPDF) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const right = pageWidth - PAGE_MARGIN;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const writeBlock = (block: RawDraftContentBlock, format: BlockFormat) => {
+    const lineHeight = format.fontSize * LINE_SPACING;
+    const left = PAGE_MARGIN + format.indent;
+    let x = left;
+
+    const newLine = () => {
+      y += lineHeight;
+      ensureSpace(lineHeight);
+      x = left;
+    };
+
+    const applyFont = (run: TextRun) => {
+      doc.setFont(run.code ? 'courier' : format.font, getFontStyle(format.bold || run.bold, format.italic || run.italic));
+    };
+
+    const draw = (run: TextRun, text: string, width: number) => {
+      doc.text(text, x, y + format.fontSize);
+      if (run.underline) {
+        doc.line(x, y + format.fontSize + 1.5, x + width, y + format.fontSize + 1.5);
+      }
+      x += width;
+    };
+
+    doc.setFontSize(format.fontSize);
+    ensureSpace(lineHeight);
+
+    if (format.prefix) {
+      doc.setFont(format.font, 'normal');
+      const prefixWidth = doc.getTextWidth(format.prefix);
+      doc.text(format.prefix, left - prefixWidth, y + format.fontSize);
+    }
+
+    getStyledRuns(block).forEach(run => {
+      applyFont(run);
+      (run.text.match(/\S+|\s+/g) || []).forEach(token => {
+        const width = doc.getTextWidth(token);
+        if (/^\s+$/.test(token)) {
+          if (x === left) return;
+          if (x + width > right) {
+            newLine();
+          } else {
+            x += width;
+          }
+          return;
+        }
+        if (x + width > right && x > left) {
+          newLine();
+        }
+        if (width <= right - left) {
+          draw(run, token, width);
+          return;
+        }
+        // A single word wider than the line is broken at the last character that fits.
+        let chunk = '';
+        Array.from(token).forEach(char => {
+          if (x + doc.getTextWidth(chunk + char) > right && chunk) {
+            draw(run, chunk, doc.getTextWidth(chunk));
+            newLine();
+            chunk = '';
+          }
+          chunk += char;
+        });
+        if (chunk) draw(run, chunk, doc.getTextWidth(chunk));
+      });
+    });
+
+    y += lineHeight + format.spaceAfter;
+  };
+
+  const writeChapter = (chapter: Project, isFirstPage: boolean) => {
+    if (!isFirstPage) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    const title: RawDraftContentBlock = {
+      key: `title-${chapter.id}`,
+      type: 'header-one',
+      text: chapter.name,
+      depth: 0,
+      inlineStyleRanges: [],
+      entityRanges: [],
+    };
+    writeBlock(title, { ...getBlockFormat(title, 0), spaceAfter: 24 });
+
+    let listNumber = 0;
+    getRawBlocks(chapter.content).forEach(block => {
+      if (block.type === 'atomic') return;
+      listNumber = block.type === 'ordered-list-item' ? listNumber + 1 : 0;
+      writeBlock(block, getBlockFormat(block, listNumber));
+    });
+  };
+
+  const writeTitlePage = (title: string, author: string) => {
+    doc.setFont('times', 'bold');
+    doc.setFontSize(32);
+    doc.text(title, pageWidth / 2, pageHeight / 3, { align: 'center', maxWidth: right - PAGE_MARGIN });
+    if (author) {
+      doc.setFont('times', 'normal');
+      doc.setFontSize(16);
+      doc.text(`by ${author}`, pageWidth / 2, pageHeight / 3 + 48, { align: 'center' });
+    }
+  };
+
+  const writePageNumbers = (firstNumberedPage: number) => {
+    doc.setFont('times', 'normal');
+    doc.setFontSize(10);
+    for (let page = firstNumberedPage; page <= doc.getNumberOfPages(); page++) {
+      doc.setPage(page);
+      doc.text(String(page - firstNumberedPage + 1), pageWidth / 2, pageHeight - PAGE_MARGIN / 2, { align: 'center' });
+    }
+  };
+
+  return { writeChapter, writeTitlePage, writePageNumbers };
+};
+
+export const compileToPDF = (chapters: Project[], options: CompileOptions): jsPDF => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const writer = createWriter(doc);
+
+  if (options.includeTitlePage) {
+    writer.writeTitlePage(options.title, options.author);
+  }
+  chapters.forEach((chapter, index) => writer.writeChapter(chapter, index === 0 && !options.includeTitlePage));
+  writer.writePageNumbers(options.includeTitlePage ? 2 : 1);
+  return doc;
+};
@@ -0,0 +1,11 @@
+import { getRawBlocks, parseRawContent } from './content';
+
+test('getRawBlocks tolerates empty and invalid content', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  expect(getRawBlocks('')).toEqual([]);
+  expect(getRawBlocks('not json')).toEqual([]);
+});
+
+test('parseRawContent fills in a missing entity map', () => {
+  expect(parseRawContent('{"blocks":[]}')).toEqual({ blocks: [], entityMap: {} });
+});
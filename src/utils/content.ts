@@ -0,0 +1,63 @@
+import { convertFromRaw, EditorState, RawDraftContentBlock, RawDraftContentState } from 'draft-js';
+
+export const parseRawContent = (content?: string): RawDraftContentState | null => {
+  if (!content) return null;
+  try {
+    const raw: RawDraftContentState = JSON.parse(content);
+    return Array.isArray(raw.blocks) ? { blocks: raw.blocks, entityMap: raw.entityMap || {} } : null;
+  } catch (error) {
+    console.error('Error parsing content:', error);
+    return null;
+  }
+};
+
+export const getRawBlocks = (content?: string): RawDraftContentBlock[] => {
+  return parseRawContent(content)?.blocks || [];
+};
+
+export const createEditorState = (content?: string): EditorState => {
+  const raw = parseRawContent(content);
+  if (!raw) return EditorState.createEmpty();
+  try {
+    return EditorState.createWithContent(convertFromRaw(raw));
+  } catch (error) {
+    console.error('Error parsing content:', error);
+    return EditorState.createEmpty();
+  }
+};
+
+export interface InlineSegment {
+  text: string;
+  styles: string[];
+  entityKey: number | null;
+}
+
+// Draft.js stores style and entity ranges in code points, so work on
+// Array.from(text) rather than indexing the string directly.
+export const getInlineSegments = (block: RawDraftContentBlock): InlineSegment[] => {
+  const chars = Array.from(block.text);
+  const styles = chars.map(() => [] as string[]);
+  const entities: (number | null)[] = chars.map(() => null);
+  block.inlineStyleRanges.forEach(range => {
+    for (let i = range.offset; i < range.offset + range.length && i < chars.length; i++) {
+      if (!styles[i].includes(range.style)) styles[i].push(range.style);
+    }
+  });
+  block.entityRanges.forEach(range => {
+    for (let i = range.offset; i < range.offset + range.length && i < chars.length; i++) {
+      entities[i] = range.key;
+    }
+  });
+
+  const segments: InlineSegment[] = [];
+  chars.forEach((char, i) => {
+    const charStyles = [...styles[i]].sort();
+    const last = segments[segments.length - 1];
+    if (last && last.entityKey === entities[i] && last.styles.join() === charStyles.join()) {
+      last.text += char;
+    } else {
+      segments.push({ text: char, styles: charStyles, entityKey: entities[i] });
+    }
+  });
+  return segments;
+};
@@ -0,0 +1,12 @@
+import { CARDS_PER_ROW, getCardMoveIndex, getCorkboardRowId, parseCorkboardRowId } from './corkboard';
+
+test('corkboard row ids round-trip and ignore binder ids', () => {
+  expect(parseCorkboardRowId(getCorkboardRowId(42, 3))).toEqual({ parentId: 42, row: 3 });
+  expect(parseCorkboardRowId('binder-42')).toBeNull();
+});
+
+test('getCardMoveIndex accounts for the card removed from an earlier row', () => {
+  expect(getCardMoveIndex(0, 0, 2)).toBe(2);
+  expect(getCardMoveIndex(0, 1, 0)).toBe(CARDS_PER_ROW - 1);
+  expect(getCardMoveIndex(2, 1, 1)).toBe(CARDS_PER_ROW + 1);
+});
@@ -0,0 +1,23 @@
+export const CARDS_PER_ROW = 4;
+
+// react-beautiful-dnd can't reorder a wrapping grid, so the corkboard is laid
+// out as one horizontal droppable per row.
+const CORKBOARD_PREFIX = 'corkboard-';
+
+export const getCorkboardRowId = (parentId: number, row: number): string => `${CORKBOARD_PREFIX}${parentId}-${row}`;
+
+export const parseCorkboardRowId = (droppableId: string): { parentId: number; row: number } | null => {
+  const match = new RegExp(`^${CORKBOARD_PREFIX}(\\d+)-(\\d+)$`).exec(droppableId);
+  return match ? { parentId: Number(match[1]), row: Number(match[2]) } : null;
+};
+
+export const getCardDraggableId = (id: number): string => `card-${id}`;
+
+export const parseCardDraggableId = (draggableId: string): number => Number(draggableId.replace('card-', ''));
+
+// Turns a row/index drop position into an index among the parent's children
+// once the dragged card has been taken out.
+export const getCardMoveIndex = (sourceRow: number, destinationRow: number, destinationIndex: number): number => {
+  const index = destinationRow * CARDS_PER_ROW + destinationIndex;
+  return sourceRow < destinationRow ? index - 1 : index;
+};
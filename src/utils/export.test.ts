@@ -0,0 +1,108 @@
+import { RawDraftContentState } from 'draft-js';
+import { rawToHtml, rawToMarkdown, rawToPlainText, manuscriptToEpub, manuscriptToHtml, manuscriptToMarkdown } from './export';
+import { createDefaultMetadata } from './metadata';
+
+const raw: RawDraftContentState = {
+  blocks: [
+    { key: '1', type: 'header-one', text: 'Opening', depth: 0, inlineStyleRanges: [], entityRanges: [] },
+    {
+      key: '2',
+      type: 'unstyled',
+      text: 'A bold move & a link',
+      depth: 0,
+      inlineStyleRanges: [{ offset: 2, length: 4, style: 'BOLD' }],
+      entityRanges: [{ offset: 16, length: 4, key: 0 }],
+    },
+    { key: '3', type: 'unordered-list-item', text: 'One', depth: 0, inlineStyleRanges: [], entityRanges: [] },
+    { key: '4', type: 'unordered-list-item', text: 'Nested', depth: 1, inlineStyleRanges: [], entityRanges: [] },
+    { key: '5', type: 'unordered-list-item', text: 'Two', depth: 0, inlineStyleRanges: [], entityRanges: [] },
+  ],
+  entityMap: { 0: { type: 'LINK', mutability: 'MUTABLE', data: { url: 'https://example.com' } } },
+};
+
+test('rawToMarkdown maps headers, inline styles, links and lists', () => {
+  expect(rawToMarkdown(raw)).toBe(
+    '# Opening\n\nA **bold** move & a [link](https://example.com)\n\n- One\n  - Nested\n- Two'
+  );
+});
+
+test('rawToHtml escapes text and nests lists inside list items', () => {
+  const html = rawToHtml(raw);
+  expect(html).toContain('<h1>Opening</h1>');
+  expect(html).toContain('A <strong>bold</strong> move &amp; a <a href="https://example.com">link</a>');
+  expect(html.replace(/\n/g, '')).toContain('<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul>');
+});
+
+test('rawToPlainText keeps one line per block', () => {
+  expect(rawToPlainText(raw).split('\n')).toHaveLength(5);
+});
+
+test('manuscriptToEpub stores the mimetype entry first', () => {
+  const zip = manuscriptToEpub({ title: 'Novel', author: '', chapters: [] });
+  const header = String.fromCharCode(...Array.from(zip.slice(0, 4)));
+  const firstName = String.fromCharCode(...Array.from(zip.slice(30, 38)));
+  const firstData = String.fromCharCode(...Array.from(zip.slice(38, 58)));
+  expect(header).toBe('PK\u0003\u0004');
+  expect(firstName).toBe('mimetype');
+  expect(firstData).toBe('application/epub+zip');
+});
+
+test('comments are stripped from exports unless included', () => {
+  const content = JSON.stringify({
+    blocks: [{ key: '1', type: 'unstyled', text: 'Hello world', depth: 0, inlineStyleRanges: [], entityRanges: [{ offset: 6, length: 5, key: 0 }] }],
+    entityMap: {
+      0: { type: 'COMMENT', mutability: 'MUTABLE', data: { resolved: false, comments: [{ id: 1, author: 'Ana', text: 'Whose?', createdAt: '' }] } },
+    },
+  });
+  const chapter = { id: 1, name: 'One', type: 'chapter' as const, children: [], content, metadata: createDefaultMetadata() };
+
+  expect(manuscriptToMarkdown({ title: 'Novel', author: '', chapters: [chapter] })).not.toContain('Whose?');
+  expect(manuscriptToMarkdown({ title: 'Novel', author: '', chapters: [chapter], includeComments: true })).toContain(
+    'Hello world[^comment-1]\n\n[^comment-1]: Ana: Whose?'
+  );
+  expect(manuscriptToHtml({ title: 'Novel', author: '', chapters: [chapter], includeComments: true })).toContain(
+    'Hello <mark title="Ana: Whose?">world</mark>'
+  );
+});
+
+test('markdown footnotes keep multi-line comments on one line', () => {
+  const raw: RawDraftContentState = {
+    blocks: [{ key: '1', type: 'unstyled', text: 'Hello world', depth: 0, inlineStyleRanges: [], entityRanges: [{ offset: 6, length: 5, key: 0 }] }],
+    entityMap: {
+      0: { type: 'COMMENT', mutability: 'MUTABLE', data: { resolved: false, comments: [{ id: 1, author: 'Ana', text: 'Whose?\n\nCheck.', createdAt: '' }] } },
+    },
+  };
+  expect(rawToMarkdown(raw)).toBe('Hello world[^comment-1]\n\n[^comment-1]: Ana: Whose? Check.');
+});
+
+test('rawToMarkdown wraps link targets with spaces or brackets', () => {
+  const raw: RawDraftContentState = {
+    blocks: [{ key: '1', type: 'unstyled', text: 'See notes', depth: 0, inlineStyleRanges: [], entityRanges: [{ offset: 4, length: 5, key: 0 }] }],
+    entityMap: { 0: { type: 'LINK', mutability: 'MUTABLE', data: { url: 'https://example.com/my notes (draft)' } } },
+  };
+  expect(rawToMarkdown(raw)).toBe('See [notes](<https://example.com/my notes (draft)>)');
+});
+
+const zipText = (zip: Uint8Array) => Array.from(zip, byte => String.fromCharCode(byte)).join('');
+
+test('manuscriptToEpub embeds data URL images and leaves out remote ones', () => {
+  const image = (key: number, src: string) => ({ type: 'IMAGE', mutability: 'IMMUTABLE', data: { src, alt: `Image ${key}` } });
+  const atomic = (key: number) => ({ key: `a${key}`, type: 'atomic', text: ' ', depth: 0, inlineStyleRanges: [], entityRanges: [{ offset: 0, length: 1, key }] });
+  const content = JSON.stringify({
+    blocks: [atomic(0), atomic(1)],
+    entityMap: { 0: image(0, `data:image/png;base64,${btoa('PNGDATA')}`), 1: image(1, 'https://example.com/cover.png') },
+  });
+  const chapter = { id: 1, name: 'One', type: 'chapter' as const, children: [], content, metadata: createDefaultMetadata() };
+  const epub = zipText(manuscriptToEpub({ title: 'Novel', author: '', chapters: [chapter] }));
+
+  expect(epub).toContain('<item id="image-1" href="images/image-1.png" media-type="image/png" />');
+  expect(epub).toContain('OEBPS/images/image-1.pngPNGDATA');
+  expect(epub).toContain('<img src="images/image-1.png" alt="Image 0" />');
+  expect(epub).not.toContain('example.com');
+});
+
+test('manuscriptToEpub lists a title page when there are no chapters', () => {
+  const epub = zipText(manuscriptToEpub({ title: 'Novel', author: '', chapters: [] }));
+  expect(epub).toContain('<itemref idref="title-page" />');
+  expect(epub).toContain('<li><a href="title-page.xhtml">Novel</a></li>');
+});
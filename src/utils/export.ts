@@ -0,0 +1,415 @@
+import { RawDraftContentBlock, RawDraftContentState } from 'draft-js';
+import { Project } from '../types';
+import { COMMENT_ENTITY, CommentThread, formatCommentThread, stripComments } from './comments';
+import { getInlineSegments, InlineSegment, parseRawContent } from './content';
+import { createZip } from './zip';
+
+export type ExportFormat = 'markdown' | 'html' | 'text' | 'epub';
+
+export interface Manuscript {
+  title: string;
+  author: string;
+  chapters: Project[];
+  includeComments?: boolean;
+}
+
+export const exportFormats: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { value: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  { value: 'text', label: 'Plain Text', extension: 'txt', mimeType: 'text/plain' },
+  { value: 'epub', label: 'EPUB', extension: 'epub', mimeType: 'application/epub+zip' },
+];
+
+const emptyContent: RawDraftContentState = { blocks: [], entityMap: {} };
+
+// Comments are left out unless they're asked for, so review notes don't end
+// up in a manuscript sent to readers.
+const getChapterContent = (chapter: Project, includeComments = false) => {
+  const raw = parseRawContent(chapter.content) || emptyContent;
+  return includeComments ? raw : stripComments(raw);
+};
+
+const getEntity = (raw: RawDraftContentState, key: number | null) => (key === null ? null : raw.entityMap[key] || null);
+
+export const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+const headerLevels: Record<string, number> = {
+  'header-one': 1,
+  'header-two': 2,
+  'header-three': 3,
+  'header-four': 4,
+  'header-five': 5,
+  'header-six': 6,
+};
+
+const isListItem = (type: string) => type === 'unordered-list-item' || type === 'ordered-list-item';
+
+// Groups consecutive segments that share an entity, so a link whose text
+// mixes styles still comes out as a single anchor.
+const groupByEntity = (segments: InlineSegment[]) => {
+  const groups: { entityKey: number | null; segments: InlineSegment[] }[] = [];
+  segments.forEach(segment => {
+    const last = groups[groups.length - 1];
+    if (last && last.entityKey === segment.entityKey) {
+      last.segments.push(segment);
+    } else {
+      groups.push({ entityKey: segment.entityKey, segments: [segment] });
+    }
+  });
+  return groups;
+};
+
+const markdownMarkers: [string, string][] = [
+  ['CODE', '`'],
+  ['BOLD', '**'],
+  ['ITALIC', '_'],
+  ['STRIKETHROUGH', '~~'],
+];
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_~[\]])/g, '\\$1');
+
+// A destination with spaces or brackets is wrapped in <…>, which may hold
+// anything except line breaks and unescaped angle brackets.
+const formatMarkdownUrl = (url: string) => {
+  if (!/[\s()<>\\]/.test(url)) return url;
+  return `<${url.replace(/[\r\n]/g, char => encodeURIComponent(char)).replace(/[\\<>]/g, '\\$&')}>`;
+};
+
+const renderMarkdownSegment = (segment: InlineSegment) => {
+  const [, leading, body, trailing] = segment.text.match(/^(\s*)([\s\S]*?)(\s*)$/) || ['', '', segment.text, ''];
+  if (!body) return segment.text;
+  const markers = markdownMarkers.filter(([style]) => segment.styles.includes(style)).map(([, marker]) => marker);
+  const text = segment.styles.includes('CODE') ? body : escapeMarkdown(body);
+  return `${leading}${markers.join('')}${text}${[...markers].reverse().join('')}${trailing}`;
+};
+
+const getFootnoteLabel = (thread: CommentThread) => `comment-${thread.comments[0]?.id ?? 0}`;
+
+const renderMarkdownInline = (block: RawDraftContentBlock, raw: RawDraftContentState, footnotes: Map<string, string>) => {
+  return groupByEntity(getInlineSegments(block))
+    .map(group => {
+      const text = group.segments.map(renderMarkdownSegment).join('');
+      const entity = getEntity(raw, group.entityKey);
+      if (entity?.type === COMMENT_ENTITY) {
+        const label = getFootnoteLabel(entity.data as CommentThread);
+        // A footnote definition ends at the first line break.
+        footnotes.set(label, formatCommentThread(entity.data as CommentThread).replace(/\s+/g, ' ').trim());
+        return `${text}[^${label}]`;
+      }
+      return entity?.type === 'LINK' ? `[${text}](${formatMarkdownUrl(entity.data.url)})` : text;
+    })
+    .join('');
+};
+
+export const rawToMarkdown = (raw: RawDraftContentState): string => {
+  const lines: string[] = [];
+  const footnotes = new Map<string, string>();
+  let listNumber = 0;
+  raw.blocks.forEach((block, index) => {
+    const previous = raw.blocks[index - 1];
+    const next = raw.blocks[index + 1];
+    listNumber = block.type === 'ordered-list-item' ? listNumber + 1 : 0;
+    const indent = '  '.repeat(block.depth);
+    const text = renderMarkdownInline(block, raw, footnotes);
+
+    if (headerLevels[block.type]) {
+      lines.push(`${'#'.repeat(headerLevels[block.type])} ${text}`, '');
+    } else if (block.type === 'blockquote') {
+      lines.push(`> ${text}`, '');
+    } else if (block.type === 'code-block') {
+      if (previous?.type !== 'code-block') lines.push('```');
+      lines.push(block.text);
+      if (next?.type !== 'code-block') lines.push('```', '');
+    } else if (block.type === 'unordered-list-item') {
+      lines.push(`${indent}- ${text}`);
+      if (!next || !isListItem(next.type)) lines.push('');
+    } else if (block.type === 'ordered-list-item') {
+      lines.push(`${indent}${listNumber}. ${text}`);
+      if (!next || !isListItem(next.type)) lines.push('');
+    } else if (block.type === 'atomic') {
+      const entity = getEntity(raw, block.entityRanges[0]?.key ?? null);
+      if (entity?.type === 'IMAGE') lines.push(`![${escapeMarkdown(entity.data.alt || '')}](${formatMarkdownUrl(entity.data.src)})`, '');
+    } else {
+      lines.push(text, '');
+    }
+  });
+  footnotes.forEach((note, label) => lines.push(`[^${label}]: ${note}`));
+  return lines.join('\n').trim();
+};
+
+const htmlTags: [string, string][] = [
+  ['BOLD', 'strong'],
+  ['ITALIC', 'em'],
+  ['UNDERLINE', 'u'],
+  ['STRIKETHROUGH', 's'],
+  ['CODE', 'code'],
+  ['SUPERSCRIPT', 'sup'],
+  ['SUBSCRIPT', 'sub'],
+];
+
+const renderHtmlInline = (block: RawDraftContentBlock, raw: RawDraftContentState) => {
+  return groupByEntity(getInlineSegments(block))
+    .map(group => {
+      const html = group.segments
+        .map(segment => {
+          const tags = htmlTags.filter(([style]) => segment.styles.includes(style)).map(([, tag]) => tag);
+          return `${tags.map(tag => `<${tag}>`).join('')}${escapeHtml(segment.text)}${[...tags].reverse().map(tag => `</${tag}>`).join('')}`;
+        })
+        .join('');
+      const entity = getEntity(raw, group.entityKey);
+      if (entity?.type === COMMENT_ENTITY) {
+        return `<mark title="${escapeHtml(formatCommentThread(entity.data as CommentThread))}">${html}</mark>`;
+      }
+      return entity?.type === 'LINK' ? `<a href="${escapeHtml(entity.data.url)}">${html}</a>` : html;
+    })
+    .join('');
+};
+
+// Produces XHTML-compatible markup (self-closed void elements) so the same
+// output can be used both in standalone HTML and inside EPUB documents.
+export const rawToHtml = (raw: RawDraftContentState, resolveImageSrc: (src: string) => string | null = src => src): string => {
+  const lines: string[] = [];
+  const openLists: string[] = [];
+  let inCode = false;
+
+  // Each open list keeps its last <li> open so nested lists end up inside it.
+  const closeListsTo = (depth: number) => {
+    while (openLists.length > depth) {
+      lines.push(`</li></${openLists.pop()}>`);
+    }
+  };
+
+  raw.blocks.forEach(block => {
+    if (inCode && block.type !== 'code-block') {
+      lines.push('</code></pre>');
+      inCode = false;
+    }
+    if (isListItem(block.type)) {
+      const tag = block.type === 'ordered-list-item' ? 'ol' : 'ul';
+      closeListsTo(block.depth + 1);
+      if (openLists.length === block.depth + 1) {
+        if (openLists[block.depth] === tag) {
+          lines.push('</li>');
+        } else {
+          closeListsTo(block.depth);
+        }
+      }
+      while (openLists.length < block.depth) {
+        openLists.push(tag);
+        lines.push(`<${tag}><li>`);
+      }
+      if (openLists.length === block.depth) {
+        openLists.push(tag);
+        lines.push(`<${tag}>`);
+      }
+      lines.push(`<li>${renderHtmlInline(block, raw)}`);
+      return;
+    }
+    closeListsTo(0);
+
+    const text = renderHtmlInline(block, raw);
+    if (headerLevels[block.type]) {
+      const level = headerLevels[block.type];
+      lines.push(`<h${level}>${text}</h${level}>`);
+    } else if (block.type === 'blockquote') {
+      lines.push(`<blockquote><p>${text}</p></blockquote>`);
+    } else if (block.type === 'code-block') {
+      lines.push(`${inCode ? '' : '<pre><code>'}${escapeHtml(block.text)}`);
+      inCode = true;
+    } else if (block.type === 'atomic') {
+      const entity = getEntity(raw, block.entityRanges[0]?.key ?? null);
+      const src = entity?.type === 'IMAGE' ? resolveImageSrc(entity.data.src) : null;
+      if (src !== null) {
+        lines.push(`<img src="${escapeHtml(src)}" alt="${escapeHtml(entity?.data.alt || '')}" />`);
+      }
+    } else {
+      lines.push(text ? `<p>${text}</p>` : '<p><br /></p>');
+    }
+  });
+  if (inCode) lines.push('</code></pre>');
+  closeListsTo(0);
+  return lines.join('\n');
+};
+
+export const rawToPlainText = (raw: RawDraftContentState): string => {
+  return raw.blocks
+    .map(block =>
+      groupByEntity(getInlineSegments(block))
+        .map(group => {
+          const text = group.segments.map(segment => segment.text).join('');
+          const entity = getEntity(raw, group.entityKey);
+          return entity?.type === COMMENT_ENTITY ? `${text} [${formatCommentThread(entity.data as CommentThread)}]` : text;
+        })
+        .join('')
+    )
+    .join('\n');
+};
+
+export const manuscriptToMarkdown = ({ title, author, chapters, includeComments }: Manuscript): string => {
+  const header = [`# ${title}`, ...(author ? ['', `_by ${author}_`] : [])].join('\n');
+  const body = chapters.map(chapter => `## ${chapter.name}\n\n${rawToMarkdown(getChapterContent(chapter, includeComments))}`.trim());
+  return [header, ...body].join('\n\n') + '\n';
+};
+
+export const manuscriptToHtml = ({ title, author, chapters, includeComments }: Manuscript): string => {
+  const sections = chapters
+    .map(chapter => `<section>\n<h1>${escapeHtml(chapter.name)}</h1>\n${rawToHtml(getChapterContent(chapter, includeComments))}\n</section>`)
+    .join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+${author ? `<meta name="author" content="${escapeHtml(author)}" />\n` : ''}<style>
+body { max-width: 40em; margin: 2em auto; font-family: Georgia, serif; line-height: 1.6; }
+section { page-break-before: always; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+${author ? `<p>by ${escapeHtml(author)}</p>` : ''}
+</header>
+${sections}
+</body>
+</html>
+`;
+};
+
+export const manuscriptToPlainText = ({ title, author, chapters, includeComments }: Manuscript): string => {
+  const header = author ? `${title}\nby ${author}` : title;
+  const body = chapters.map(chapter => `${chapter.name}\n\n${rawToPlainText(getChapterContent(chapter, includeComments))}`);
+  return [header, ...body].join('\n\n\n') + '\n';
+};
+
+const xhtmlDocument = (title: string, body: string, extraNamespace = '') => `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="en" lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const EPUB_IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/gif': 'gif',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+};
+
+interface EpubImage {
+  id: string;
+  href: string;
+  mediaType: string;
+  data: Uint8Array;
+}
+
+// Reading systems don't fetch remote resources, so images pasted as data URLs
+// are packed into the book and anything else is left out.
+const createEpubImageCollector = () => {
+  const images: EpubImage[] = [];
+  const hrefsBySrc = new Map<string, string | null>();
+
+  const embed = (src: string): string | null => {
+    const match = /^data:(image\/[\w.+-]+);base64,(.*)$/s.exec(src);
+    const extension = match && EPUB_IMAGE_EXTENSIONS[match[1]];
+    if (!match || !extension) return null;
+    try {
+      const data = Uint8Array.from(atob(match[2]), char => char.charCodeAt(0));
+      const id = `image-${images.length + 1}`;
+      images.push({ id, href: `images/${id}.${extension}`, mediaType: match[1], data });
+      return `images/${id}.${extension}`;
+    } catch (error) {
+      console.error('Error embedding image in EPUB:', error);
+      return null;
+    }
+  };
+
+  const resolve = (src: string) => {
+    if (!hrefsBySrc.has(src)) hrefsBySrc.set(src, embed(src));
+    return hrefsBySrc.get(src) ?? null;
+  };
+
+  return { images, resolve };
+};
+
+export const manuscriptToEpub = ({ title, author, chapters, includeComments }: Manuscript, identifier = `urn:uuid:${Date.now()}`): Uint8Array => {
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const { images, resolve } = createEpubImageCollector();
+  const chapterFiles = chapters.map((chapter, index) => ({
+    id: `chapter-${index + 1}`,
+    href: `chapter-${index + 1}.xhtml`,
+    name: chapter.name,
+    body: `<section>\n<h1>${escapeHtml(chapter.name)}</h1>\n${rawToHtml(getChapterContent(chapter, includeComments), resolve)}\n</section>`,
+  }));
+  // The spine and the table of contents must each list at least one document.
+  const documents = chapterFiles.length > 0 ? chapterFiles : [{ id: 'title-page', href: 'title-page.xhtml', name: title, body: `<section>\n<h1>${escapeHtml(title)}</h1>\n</section>` }];
+
+  const containerXml = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>
+`;
+
+  const contentOpf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeHtml(identifier)}</dc:identifier>
+<dc:title>${escapeHtml(title)}</dc:title>
+<dc:language>en</dc:language>
+${author ? `<dc:creator>${escapeHtml(author)}</dc:creator>\n` : ''}<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+${documents.map(file => `<item id="${file.id}" href="${file.href}" media-type="application/xhtml+xml" />`).join('\n')}
+${images.map(image => `<item id="${image.id}" href="${image.href}" media-type="${image.mediaType}" />\n`).join('')}</manifest>
+<spine>
+${documents.map(file => `<itemref idref="${file.id}" />`).join('\n')}
+</spine>
+</package>
+`;
+
+  const navXhtml = xhtmlDocument(
+    title,
+    `<nav epub:type="toc" id="toc">
+<h1>${escapeHtml(title)}</h1>
+<ol>
+${documents.map(file => `<li><a href="${file.href}">${escapeHtml(file.name)}</a></li>`).join('\n')}
+</ol>
+</nav>`,
+    ' xmlns:epub="http://www.idpf.org/2007/ops"'
+  );
+
+  return createZip([
+    { name: 'mimetype', data: 'application/epub+zip' },
+    { name: 'META-INF/container.xml', data: containerXml },
+    { name: 'OEBPS/content.opf', data: contentOpf },
+    { name: 'OEBPS/nav.xhtml', data: navXhtml },
+    ...documents.map(file => ({ name: `OEBPS/${file.href}`, data: xhtmlDocument(file.name, file.body) })),
+    ...images.map(image => ({ name: `OEBPS/${image.href}`, data: image.data })),
+  ]);
+};
+
+export const exportManuscript = (format: ExportFormat, manuscript: Manuscript): Blob => {
+  const { mimeType } = exportFormats.find(option => option.value === format)!;
+  switch (format) {
+    case 'markdown':
+      return new Blob([manuscriptToMarkdown(manuscript)], { type: mimeType });
+    case 'html':
+      return new Blob([manuscriptToHtml(manuscript)], { type: mimeType });
+    case 'text':
+      return new Blob([manuscriptToPlainText(manuscript)], { type: mimeType });
+    case 'epub':
+      return new Blob([manuscriptToEpub(manuscript)], { type: mimeType });
+  }
+};
@@ -0,0 +1,93 @@
+import { node } from '../testUtils';
+import { Project } from '../types';
+import { applyTreeOperation, diffMetadata, diffProjectSchema, emptyTreeHistory, recordOperation, stepTreeHistory, TreeHistory, TreeOperation } from './history';
+import { renameStatus } from './metadataSchema';
+import { findNode } from './tree';
+import { getBinder, getTrashedItems, purgeFromTrash } from './trash';
+
+const tree = [node(1, 'project', [node(2, 'folder', [node(3, 'chapter')]), node(4, 'chapter')])];
+
+const perform = (projects: Project[], history: TreeHistory, operation: TreeOperation, coalesceKey?: string, time = 0) => {
+  const applied = applyTreeOperation(projects, operation);
+  if (!applied) throw new Error('expected the operation to apply');
+  return { projects: applied.projects, history: recordOperation(history, { label: operation.type, operation: applied.inverse, coalesceKey, time }) };
+};
+
+const step = (projects: Project[], history: TreeHistory, direction: 'undo' | 'redo') => {
+  const result = stepTreeHistory(projects, history, direction);
+  if (!result || !result.projects) throw new Error(`expected ${direction} to apply`);
+  return { projects: result.projects, history: result.history };
+};
+
+test('moves, renames and deletes can be undone and redone', () => {
+  let state = perform(tree, emptyTreeHistory, { type: 'move', nodeId: 4, parentId: 2, index: 0 });
+  state = perform(state.projects, state.history, { type: 'rename', nodeId: 4, name: 'Prologue' });
+  state = perform(state.projects, state.history, { type: 'trash', nodeId: 2 });
+  expect(getTrashedItems(state.projects).map(item => item.id)).toEqual([2]);
+
+  state = step(state.projects, state.history, 'undo');
+  state = step(state.projects, state.history, 'undo');
+  state = step(state.projects, state.history, 'undo');
+  expect(getBinder(state.projects)).toEqual(tree);
+
+  state = step(state.projects, state.history, 'redo');
+  expect(findNode(state.projects, 2)?.children.map(child => child.id)).toEqual([4, 3]);
+  expect(state.history.future).toHaveLength(2);
+});
+
+test('undoing a create moves the item to the trash', () => {
+  let state = perform(tree, emptyTreeHistory, { type: 'insert', node: node(5, 'chapter'), parentId: 1 });
+  expect(findNode(state.projects, 1)?.children.map(child => child.id)).toEqual([2, 4, 5]);
+  state = step(state.projects, state.history, 'undo');
+  expect(getTrashedItems(state.projects).map(item => item.id)).toEqual([5]);
+  state = step(state.projects, state.history, 'redo');
+  expect(findNode(state.projects, 1)?.children.map(child => child.id)).toEqual([2, 4, 5]);
+});
+
+test('metadata undo only restores the fields that were edited', () => {
+  const changes = diffMetadata(tree[0].metadata, { ...tree[0].metadata, status: 'Completed' });
+  expect(changes).toEqual({ status: 'Completed' });
+  let state = perform(tree, emptyTreeHistory, { type: 'metadata', nodeId: 1, changes });
+  const saved = state.projects.map(project => ({ ...project, metadata: { ...project.metadata, actualWordCount: 900 } }));
+  state = step(saved, state.history, 'undo');
+  expect(state.projects[0].metadata).toMatchObject({ status: 'Not Started', actualWordCount: 900 });
+});
+
+test('undoing a status rename keeps older metadata steps in step', () => {
+  let state = perform(tree, emptyTreeHistory, { type: 'metadata', nodeId: 3, changes: { status: 'Completed' } });
+  const project = findNode(state.projects, 1)!;
+  state = perform(state.projects, state.history, diffProjectSchema(project, renameStatus(project, 'Completed', 'Done')));
+  expect(findNode(state.projects, 3)?.metadata.status).toBe('Done');
+
+  state = step(state.projects, state.history, 'undo');
+  expect(findNode(state.projects, 3)?.metadata.status).toBe('Completed');
+  expect(findNode(state.projects, 1)?.metadataSchema).toBeUndefined();
+  state = step(state.projects, state.history, 'undo');
+  expect(findNode(state.projects, 3)?.metadata.status).toBe('Not Started');
+});
+
+test('edits with the same key close together are one step', () => {
+  let state = perform(tree, emptyTreeHistory, { type: 'rename', nodeId: 4, name: 'P' }, 'rename-4', 0);
+  state = perform(state.projects, state.history, { type: 'rename', nodeId: 4, name: 'Pr' }, 'rename-4', 500);
+  state = perform(state.projects, state.history, { type: 'rename', nodeId: 4, name: 'Pro' }, 'rename-4', 5000);
+  expect(state.history.past).toHaveLength(2);
+  state = step(state.projects, state.history, 'undo');
+  state = step(state.projects, state.history, 'undo');
+  expect(findNode(state.projects, 4)?.name).toBe('Node 4');
+});
+
+test('coalesced metadata edits to different fields undo together', () => {
+  let state = perform(tree, emptyTreeHistory, { type: 'metadata', nodeId: 3, changes: { status: 'In Progress' } }, 'metadata-3', 0);
+  state = perform(state.projects, state.history, { type: 'metadata', nodeId: 3, changes: { author: 'Ada' } }, 'metadata-3', 500);
+  state = perform(state.projects, state.history, { type: 'metadata', nodeId: 3, changes: { status: 'Completed' } }, 'metadata-3', 1000);
+  expect(state.history.past).toHaveLength(1);
+  state = step(state.projects, state.history, 'undo');
+  expect(findNode(state.projects, 3)?.metadata).toMatchObject({ status: 'Not Started', author: '' });
+});
+
+test('steps that no longer apply are dropped', () => {
+  const state = perform(tree, emptyTreeHistory, { type: 'trash', nodeId: 4 });
+  const result = stepTreeHistory(purgeFromTrash(state.projects, 4), state.history, 'undo');
+  expect(result?.projects).toBeNull();
+  expect(result?.history).toEqual(emptyTreeHistory);
+});
@@ -0,0 +1,169 @@
+import { MetadataSchema, Project, ProjectMetadata } from '../types';
+import { findNode, findNodePosition, flattenTree, insertNodeAt, moveNode, updateNode } from './tree';
+import { getBinder, moveToTrash, restoreFromTrash, withBinder } from './trash';
+
+// Binder undo/redo records operations rather than copies of the tree. Each
+// operation is applied to whatever the tree looks like now, and applying it
+// yields the operation that reverses it, which goes on the opposite stack.
+// Undoing a create moves the item to the trash rather than deleting it, so
+// nothing written in it since is lost. Inserts without an index append.
+export type TreeOperation =
+  | { type: 'insert'; node: Project; parentId: number | null; index?: number }
+  | { type: 'move'; nodeId: number; parentId: number | null; index: number }
+  | { type: 'rename'; nodeId: number; name: string }
+  | { type: 'metadata'; nodeId: number; changes: Partial<ProjectMetadata> }
+  | { type: 'schema'; nodeId: number; schema?: MetadataSchema }
+  | { type: 'trash'; nodeId: number }
+  | { type: 'restore'; nodeId: number }
+  | { type: 'batch'; operations: TreeOperation[] };
+
+export interface AppliedOperation {
+  projects: Project[];
+  inverse: TreeOperation;
+}
+
+export interface HistoryEntry {
+  label: string;
+  operation: TreeOperation;
+  // Consecutive entries with the same key, e.g. typing into one metadata
+  // field, are undone as a single step.
+  coalesceKey?: string;
+  time: number;
+}
+
+export interface TreeHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const MAX_HISTORY = 100;
+const COALESCE_WINDOW = 1500;
+
+export const emptyTreeHistory: TreeHistory = { past: [], future: [] };
+
+// The metadata fields that differ, so undoing a status change doesn't also
+// roll back a word count updated by a save in the meantime.
+export const diffMetadata = (before: ProjectMetadata, after: ProjectMetadata): Partial<ProjectMetadata> => {
+  return (Object.keys(after) as (keyof ProjectMetadata)[])
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .reduce<Partial<ProjectMetadata>>((changes, key) => ({ ...changes, [key]: after[key] }), {});
+};
+
+// A change to a project's statuses or custom fields, together with the item
+// metadata it rewrote (a renamed status, a removed field's values), so undo
+// puts the two back in step.
+export const diffProjectSchema = (before: Project, after: Project): TreeOperation => {
+  const previous = new Map(flattenTree([before]).map(entry => [entry.node.id, entry.node.metadata]));
+  const metadataChanges = flattenTree([after]).flatMap(({ node }): TreeOperation[] => {
+    const metadata = previous.get(node.id);
+    const changes = metadata ? diffMetadata(metadata, node.metadata) : {};
+    return Object.keys(changes).length > 0 ? [{ type: 'metadata', nodeId: node.id, changes }] : [];
+  });
+  return { type: 'batch', operations: [{ type: 'schema', nodeId: after.id, schema: after.metadataSchema }, ...metadataChanges] };
+};
+
+export const applyTreeOperation = (projects: Project[], operation: TreeOperation): AppliedOperation | null => {
+  const binder = getBinder(projects);
+  switch (operation.type) {
+    case 'insert': {
+      const { node, parentId } = operation;
+      const parent = parentId !== null ? findNode(binder, parentId) : null;
+      if (findNode(projects, node.id) || (parentId !== null && !parent)) return null;
+      const index = operation.index ?? (parent ? parent.children.length : binder.length);
+      return { projects: withBinder(projects, insertNodeAt(binder, parentId, node, index)), inverse: { type: 'trash', nodeId: node.id } };
+    }
+    case 'move': {
+      const position = findNodePosition(binder, operation.nodeId);
+      const moved = moveNode(binder, operation.nodeId, operation.parentId, operation.index);
+      if (!position || moved === binder) return null;
+      return { projects: withBinder(projects, moved), inverse: { type: 'move', nodeId: operation.nodeId, ...position } };
+    }
+    case 'rename': {
+      const node = findNode(binder, operation.nodeId);
+      if (!node) return null;
+      return {
+        projects: withBinder(projects, updateNode(binder, node.id, current => ({ ...current, name: operation.name }))),
+        inverse: { type: 'rename', nodeId: node.id, name: node.name },
+      };
+    }
+    case 'metadata': {
+      const node = findNode(binder, operation.nodeId);
+      if (!node) return null;
+      const keys = Object.keys(operation.changes) as (keyof ProjectMetadata)[];
+      const previous = keys.reduce<Partial<ProjectMetadata>>((values, key) => ({ ...values, [key]: node.metadata[key] }), {});
+      return {
+        projects: withBinder(projects, updateNode(binder, node.id, current => ({ ...current, metadata: { ...current.metadata, ...operation.changes } }))),
+        inverse: { type: 'metadata', nodeId: node.id, changes: previous },
+      };
+    }
+    case 'schema': {
+      const node = findNode(binder, operation.nodeId);
+      if (!node) return null;
+      return {
+        projects: withBinder(projects, updateNode(binder, node.id, current => ({ ...current, metadataSchema: operation.schema }))),
+        inverse: { type: 'schema', nodeId: node.id, schema: node.metadataSchema },
+      };
+    }
+    case 'trash': {
+      const updated = moveToTrash(projects, operation.nodeId);
+      return updated ? { projects: updated, inverse: { type: 'restore', nodeId: operation.nodeId } } : null;
+    }
+    case 'restore': {
+      const updated = restoreFromTrash(projects, operation.nodeId);
+      return updated ? { projects: updated, inverse: { type: 'trash', nodeId: operation.nodeId } } : null;
+    }
+    case 'batch': {
+      let current = projects;
+      const inverses: TreeOperation[] = [];
+      for (const child of operation.operations) {
+        const applied = applyTreeOperation(current, child);
+        if (!applied) return null;
+        current = applied.projects;
+        inverses.unshift(applied.inverse);
+      }
+      return { projects: current, inverse: { type: 'batch', operations: inverses } };
+    }
+  }
+};
+
+// A coalesced step undoes back to its earliest state. Metadata edits can
+// touch different fields, so their inverses are merged with the earlier value
+// of each field winning.
+const coalesceInverses = (earlier: TreeOperation, later: TreeOperation): TreeOperation =>
+  earlier.type === 'metadata' && later.type === 'metadata' && earlier.nodeId === later.nodeId
+    ? { ...earlier, changes: { ...later.changes, ...earlier.changes } }
+    : earlier;
+
+// Records the inverse of an operation that has just been applied.
+export const recordOperation = (history: TreeHistory, entry: HistoryEntry): TreeHistory => {
+  const last = history.past[history.past.length - 1];
+  if (last && entry.coalesceKey && last.coalesceKey === entry.coalesceKey && entry.time - last.time < COALESCE_WINDOW) {
+    const coalesced = { ...last, operation: coalesceInverses(last.operation, entry.operation), time: entry.time };
+    return { past: [...history.past.slice(0, -1), coalesced], future: [] };
+  }
+  return { past: [...history.past, entry].slice(-MAX_HISTORY), future: [] };
+};
+
+export interface HistoryStep {
+  projects: Project[] | null;
+  history: TreeHistory;
+  label: string;
+}
+
+// Undoes or redoes one step. When the step no longer applies, e.g. because
+// the item involved was purged from the trash, it is dropped and projects is
+// null.
+export const stepTreeHistory = (projects: Project[], history: TreeHistory, direction: 'undo' | 'redo'): HistoryStep | null => {
+  const from = direction === 'undo' ? history.past : history.future;
+  const to = direction === 'undo' ? history.future : history.past;
+  const entry = from[from.length - 1];
+  if (!entry) return null;
+  const applied = applyTreeOperation(projects, entry.operation);
+  const remaining = from.slice(0, -1);
+  const moved = applied ? [...to, { ...entry, operation: applied.inverse, coalesceKey: undefined }] : to;
+  return {
+    projects: applied ? applied.projects : null,
+    history: direction === 'undo' ? { past: remaining, future: moved } : { past: moved, future: remaining },
+    label: entry.label,
+  };
+};
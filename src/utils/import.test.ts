@@ -0,0 +1,44 @@
+import { convertFromRaw } from 'draft-js';
+import { importChapters, markdownToHtml } from './import';
+
+const options = { splitAtHeadings: false, headingType: 'header-one' as const };
+
+test('markdownToHtml converts block and inline syntax', () => {
+  expect(markdownToHtml('# Title\n\nSome **bold** and _soft_ text\nacross lines.\n\n- one\n- two')).toBe(
+    '<h1>Title</h1>\n<p>Some <strong>bold</strong> and <em>soft</em> text across lines.</p>\n<ul><li>one</li><li>two</li></ul>'
+  );
+});
+
+test('markdownToHtml leaves underscores in link targets and inside words alone', () => {
+  expect(markdownToHtml('[x](http://a/my_file_name) and ![a_b](http://a/c_d_e.png)')).toBe(
+    '<p><a href="http://a/my_file_name">x</a> and <img src="http://a/c_d_e.png" alt="a_b" /></p>'
+  );
+  expect(markdownToHtml('snake_case_name stays, _this_ and __that__ do not')).toBe(
+    '<p>snake_case_name stays, <em>this</em> and <strong>that</strong> do not</p>'
+  );
+});
+
+test('importChapters turns a markdown file into loadable Draft.js content', () => {
+  const [chapter] = importChapters('draft.md', '## Scene\n\nShe **ran**.', options);
+  const content = convertFromRaw(JSON.parse(chapter.content!));
+  expect(chapter.name).toBe('draft');
+  expect(content.getBlockMap().first().getType()).toBe('header-two');
+  expect(content.getPlainText()).toBe('Scene\nShe ran.');
+  expect(chapter.metadata.actualWordCount).toBe(3);
+  expect(chapter.metadata.completionPercentage).toBe(0);
+});
+
+test('importChapters splits a file at headings', () => {
+  const chapters = importChapters('book.md', 'Preface text\n\n# One\n\nFirst\n\n# Two\n\nSecond', { ...options, splitAtHeadings: true });
+  expect(chapters.map(chapter => chapter.name)).toEqual(['book', 'One', 'Two']);
+  expect(new Set(chapters.map(chapter => chapter.id)).size).toBe(3);
+});
+
+test('importChapters keeps plain text lines as paragraphs', () => {
+  const [chapter] = importChapters('notes.txt', 'Line one\nLine two', options);
+  expect(JSON.parse(chapter.content!).blocks.map((block: { text: string }) => block.text)).toEqual(['Line one', 'Line two']);
+});
+
+test('importChapters rejects unknown file types', () => {
+  expect(() => importChapters('cover.png', '', options)).toThrow('Unsupported file type');
+});
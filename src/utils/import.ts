@@ -0,0 +1,204 @@
+import { ContentState, convertFromHTML, convertToRaw, RawDraftContentBlock, RawDraftContentState } from 'draft-js';
+import { Project } from '../types';
+import { escapeHtml } from './export';
+import { createDefaultMetadata } from './metadata';
+import { generateId } from './tree';
+import { withWordCountMetadata } from './textAnalysis';
+
+export type ImportFormat = 'markdown' | 'text' | 'html';
+
+export interface ImportOptions {
+  splitAtHeadings: boolean;
+  headingType: 'header-one' | 'header-two';
+}
+
+export const importExtensions: Record<string, ImportFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  html: 'html',
+  htm: 'html',
+};
+
+export const getImportFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return importExtensions[extension] || null;
+};
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const createBlock = (text: string, type = 'unstyled'): RawDraftContentBlock => ({
+  key: Math.random().toString(36).slice(2, 7),
+  type,
+  text,
+  depth: 0,
+  inlineStyleRanges: [],
+  entityRanges: [],
+});
+
+export const htmlToRaw = (html: string): RawDraftContentState => {
+  const { contentBlocks, entityMap } = convertFromHTML(html);
+  if (!contentBlocks || contentBlocks.length === 0) {
+    return { blocks: [createBlock('')], entityMap: {} };
+  }
+  return convertToRaw(ContentState.createFromBlockArray(contentBlocks, entityMap));
+};
+
+export const plainTextToRaw = (text: string): RawDraftContentState => ({
+  blocks: text.replace(/\r\n?/g, '\n').split('\n').map(line => createBlock(line)),
+  entityMap: {},
+});
+
+// Code spans and link and image targets are set aside before emphasis runs,
+// so underscores and asterisks inside them stay literal.
+const renderMarkdownInline = (text: string): string => {
+  const held: string[] = [];
+  const hold = (html: string) => {
+    held.push(html);
+    return `@@${held.length - 1}@@`;
+  };
+  const html = escapeHtml(text)
+    .replace(/\\([\\`*_~[\]()#>!-])/g, (_, char: string) => `&#${char.charCodeAt(0)};`)
+    .replace(/`([^`]+)`/g, (_, code: string) => hold(`<code>${code}</code>`))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt: string, src: string) => hold(`<img src="${src}" alt="${alt}" />`))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) => `<a href="${hold(href)}">${label}</a>`)
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(?<![\p{L}\p{N}_])__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}_])/gu, '<strong>$1</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(?<![\p{L}\p{N}_])_(?=\S)([\s\S]*?\S)_(?![\p{L}\p{N}_])/gu, '<em>$1</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+  return html.replace(/@@(\d+)@@/g, (_, index: string) => held[Number(index)]);
+};
+
+export const markdownToHtml = (markdown: string): string => {
+  const output: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+  let quote: string[] = [];
+  let code: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length) output.push(`<p>${renderMarkdownInline(paragraph.join(' '))}</p>`);
+    if (list) output.push(`<${list.tag}>${list.items.map(item => `<li>${renderMarkdownInline(item)}</li>`).join('')}</${list.tag}>`);
+    if (quote.length) output.push(`<blockquote>${renderMarkdownInline(quote.join(' '))}</blockquote>`);
+    paragraph = [];
+    list = null;
+    quote = [];
+  };
+
+  markdown.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    if (code) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        output.push(`<pre>${escapeHtml(code.join('\n'))}</pre>`);
+        code = null;
+      } else {
+        code.push(line);
+      }
+      return;
+    }
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      code = [];
+      return;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const unordered = line.match(/^\s*[-*+]\s+(.*)$/);
+    const ordered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    const blockquote = line.match(/^\s*>\s?(.*)$/);
+
+    if (!line.trim()) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = heading[1].length;
+      output.push(`<h${level}>${renderMarkdownInline(heading[2])}</h${level}>`);
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      output.push('<p>* * *</p>');
+    } else if (unordered || ordered) {
+      const tag = unordered ? 'ul' : 'ol';
+      if (!list || list.tag !== tag) {
+        flush();
+        list = { tag, items: [] };
+      }
+      list.items.push((unordered || ordered)![1]);
+    } else if (blockquote) {
+      if (paragraph.length || list) flush();
+      quote.push(blockquote[1]);
+    } else if (list) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (quote.length) flush();
+      paragraph.push(line.trim());
+    }
+  });
+  if (code) output.push(`<pre>${escapeHtml((code as string[]).join('\n'))}</pre>`);
+  flush();
+  return output.join('\n');
+};
+
+const getHtmlBody = (html: string): string => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return document.body.innerHTML;
+};
+
+export const fileToRaw = (format: ImportFormat, text: string): RawDraftContentState => {
+  switch (format) {
+    case 'markdown':
+      return htmlToRaw(markdownToHtml(text));
+    case 'html':
+      return htmlToRaw(getHtmlBody(text));
+    case 'text':
+      return plainTextToRaw(text);
+  }
+};
+
+const withUsedEntities = (blocks: RawDraftContentBlock[], entityMap: RawDraftContentState['entityMap']): RawDraftContentState => {
+  const usedKeys = new Set(blocks.flatMap(block => block.entityRanges.map(range => String(range.key))));
+  return {
+    blocks: blocks.length > 0 ? blocks : [createBlock('')],
+    entityMap: Object.keys(entityMap)
+      .filter(key => usedKeys.has(key))
+      .reduce((used, key) => ({ ...used, [key]: entityMap[key] }), {}),
+  };
+};
+
+export const splitAtHeadings = (
+  raw: RawDraftContentState,
+  fallbackName: string,
+  headingType: ImportOptions['headingType']
+): { name: string; raw: RawDraftContentState }[] => {
+  const sections: { name: string; blocks: RawDraftContentBlock[] }[] = [];
+  raw.blocks.forEach(block => {
+    if (block.type === headingType) {
+      sections.push({ name: block.text.trim() || fallbackName, blocks: [] });
+    } else if (sections.length === 0) {
+      if (block.text.trim() || block.type === 'atomic') sections.push({ name: fallbackName, blocks: [block] });
+    } else {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  });
+  if (sections.length === 0) return [{ name: fallbackName, raw }];
+  return sections.map(section => ({ name: section.name, raw: withUsedEntities(section.blocks, raw.entityMap) }));
+};
+
+export const createChapterFromRaw = (name: string, raw: RawDraftContentState): Project => ({
+  id: generateId(),
+  name,
+  type: 'chapter',
+  children: [],
+  content: JSON.stringify(raw),
+  metadata: withWordCountMetadata(createDefaultMetadata(), raw.blocks.map(block => block.text).join('\n')),
+});
+
+export const importChapters = (fileName: string, text: string, options: ImportOptions): Project[] => {
+  const format = getImportFormat(fileName);
+  if (!format) {
+    throw new Error(`Unsupported file type: ${fileName}`);
+  }
+  const raw = fileToRaw(format, text);
+  const name = stripExtension(fileName);
+  const sections = options.splitAtHeadings ? splitAtHeadings(raw, name, options.headingType) : [{ name, raw }];
+  return sections.map(section => createChapterFromRaw(section.name, section.raw));
+};
@@ -0,0 +1,15 @@
+import { ProjectMetadata } from '../types';
+
+export const createDefaultMetadata = (overrides: Partial<ProjectMetadata> = {}): ProjectMetadata => ({
+  status: 'Not Started',
+  wordCountGoal: 0,
+  actualWordCount: 0,
+  lastModified: new Date().toISOString(),
+  creationDate: new Date().toISOString(),
+  completionPercentage: 0,
+  tags: [],
+  author: '',
+  estimatedReadingTime: 0,
+  version: '1.0',
+  ...overrides,
+});
@@ -0,0 +1,80 @@
+import { node } from '../testUtils';
+import { MetadataSchema } from '../types';
+import { createDefaultMetadata } from './metadata';
+import {
+  collectStatuses,
+  countFieldUsage,
+  defaultMetadataSchema,
+  getMetadataSchema,
+  getStatusColor,
+  matchesFieldFilter,
+  removeField,
+  renameStatus,
+  setFieldValue,
+} from './metadataSchema';
+import { findNode } from './tree';
+
+const schema: MetadataSchema = {
+  statuses: [
+    { name: 'Outline', color: 'blue' },
+    { name: 'Draft', color: 'yellow' },
+    { name: 'Done', color: 'green' },
+  ],
+  fields: [
+    { id: 'pov', name: 'POV', type: 'select', options: [{ value: 'Anna', color: 'red' }, { value: 'Ben', color: 'blue' }] },
+    { id: 'notes', name: 'Notes', type: 'text', options: [] },
+  ],
+};
+
+const project = node(
+  1,
+  'project',
+  [
+    node(2, 'chapter', [], { metadata: { status: 'Draft', customFields: { pov: 'Anna' } } }),
+    node(3, 'chapter', [], { metadata: { status: 'Done', customFields: { notes: 'Check dates' } } }),
+  ],
+  { metadataSchema: schema }
+);
+
+test('getMetadataSchema uses the default workflow for projects without one', () => {
+  const legacy = node(4, 'folder', [node(5, 'chapter')]);
+  expect(getMetadataSchema([project, legacy], 2)).toBe(schema);
+  expect(getMetadataSchema([project, legacy], 5)).toBe(defaultMetadataSchema);
+  expect(getStatusColor(schema, 'Done')).toBe('bg-green-500');
+  expect(getStatusColor(schema, 'Removed')).toBe('bg-gray-400');
+});
+
+test('renameStatus carries items over to the new name', () => {
+  const renamed = renameStatus(project, 'Draft', 'First Draft');
+  expect(renamed.metadataSchema?.statuses.map(status => status.name)).toEqual(['Outline', 'First Draft', 'Done']);
+  expect(findNode([renamed], 2)?.metadata.status).toBe('First Draft');
+  expect(findNode([renamed], 3)?.metadata.status).toBe('Done');
+});
+
+test('removeField deletes the definition and its values', () => {
+  expect(countFieldUsage(project, 'pov')).toBe(1);
+  const updated = removeField(project, 'pov');
+  expect(updated.metadataSchema?.fields.map(field => field.id)).toEqual(['notes']);
+  expect(findNode([updated], 2)?.metadata.customFields).toEqual({});
+  expect(findNode([updated], 3)?.metadata.customFields).toEqual({ notes: 'Check dates' });
+});
+
+test('setFieldValue drops cleared values', () => {
+  const metadata = createDefaultMetadata({ customFields: { pov: 'Anna' } });
+  expect(setFieldValue(metadata, 'pov', []).customFields).toEqual({});
+  expect(setFieldValue(metadata, 'draft', 2).customFields).toEqual({ pov: 'Anna', draft: 2 });
+});
+
+test('matchesFieldFilter compares choices exactly and text by substring', () => {
+  const metadata = createDefaultMetadata({ customFields: { pov: 'Anna', notes: 'Check dates', threads: ['Heist', 'Romance'] } });
+  expect(matchesFieldFilter(metadata, { fieldId: 'pov', type: 'select', value: 'Anna' })).toBe(true);
+  expect(matchesFieldFilter(metadata, { fieldId: 'pov', type: 'select', value: 'Ann' })).toBe(false);
+  expect(matchesFieldFilter(metadata, { fieldId: 'notes', type: 'text', value: 'DATES' })).toBe(true);
+  expect(matchesFieldFilter(metadata, { fieldId: 'threads', type: 'multiselect', value: 'Romance' })).toBe(true);
+  expect(matchesFieldFilter(metadata, { fieldId: 'threads', type: 'multiselect', value: '' })).toBe(true);
+  expect(matchesFieldFilter(metadata, { fieldId: 'missing', type: 'text', value: '' })).toBe(false);
+});
+
+test('collectStatuses lists every project workflow without duplicates', () => {
+  expect(collectStatuses([project, node(4, 'chapter')])).toEqual(['Outline', 'Draft', 'Done', 'Not Started', 'In Progress', 'Completed']);
+});
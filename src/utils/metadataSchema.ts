@@ -0,0 +1,132 @@
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, FieldOption, LabelColor, MetadataSchema, Project, ProjectMetadata, StatusDefinition } from '../types';
+import { findRootProject, flattenTree, generateId } from './tree';
+
+export const LABEL_COLORS: LabelColor[] = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'];
+
+// Written out in full so Tailwind keeps the classes.
+export const labelColorClassNames: Record<LabelColor, string> = {
+  gray: 'bg-gray-400',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-500',
+  green: 'bg-green-500',
+  teal: 'bg-teal-500',
+  blue: 'bg-blue-500',
+  indigo: 'bg-indigo-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+};
+
+export const FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'select', label: 'Single select' },
+  { type: 'multiselect', label: 'Multi-select' },
+  { type: 'label', label: 'Label' },
+];
+
+export const DEFAULT_STATUSES: StatusDefinition[] = [
+  { name: 'Not Started', color: 'gray' },
+  { name: 'In Progress', color: 'yellow' },
+  { name: 'Completed', color: 'green' },
+];
+
+export const defaultMetadataSchema: MetadataSchema = { statuses: DEFAULT_STATUSES, fields: [] };
+
+export const hasOptions = (type: CustomFieldType): boolean => type === 'select' || type === 'multiselect' || type === 'label';
+
+// Projects created before schemas existed, and items in the trash, use the
+// default statuses and no custom fields.
+export const getMetadataSchema = (projects: Project[], id: number): MetadataSchema => {
+  return findRootProject(projects, id)?.metadataSchema || defaultMetadataSchema;
+};
+
+export const getStatusColor = (schema: MetadataSchema, status: string): string => {
+  return labelColorClassNames[schema.statuses.find(definition => definition.name === status)?.color || 'gray'];
+};
+
+export const getOptionColor = (field: CustomFieldDefinition, value: string): string => {
+  return labelColorClassNames[field.options.find(option => option.value === value)?.color || 'gray'];
+};
+
+export const createFieldDefinition = (name: string, type: CustomFieldType): CustomFieldDefinition => ({
+  id: `field-${generateId()}`,
+  name,
+  type,
+  options: [],
+});
+
+export const createFieldOption = (field: CustomFieldDefinition, value: string): FieldOption => ({
+  value,
+  color: LABEL_COLORS[field.options.length % LABEL_COLORS.length],
+});
+
+export const isEmptyFieldValue = (value: CustomFieldValue | undefined): value is undefined => {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+};
+
+export const formatFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.type === 'date' && typeof value === 'string') return new Date(`${value}T00:00:00`).toLocaleDateString();
+  return String(value);
+};
+
+// Sets one field, dropping it from the metadata entirely when it is cleared.
+export const setFieldValue = (metadata: ProjectMetadata, fieldId: string, value: CustomFieldValue | undefined): ProjectMetadata => {
+  const { [fieldId]: _previous, ...rest } = metadata.customFields || {};
+  return { ...metadata, customFields: isEmptyFieldValue(value) ? rest : { ...rest, [fieldId]: value } };
+};
+
+const mapTree = (node: Project, update: (node: Project) => Project): Project => {
+  return update({ ...node, children: node.children.map(child => mapTree(child, update)) });
+};
+
+// Renaming a status carries every item in the project over to the new name.
+export const renameStatus = (project: Project, from: string, to: string): Project => {
+  const schema = project.metadataSchema || defaultMetadataSchema;
+  const renamed = mapTree(project, node => (node.metadata.status === from ? { ...node, metadata: { ...node.metadata, status: to } } : node));
+  return {
+    ...renamed,
+    metadataSchema: { ...schema, statuses: schema.statuses.map(status => (status.name === from ? { ...status, name: to } : status)) },
+  };
+};
+
+export const removeField = (project: Project, fieldId: string): Project => {
+  const schema = project.metadataSchema || defaultMetadataSchema;
+  const cleared = mapTree(project, node =>
+    node.metadata.customFields?.[fieldId] !== undefined ? { ...node, metadata: setFieldValue(node.metadata, fieldId, undefined) } : node
+  );
+  return { ...cleared, metadataSchema: { ...schema, fields: schema.fields.filter(field => field.id !== fieldId) } };
+};
+
+// Search filter on one custom field. An empty value matches any item where
+// the field is filled in; text fields match on a substring.
+export interface FieldFilter {
+  fieldId: string;
+  type: CustomFieldType;
+  value: string;
+}
+
+export const matchesFieldFilter = (metadata: ProjectMetadata, filter: FieldFilter): boolean => {
+  const value = metadata.customFields?.[filter.fieldId];
+  if (isEmptyFieldValue(value)) return false;
+  if (!filter.value) return true;
+  if (Array.isArray(value)) return value.includes(filter.value);
+  if (filter.type === 'text') return String(value).toLowerCase().includes(filter.value.toLowerCase());
+  return String(value) === filter.value;
+};
+
+// Every status name in use by any project's schema, in schema order.
+export const collectStatuses = (projects: Project[]): string[] => {
+  const names = projects.flatMap(project => (project.metadataSchema || defaultMetadataSchema).statuses.map(status => status.name));
+  return Array.from(new Set(names));
+};
+
+export const collectFieldDefinitions = (projects: Project[]): { project: Project; field: CustomFieldDefinition }[] => {
+  return projects.flatMap(project => (project.metadataSchema?.fields || []).map(field => ({ project, field })));
+};
+
+export const countFieldUsage = (project: Project, fieldId: string): number => {
+  return flattenTree([project]).filter(entry => !isEmptyFieldValue(entry.node.metadata.customFields?.[fieldId])).length;
+};
@@ -0,0 +1,46 @@
+import { node } from '../testUtils';
+import { createDefaultMetadata } from './metadata';
+import { applyBulkChange, getOutlinerRows, parseTags, sortOutlinerRows } from './outliner';
+
+const project = node(
+  1,
+  'project',
+  [
+    node(
+      2,
+      'folder',
+      [
+        node(3, 'chapter', [], { name: 'Beginning', metadata: { actualWordCount: 300, wordCountGoal: 600 } }),
+        node(4, 'chapter', [], { name: 'Middle', metadata: { actualWordCount: 100 } }),
+      ],
+      { name: 'Part One' }
+    ),
+    node(5, 'chapter', [], { name: 'Aftermath', metadata: { actualWordCount: 200 } }),
+  ],
+  { name: 'Novel' }
+);
+
+test('getOutlinerRows keeps tree order and rolls up folders', () => {
+  const rows = getOutlinerRows(project);
+  expect(rows.map(row => [row.node.id, row.depth])).toEqual([[2, 0], [3, 1], [4, 1], [5, 0]]);
+  expect(rows[0]).toMatchObject({ words: 400, goal: 600 });
+  expect(rows[1].progress).toBe(50);
+});
+
+test('sortOutlinerRows sorts by name and numbers in both directions', () => {
+  const rows = getOutlinerRows(project);
+  expect(sortOutlinerRows(rows, { key: 'name', direction: 'asc' }).map(row => row.node.name)).toEqual(['Aftermath', 'Beginning', 'Middle', 'Part One']);
+  expect(sortOutlinerRows(rows, { key: 'words', direction: 'desc' }).map(row => row.node.id)).toEqual([2, 3, 5, 4]);
+  expect(sortOutlinerRows(rows, null)).toBe(rows);
+});
+
+test('applyBulkChange sets status and adds or removes tags', () => {
+  const metadata = createDefaultMetadata({ tags: ['draft'] });
+  expect(applyBulkChange(metadata, { status: 'Completed', addTag: 'final' })).toMatchObject({ status: 'Completed', tags: ['draft', 'final'] });
+  expect(applyBulkChange(metadata, { addTag: 'draft' }).tags).toEqual(['draft']);
+  expect(applyBulkChange(metadata, { removeTag: 'draft' }).tags).toEqual([]);
+});
+
+test('parseTags trims, drops empties and duplicates', () => {
+  expect(parseTags(' a, b,, a ,')).toEqual(['a', 'b']);
+});
@@ -0,0 +1,89 @@
+import { Project, ProjectMetadata } from '../types';
+import { calculateNodeStats, LiveWordCounts } from './stats';
+import { flattenTree } from './tree';
+
+export type OutlinerColumn = 'synopsis' | 'status' | 'tags' | 'words' | 'goal' | 'progress' | 'lastModified';
+
+export type OutlinerSortKey = 'name' | OutlinerColumn;
+
+export const OUTLINER_COLUMNS: { key: OutlinerColumn; label: string }[] = [
+  { key: 'synopsis', label: 'Synopsis' },
+  { key: 'status', label: 'Status' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'words', label: 'Words' },
+  { key: 'goal', label: 'Goal' },
+  { key: 'progress', label: 'Progress' },
+  { key: 'lastModified', label: 'Last Modified' },
+];
+
+export interface OutlinerRow {
+  node: Project;
+  depth: number;
+  words: number;
+  goal: number;
+  progress: number;
+}
+
+export interface OutlinerSort {
+  key: OutlinerSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface BulkMetadataChange {
+  status?: string;
+  addTag?: string;
+  removeTag?: string;
+}
+
+export const parseTags = (text: string): string[] => {
+  return Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(tag => tag)));
+};
+
+// Folders show the totals of everything inside them, like the metadata panel.
+export const getOutlinerRows = (parent: Project, liveCounts: LiveWordCounts = {}): OutlinerRow[] => {
+  return flattenTree(parent.children).map(({ node, depth }) => {
+    const stats = calculateNodeStats(node, liveCounts);
+    return { node, depth, words: stats.totalWords, goal: stats.goal, progress: stats.completionPercentage };
+  });
+};
+
+const getSortValue = (row: OutlinerRow, key: OutlinerSortKey): string | number => {
+  switch (key) {
+    case 'name':
+      return row.node.name.toLowerCase();
+    case 'synopsis':
+      return (row.node.metadata.synopsis || '').toLowerCase();
+    case 'status':
+      return row.node.metadata.status;
+    case 'tags':
+      return row.node.metadata.tags.join(', ').toLowerCase();
+    case 'words':
+      return row.words;
+    case 'goal':
+      return row.goal;
+    case 'progress':
+      return row.progress;
+    case 'lastModified':
+      return row.node.metadata.lastModified;
+  }
+};
+
+// A sorted outliner is shown flat; the tree order only makes sense unsorted.
+export const sortOutlinerRows = (rows: OutlinerRow[], sort: OutlinerSort | null): OutlinerRow[] => {
+  if (!sort) return rows;
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const valueA = getSortValue(a, sort.key);
+    const valueB = getSortValue(b, sort.key);
+    if (valueA < valueB) return -direction;
+    if (valueA > valueB) return direction;
+    return 0;
+  });
+};
+
+export const applyBulkChange = (metadata: ProjectMetadata, change: BulkMetadataChange): ProjectMetadata => {
+  let tags = metadata.tags;
+  if (change.addTag && !tags.includes(change.addTag)) tags = [...tags, change.addTag];
+  if (change.removeTag) tags = tags.filter(tag => tag !== change.removeTag);
+  return { ...metadata, ...(change.status ? { status: change.status } : {}), tags };
+};
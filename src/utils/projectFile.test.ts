@@ -0,0 +1,90 @@
+import { createManualCollection } from '../collections/collections';
+import { node } from '../testUtils';
+import { createProjectFile, mergeProjects, parseProjectFile, PROJECT_FILE_VERSION } from './projectFile';
+import { findNode } from './tree';
+
+// An export of one project with one chapter whose metadata the Project type
+// wouldn't allow.
+const fileWithChapterMetadata = (changes: Record<string, unknown>): string => {
+  const file = createProjectFile([node(1, 'project', [node(2, 'chapter', [], { name: 'One' })], { name: 'Novel' })]);
+  const [project] = file.projects;
+  const [chapter] = project.children;
+  return JSON.stringify({ ...file, projects: [{ ...project, children: [{ ...chapter, metadata: { ...chapter.metadata, ...changes } }] }] });
+};
+
+test('parseProjectFile round-trips an export', () => {
+  const projects = [node(1, 'project', [node(2, 'chapter', [], { name: 'One' })], { name: 'Novel' })];
+  const result = parseProjectFile(JSON.stringify(createProjectFile(projects)));
+  expect(result.ok && result.file.projects).toEqual(projects);
+});
+
+test('parseProjectFile migrates a legacy bare array with missing fields', () => {
+  const legacy = [{ id: 1, name: 'Old', type: 'chapter', children: [], versions: [{ content: '{}', timestamp: '2024-01-01' }], metadata: { status: 'In Progress' } }];
+  const result = parseProjectFile(JSON.stringify(legacy));
+  if (!result.ok) throw new Error(result.errors.join('\n'));
+  expect(result.file.formatVersion).toBe(PROJECT_FILE_VERSION);
+  expect(result.file.projects[0].metadata.status).toBe('In Progress');
+  expect(result.file.projects[0].metadata.tags).toEqual([]);
+  expect(result.file.projects[0].versions?.[0].id).toBe(1);
+});
+
+test('parseProjectFile reports where the file is invalid', () => {
+  const result = parseProjectFile(fileWithChapterMetadata({ status: 3 }));
+  expect(result.ok).toBe(false);
+  expect(!result.ok && result.errors).toEqual(['projects[0].children[0].metadata.status must be a string']);
+});
+
+test('parseProjectFile recomputes completion stored as NaN', () => {
+  const result = parseProjectFile(fileWithChapterMetadata({ completionPercentage: NaN }));
+  if (!result.ok) throw new Error(result.errors.join('\n'));
+  expect(result.file.projects[0].children[0].metadata.completionPercentage).toBe(0);
+});
+
+test('parseProjectFile carries collections and rejects malformed ones', () => {
+  const collection = createManualCollection('Picks', [2]);
+  const result = parseProjectFile(JSON.stringify(createProjectFile([node(1, 'project', [node(2, 'chapter', [], { name: 'One' })], { name: 'Novel' })], [collection])));
+  expect(result.ok && result.file.collections).toEqual([collection]);
+  const broken = parseProjectFile(JSON.stringify({ ...createProjectFile([]), collections: [{ id: 'x' }] }));
+  expect(!broken.ok && broken.errors).toEqual(['collections must be a list of collections']);
+});
+
+test('parseProjectFile rejects reserved ids such as the trash', () => {
+  const result = parseProjectFile(JSON.stringify(createProjectFile([node(-1, 'project', [node(0, 'chapter')])])));
+  expect(!result.ok && result.errors).toEqual(['projects[0].id must be a positive whole number', 'projects[0].children[0].id must be a positive whole number']);
+});
+
+test('parseProjectFile rejects non-JSON and newer formats', () => {
+  expect(parseProjectFile('{').ok).toBe(false);
+  expect(parseProjectFile(JSON.stringify({ ...createProjectFile([]), formatVersion: PROJECT_FILE_VERSION + 1 })).ok).toBe(false);
+});
+
+test('mergeProjects keep-both renumbers clashing ids', () => {
+  const existing = [node(1, 'project', [node(2, 'chapter', [], { name: 'One' })], { name: 'Mine' })];
+  const merged = mergeProjects(existing, [node(1, 'project', [node(2, 'chapter', [], { name: 'Uno' })], { name: 'Theirs' })], 'keep-both');
+  expect(merged.map(project => project.name)).toEqual(['Mine', 'Theirs']);
+  expect(merged[1].id).not.toBe(1);
+  expect(merged[1].children[0].id).not.toBe(2);
+  expect(findNode(merged, 2)?.name).toBe('One');
+});
+
+test('mergeProjects records the ids it renumbers', () => {
+  const renumbered = new Map<number, number>();
+  const merged = mergeProjects([node(1, 'chapter', [], { name: 'Mine' })], [node(1, 'project', [node(2, 'chapter', [], { name: 'Uno' })], { name: 'Theirs' })], 'keep-both', renumbered);
+  expect(Array.from(renumbered.entries())).toEqual([[1, merged[1].id]]);
+});
+
+test('mergeProjects replace-matching swaps projects in place', () => {
+  const existing = [node(1, 'chapter', [], { name: 'First' }), node(3, 'chapter', [], { name: 'Second' })];
+  const merged = mergeProjects(existing, [node(1, 'chapter', [], { name: 'Updated' }), node(4, 'chapter', [], { name: 'New' })], 'replace-matching');
+  expect(merged.map(project => project.name)).toEqual(['Updated', 'Second', 'New']);
+});
+
+test('mergeProjects replace-matching only matches top-level ids', () => {
+  const existing = [node(1, 'project', [node(5, 'chapter', [], { name: 'Nested' })], { name: 'First' }), node(3, 'chapter', [], { name: 'Second' })];
+  const merged = mergeProjects(existing, [node(3, 'project', [node(1, 'chapter', [], { name: 'Clash' })], { name: 'Updated' }), node(5, 'chapter', [], { name: 'Other' })], 'replace-matching');
+  expect(merged.map(project => project.name)).toEqual(['First', 'Updated', 'Other']);
+  expect(merged[1].id).toBe(3);
+  expect(merged[1].children[0].id).not.toBe(1);
+  expect(merged[2].id).not.toBe(5);
+  expect(findNode(merged, 5)?.name).toBe('Nested');
+});
@@ -0,0 +1,289 @@
+import { Collection, isCollection } from '../collections/collections';
+import { Project } from '../types';
+import { createDefaultMetadata } from './metadata';
+import { FIELD_TYPES, LABEL_COLORS } from './metadataSchema';
+import { flattenTree, generateId } from './tree';
+import { calculateCompletion } from './textAnalysis';
+import { isObject } from './validation';
+
+export const PROJECT_FILE_FORMAT = 'swriter-projects';
+export const PROJECT_FILE_VERSION = 1;
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  projects: Project[];
+  collections?: Collection[];
+}
+
+export type ProjectFileResult = { ok: true; file: ProjectFile } | { ok: false; errors: string[] };
+
+export type MergeStrategy = 'keep-both' | 'replace-matching' | 'replace-all';
+
+const NODE_TYPES = ['project', 'folder', 'chapter', 'research', 'note', 'attachment'];
+const MAX_REPORTED_ERRORS = 20;
+
+export const createProjectFile = (projects: Project[], collections: Collection[] = []): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  formatVersion: PROJECT_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  projects,
+  collections,
+});
+
+// Exports written before the envelope existed were a bare array of nodes, and
+// the old "New Version" button saved versions without ids. Fill in whatever
+// those files are missing so they pass validation.
+const migrateLegacyNode = (node: unknown): unknown => {
+  if (!isObject(node)) return node;
+  return {
+    ...node,
+    children: Array.isArray(node.children) ? node.children.map(migrateLegacyNode) : [],
+    metadata: createDefaultMetadata(isObject(node.metadata) ? node.metadata : {}),
+    ...(Array.isArray(node.versions)
+      ? { versions: node.versions.map((version: unknown, index: number) => (isObject(version) && version.id === undefined ? { ...version, id: index + 1 } : version)) }
+      : {}),
+  };
+};
+
+const migrations: Record<number, (data: unknown) => unknown> = {
+  0: data => ({
+    format: PROJECT_FILE_FORMAT,
+    formatVersion: 1,
+    exportedAt: new Date(0).toISOString(),
+    projects: Array.isArray(data) ? data.map(migrateLegacyNode) : [],
+  }),
+};
+
+// Older versions stored NaN (written to JSON as null) as the completion of
+// chapters without a goal. Recompute it rather than rejecting the file.
+// Anything that isn't a node is returned as it is for validation to report.
+const repairNode = (node: unknown): unknown => {
+  if (!isObject(node)) return node;
+  const metadata = node.metadata;
+  const needsRepair = isObject(metadata) && metadata.completionPercentage === null;
+  return {
+    ...node,
+    ...(needsRepair
+      ? { metadata: { ...metadata, completionPercentage: calculateCompletion(Number(metadata.actualWordCount) || 0, Number(metadata.wordCountGoal) || 0) } }
+      : {}),
+    ...(Array.isArray(node.children) ? { children: node.children.map(repairNode) } : {}),
+  };
+};
+
+const getFormatVersion = (data: unknown): number | null => {
+  if (Array.isArray(data)) return 0;
+  if (isObject(data) && data.format === PROJECT_FILE_FORMAT && typeof data.formatVersion === 'number') return data.formatVersion;
+  return null;
+};
+
+const validateMetadata = (metadata: unknown, path: string, errors: string[]) => {
+  if (!isObject(metadata)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof metadata.status !== 'string') errors.push(`${path}.status must be a string`);
+  ['wordCountGoal', 'actualWordCount', 'completionPercentage', 'estimatedReadingTime'].forEach(field => {
+    if (typeof metadata[field] !== 'number') errors.push(`${path}.${field} must be a number`);
+  });
+  ['lastModified', 'creationDate', 'author', 'version'].forEach(field => {
+    if (typeof metadata[field] !== 'string') errors.push(`${path}.${field} must be a string`);
+  });
+  if (metadata.synopsis !== undefined && typeof metadata.synopsis !== 'string') errors.push(`${path}.synopsis must be a string`);
+  if (!Array.isArray(metadata.tags) || metadata.tags.some((tag: unknown) => typeof tag !== 'string')) {
+    errors.push(`${path}.tags must be a list of strings`);
+  }
+  if (metadata.customFields !== undefined) {
+    const isFieldValue = (value: unknown) =>
+      typeof value === 'string' || typeof value === 'number' || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+    if (!isObject(metadata.customFields) || !Object.values(metadata.customFields).every(isFieldValue)) {
+      errors.push(`${path}.customFields must map field ids to text, numbers or lists of text`);
+    }
+  }
+};
+
+const isColored = (value: unknown, key: string) => isObject(value) && typeof value[key] === 'string' && LABEL_COLORS.some(color => color === value.color);
+
+const validateMetadataSchema = (schema: unknown, path: string, errors: string[]) => {
+  if (!isObject(schema)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!Array.isArray(schema.statuses) || schema.statuses.length === 0 || !schema.statuses.every((status: unknown) => isColored(status, 'name'))) {
+    errors.push(`${path}.statuses must be a non-empty list of names with colors`);
+  }
+  if (!Array.isArray(schema.fields)) {
+    errors.push(`${path}.fields must be a list`);
+    return;
+  }
+  schema.fields.forEach((field: unknown, index: number) => {
+    if (
+      !isObject(field) ||
+      typeof field.id !== 'string' ||
+      typeof field.name !== 'string' ||
+      !FIELD_TYPES.some(fieldType => fieldType.type === field.type) ||
+      !Array.isArray(field.options) ||
+      !field.options.every((option: unknown) => isColored(option, 'value'))
+    ) {
+      errors.push(`${path}.fields[${index}] must have an id, name, type and options`);
+    }
+  });
+};
+
+const validateWritingLog = (log: unknown, path: string, errors: string[]) => {
+  if (!isObject(log)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof log.sessionTarget !== 'number') errors.push(`${path}.sessionTarget must be a number`);
+  if (log.deadline !== undefined && typeof log.deadline !== 'string') errors.push(`${path}.deadline must be a string`);
+  if (!Array.isArray(log.days) || log.days.some((day: unknown) => !isObject(day) || typeof day.date !== 'string' || typeof day.words !== 'number')) {
+    errors.push(`${path}.days must be a list of dates with word counts`);
+  }
+};
+
+// Reports every problem with a node and its children, and is true only when
+// there were none.
+const validateNode = (node: unknown, path: string, errors: string[]): node is Project => {
+  if (!isObject(node)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+  const errorCount = errors.length;
+  // Ids of zero and below are reserved, e.g. -1 is the trash.
+  if (typeof node.id !== 'number' || !Number.isInteger(node.id) || node.id <= 0) errors.push(`${path}.id must be a positive whole number`);
+  if (typeof node.name !== 'string') errors.push(`${path}.name must be a string`);
+  if (typeof node.type !== 'string' || !NODE_TYPES.includes(node.type)) errors.push(`${path}.type must be one of ${NODE_TYPES.join(', ')}`);
+  if (node.content !== undefined && typeof node.content !== 'string') errors.push(`${path}.content must be a string`);
+  if (node.versions !== undefined) {
+    if (!Array.isArray(node.versions)) {
+      errors.push(`${path}.versions must be a list`);
+    } else {
+      node.versions.forEach((version: unknown, index: number) => {
+        if (!isObject(version) || typeof version.id !== 'number' || typeof version.content !== 'string' || typeof version.timestamp !== 'string') {
+          errors.push(`${path}.versions[${index}] must have a numeric id, content and timestamp`);
+        }
+      });
+    }
+  }
+  if (node.attachment !== undefined) {
+    const { attachment } = node;
+    if (!isObject(attachment) || typeof attachment.fileName !== 'string' || typeof attachment.mimeType !== 'string' || typeof attachment.dataUrl !== 'string') {
+      errors.push(`${path}.attachment must have a fileName, mimeType and dataUrl`);
+    }
+  }
+  if (node.writingLog !== undefined) validateWritingLog(node.writingLog, `${path}.writingLog`, errors);
+  if (node.metadataSchema !== undefined) validateMetadataSchema(node.metadataSchema, `${path}.metadataSchema`, errors);
+  validateMetadata(node.metadata, `${path}.metadata`, errors);
+  if (!Array.isArray(node.children)) {
+    errors.push(`${path}.children must be a list`);
+  } else {
+    node.children.forEach((child: unknown, index: number) => validateNode(child, `${path}.children[${index}]`, errors));
+  }
+  return errors.length === errorCount;
+};
+
+export const parseProjectFile = (text: string): ProjectFileResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`The file is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  let version = getFormatVersion(data);
+  if (version === null) {
+    return { ok: false, errors: ['The file is not a project export.'] };
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    return { ok: false, errors: [`The file was written by a newer version of the app (format ${version}).`] };
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    data = migrations[version](data);
+    version++;
+  }
+
+  if (!isObject(data) || !Array.isArray(data.projects)) {
+    return { ok: false, errors: ['projects must be a list'] };
+  }
+  const errors: string[] = [];
+  const projects: Project[] = [];
+  data.projects.forEach((value: unknown, index: number) => {
+    const project = repairNode(value);
+    if (validateNode(project, `projects[${index}]`, errors)) projects.push(project);
+  });
+  const collections: Collection[] = [];
+  const importedCollections = data.collections === undefined ? [] : data.collections;
+  if (Array.isArray(importedCollections) && importedCollections.every(isCollection)) {
+    collections.push(...importedCollections);
+  } else {
+    errors.push('collections must be a list of collections');
+  }
+  if (errors.length > 0) {
+    return {
+      ok: false,
+      errors: errors.length > MAX_REPORTED_ERRORS ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${errors.length - MAX_REPORTED_ERRORS} more`] : errors,
+    };
+  }
+  return {
+    ok: true,
+    file: {
+      format: PROJECT_FILE_FORMAT,
+      formatVersion: PROJECT_FILE_VERSION,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date(0).toISOString(),
+      projects,
+      collections,
+    },
+  };
+};
+
+const collectIds = (projects: Project[]) => new Set(flattenTree(projects).map(entry => entry.node.id));
+
+const renumberClashes = (node: Project, takenIds: Set<number>, renumbered: Map<number, number>): Project => {
+  const id = takenIds.has(node.id) ? generateId() : node.id;
+  takenIds.add(id);
+  if (id !== node.id) renumbered.set(node.id, id);
+  return { ...node, id, children: node.children.map(child => renumberClashes(child, takenIds, renumbered)) };
+};
+
+export const countIdClashes = (existing: Project[], imported: Project[]): number => {
+  const existingIds = collectIds(existing);
+  return flattenTree(imported).filter(entry => existingIds.has(entry.node.id)).length;
+};
+
+// Ids the merge had to change are recorded in renumbered, old to new.
+export const mergeProjects = (
+  existing: Project[],
+  imported: Project[],
+  strategy: MergeStrategy,
+  renumbered = new Map<number, number>()
+): Project[] => {
+  if (strategy === 'replace-all') return imported;
+  if (strategy === 'keep-both') {
+    const takenIds = collectIds(existing);
+    return [...existing, ...imported.map(project => renumberClashes(project, takenIds, renumbered))];
+  }
+
+  // Imported projects replace existing top-level projects with the same id in
+  // place, keeping that id. Ids are only matched between top-level projects;
+  // anything else that clashes is renumbered, and unmatched projects are
+  // appended.
+  const topLevelIds = new Set(existing.map(project => project.id));
+  const matched = new Map<number, Project>();
+  const unmatched: Project[] = [];
+  imported.forEach(project => {
+    if (topLevelIds.has(project.id) && !matched.has(project.id)) {
+      matched.set(project.id, project);
+    } else {
+      unmatched.push(project);
+    }
+  });
+  const takenIds = collectIds(existing.filter(project => !matched.has(project.id)));
+  matched.forEach((_, id) => takenIds.add(id));
+  const replacements = new Map(
+    Array.from(matched.values(), project => [project.id, { ...project, children: project.children.map(child => renumberClashes(child, takenIds, renumbered)) }])
+  );
+  const appended = unmatched.map(project => renumberClashes(project, takenIds, renumbered));
+  return [...existing.map(project => replacements.get(project.id) || project), ...appended];
+};
@@ -0,0 +1,19 @@
+import { node } from '../testUtils';
+import { collectResearchItems, createAttachmentNode, findResearchFolder, getAttachmentKind } from './research';
+
+test('collectResearchItems lists notes and files from research folders only', () => {
+  const project = node(1, 'project', [
+    node(2, 'chapter'),
+    node(3, 'research', [node(4, 'note'), node(5, 'folder', [node(6, 'attachment'), node(7, 'chapter')])]),
+  ]);
+  expect(findResearchFolder(project)?.id).toBe(3);
+  expect(collectResearchItems(project).map(item => item.id)).toEqual([4, 6]);
+});
+
+test('attachments are named after the file and typed by mime type', () => {
+  const attachment = createAttachmentNode({ fileName: 'map.of.town.png', mimeType: 'image/png', dataUrl: 'data:image/png;base64,' });
+  expect(attachment.name).toBe('map.of.town');
+  expect(getAttachmentKind('image/png')).toBe('image');
+  expect(getAttachmentKind('application/pdf')).toBe('pdf');
+  expect(getAttachmentKind('text/plain')).toBeNull();
+});
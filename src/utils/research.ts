@@ -0,0 +1,44 @@
+import { Attachment, Project } from '../types';
+import { createDefaultMetadata } from './metadata';
+import { flattenTree, generateId } from './tree';
+
+export const RESEARCH_FILE_ACCEPT = 'image/*,application/pdf';
+
+export type AttachmentKind = 'image' | 'pdf';
+
+export const getAttachmentKind = (mimeType: string): AttachmentKind | null => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return null;
+};
+
+export const createResearchFolder = (): Project => ({
+  id: generateId(),
+  name: 'Research',
+  type: 'research',
+  children: [],
+  metadata: createDefaultMetadata(),
+});
+
+export const createAttachmentNode = (attachment: Attachment): Project => ({
+  id: generateId(),
+  name: attachment.fileName.replace(/\.[^.]+$/, ''),
+  type: 'attachment',
+  children: [],
+  attachment,
+  metadata: createDefaultMetadata(),
+});
+
+export const findResearchFolder = (project: Project): Project | null => {
+  return project.children.find(child => child.type === 'research') || null;
+};
+
+// Every note and file in a project's research folders, for picking one to
+// view next to the chapter being written.
+export const collectResearchItems = (project: Project): Project[] => {
+  return flattenTree(project.children)
+    .filter(entry => entry.node.type === 'research')
+    .flatMap(entry => flattenTree(entry.node.children))
+    .map(entry => entry.node)
+    .filter((node, index, nodes) => (node.type === 'note' || node.type === 'attachment') && nodes.indexOf(node) === index);
+};
@@ -0,0 +1,141 @@
+import { RawDraftContentState } from 'draft-js';
+import { Project } from '../types';
+import { createDefaultMetadata } from './metadata';
+import { buildSearchPattern, filterProjects, replaceInProjects, SearchOptions, searchProjects, undoReplace } from './search';
+import { findNode } from './tree';
+
+const rawContent = (blocks: Partial<RawDraftContentState['blocks'][number]>[]): string =>
+  JSON.stringify({
+    blocks: blocks.map((block, index) => ({
+      key: `b${index}`,
+      text: '',
+      type: 'unstyled',
+      depth: 0,
+      inlineStyleRanges: [],
+      entityRanges: [],
+      ...block,
+    })),
+    entityMap: {},
+  });
+
+const chapter = (id: number, name: string, content: string, overrides: Partial<Project['metadata']> = {}): Project => ({
+  id,
+  name,
+  type: 'chapter',
+  children: [],
+  content,
+  metadata: createDefaultMetadata(overrides),
+});
+
+const projects: Project[] = [
+  {
+    id: 1,
+    name: 'Novel',
+    type: 'project',
+    metadata: createDefaultMetadata(),
+    children: [
+      chapter(2, 'The Cat', rawContent([{ text: 'The cat sat. Concatenate the CAT.' }]), { tags: ['draft'] }),
+      chapter(3, 'Ending', rawContent([{ text: 'A cat is here', inlineStyleRanges: [{ style: 'BOLD', offset: 2, length: 3 }] }]), {
+        status: 'Completed',
+        customFields: { pov: 'Anna' },
+      }),
+    ],
+  },
+];
+
+const options = (overrides: Partial<SearchOptions> = {}): SearchOptions => ({
+  query: 'cat',
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  tag: '',
+  status: '',
+  field: null,
+  ...overrides,
+});
+
+test('searchProjects finds matches in names and content with snippets', () => {
+  const matches = searchProjects(projects, options());
+  expect(matches.filter(match => match.field === 'name').map(match => match.nodeId)).toEqual([2]);
+  expect(matches.filter(match => match.field === 'content')).toHaveLength(4);
+  expect(matches[1]).toMatchObject({ nodeId: 2, blockKey: 'b0', offset: 4, before: 'The ', match: 'cat', after: ' sat. Concatenate the CAT.' });
+});
+
+test('searchProjects honours case, whole word and regex options', () => {
+  expect(searchProjects(projects, options({ caseSensitive: true, wholeWord: true })).map(match => match.offset)).toEqual([4, 2]);
+  expect(searchProjects(projects, options({ query: 'c.t\\b', regex: true, caseSensitive: true })).map(match => match.match)).toEqual(['cat', 'cat']);
+});
+
+test('searchProjects filters by tag and status', () => {
+  expect(new Set(searchProjects(projects, options({ tag: 'draft' })).map(match => match.nodeId))).toEqual(new Set([2]));
+  expect(new Set(searchProjects(projects, options({ status: 'Completed' })).map(match => match.nodeId))).toEqual(new Set([3]));
+});
+
+test('filterProjects lists chapters matching a custom field without a query', () => {
+  const field = { fieldId: 'pov', type: 'select' as const, value: 'Anna' };
+  expect(filterProjects(projects, options({ query: '', field })).map(node => node.id)).toEqual([3]);
+  expect(filterProjects(projects, options({ query: '', field: { ...field, value: 'Ben' } }))).toEqual([]);
+});
+
+test('buildSearchPattern reports invalid regular expressions', () => {
+  expect(buildSearchPattern(options({ query: '(', regex: true })).error).toBeTruthy();
+});
+
+test('buildSearchPattern accepts patterns that are only valid without the u flag', () => {
+  const { pattern, error } = buildSearchPattern(options({ query: '[\\w-]+\\-x', regex: true }));
+  expect(error).toBeNull();
+  expect('well-known-x'.match(pattern!)).toEqual(['well-known-x']);
+});
+
+test('whole-word matching treats accented letters as part of a word', () => {
+  const count = (query: string, text: string) => text.match(buildSearchPattern(options({ query, wholeWord: true })).pattern!)?.length ?? 0;
+  expect(count('caf', 'un café')).toBe(0);
+  expect(count('été', 'un été chaud')).toBe(1);
+  expect(count('été', 'des étés chauds')).toBe(0);
+});
+
+test('replaceInProjects keeps styles attached and can be undone', () => {
+  const result = replaceInProjects(projects, options({ wholeWord: true }), 'dog');
+  expect(result.count).toBe(3);
+  expect(result.changes.map(change => change.id)).toEqual([2, 3]);
+
+  const ending = JSON.parse(findNode(result.projects, 3)!.content!);
+  expect(ending.blocks[0].text).toBe('A dog is here');
+  expect(ending.blocks[0].inlineStyleRanges).toEqual([{ style: 'BOLD', offset: 2, length: 3 }]);
+  expect(JSON.parse(findNode(result.projects, 2)!.content!).blocks[0].text).toBe('The dog sat. Concatenate the dog.');
+
+  const undone = undoReplace(result.projects, result.changes);
+  expect(undone.reverted).toBe(2);
+  expect(findNode(undone.projects, 3)!.content).toBe(findNode(projects, 3)!.content);
+});
+
+test('undoReplace keeps metadata edits made after the replace', () => {
+  const result = replaceInProjects(projects, options({ query: 'cat is here' }), 'cat naps');
+  const edited = result.projects.map(project => ({
+    ...project,
+    children: project.children.map(child => ({ ...child, metadata: { ...child.metadata, status: 'In Progress', tags: ['final'] } })),
+  }));
+  const ending = findNode(undoReplace(edited, result.changes).projects, 3)!;
+  expect(ending.metadata).toMatchObject({ status: 'In Progress', tags: ['final'], actualWordCount: 4 });
+});
+
+test('replaceInProjects expands groups in the context of the whole block', () => {
+  const chapters = [chapter(1, 'Names', rawContent([{ text: 'Mr. Smith met Smith. foobar foobaz' }]))];
+  const replace = (query: string, replacement: string) =>
+    JSON.parse(replaceInProjects(chapters, options({ query, regex: true, caseSensitive: true }), replacement).projects[0].content!).blocks[0].text;
+  expect(replace('(?<=Mr\\. )Smith', 'Jones')).toBe('Mr. Jones met Smith. foobar foobaz');
+  expect(replace('foo(?=bar)', '[$&]')).toBe('Mr. Smith met Smith. [foo]bar foobaz');
+  expect(replace('^(Mr)\\.', '$1s.')).toBe('Mrs. Smith met Smith. foobar foobaz');
+  expect(replace('(?<first>foo)(ba[rz])', '$2$<first>$$')).toBe('Mr. Smith met Smith. barfoo$ bazfoo$');
+});
+
+test('undoReplace leaves chapters edited after the replace alone', () => {
+  const result = replaceInProjects(projects, options(), 'dog');
+  const edited = result.projects.map(project => ({
+    ...project,
+    children: project.children.map(child => (child.id === 3 ? { ...child, content: rawContent([{ text: 'Rewritten' }]) } : child)),
+  }));
+  const undone = undoReplace(edited, result.changes);
+  expect(undone.skipped).toBe(1);
+  expect(JSON.parse(findNode(undone.projects, 3)!.content!).blocks[0].text).toBe('Rewritten');
+});
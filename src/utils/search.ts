@@ -0,0 +1,284 @@
+import { RawDraftContentBlock, RawDraftContentState } from 'draft-js';
+import { Project } from '../types';
+import { parseRawContent } from './content';
+import { FieldFilter, matchesFieldFilter } from './metadataSchema';
+import { flattenTree } from './tree';
+import { withWordCountMetadata } from './textAnalysis';
+
+export interface SearchOptions {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+  tag: string;
+  status: string;
+  field: FieldFilter | null;
+}
+
+export interface SearchMatch {
+  nodeId: number;
+  nodeName: string;
+  field: 'name' | 'content';
+  blockKey?: string;
+  // UTF-16 offsets, matching Draft.js SelectionState.
+  offset: number;
+  length: number;
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface ReplaceChange {
+  id: number;
+  before: string;
+  after: string;
+}
+
+const SNIPPET_CONTEXT = 30;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Word characters for whole-word matching. Without the u flag \p{…} isn't
+// available, so the fallback lists the Latin, Greek and Cyrillic letters.
+const WORD_CHARACTERS = { unicode: '[\\p{L}\\p{N}_]', legacy: '[\\w\\u00C0-\\u024F\\u0370-\\u052F]' };
+
+const compileSearchPattern = (query: string, options: SearchOptions, unicode: boolean) => {
+  const word = unicode ? WORD_CHARACTERS.unicode : WORD_CHARACTERS.legacy;
+  const source = options.wholeWord ? `(?<!${word})(?:${query})(?!${word})` : query;
+  return new RegExp(source, `g${options.caseSensitive ? '' : 'i'}${unicode ? 'u' : ''}`);
+};
+
+// Regular expressions are compiled with the u flag when they allow it; common
+// patterns such as [\w-] or \- are only valid without it.
+export const buildSearchPattern = (options: SearchOptions): { pattern: RegExp | null; error: string | null } => {
+  if (!options.query) return { pattern: null, error: null };
+  const query = options.regex ? options.query : escapeRegExp(options.query);
+  try {
+    return { pattern: compileSearchPattern(query, options, true), error: null };
+  } catch (unicodeError) {
+    if (!options.regex) return { pattern: null, error: (unicodeError as Error).message };
+    try {
+      return { pattern: compileSearchPattern(query, options, false), error: null };
+    } catch (error) {
+      return { pattern: null, error: (error as Error).message };
+    }
+  }
+};
+
+const execAll = (text: string, pattern: RegExp): RegExpExecArray[] => {
+  const results: RegExpExecArray[] = [];
+  pattern.lastIndex = 0;
+  let result: RegExpExecArray | null;
+  while ((result = pattern.exec(text)) !== null) {
+    if (result[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    results.push(result);
+  }
+  return results;
+};
+
+const findInText = (text: string, pattern: RegExp): { offset: number; length: number }[] => {
+  return execAll(text, pattern).map(result => ({ offset: result.index, length: result[0].length }));
+};
+
+// Expands $&, $1, $<name> and the rest the way String.prototype.replace does,
+// from a match made against the whole block so lookarounds and anchors saw
+// the text around it.
+const expandReplacement = (replacement: string, result: RegExpExecArray, text: string): string => {
+  const groupCount = result.length - 1;
+  const group = (digits: string) => {
+    const index = Number(digits);
+    return index >= 1 && index <= groupCount ? result[index] ?? '' : null;
+  };
+  return replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, symbol: string, name?: string) => {
+    if (symbol === '$') return '$';
+    if (symbol === '&') return result[0];
+    if (symbol === '`') return text.slice(0, result.index);
+    if (symbol === "'") return text.slice(result.index + result[0].length);
+    if (name !== undefined) return result.groups ? result.groups[name] ?? '' : token;
+    const value = group(symbol);
+    if (value !== null) return value;
+    const single = symbol.length === 2 ? group(symbol[0]) : null;
+    return single !== null ? single + symbol[1] : token;
+  });
+};
+
+const toMatch = (node: Project, field: SearchMatch['field'], text: string, offset: number, length: number, blockKey?: string): SearchMatch => ({
+  nodeId: node.id,
+  nodeName: node.name,
+  field,
+  blockKey,
+  offset,
+  length,
+  before: text.slice(Math.max(0, offset - SNIPPET_CONTEXT), offset),
+  match: text.slice(offset, offset + length),
+  after: text.slice(offset + length, offset + length + SNIPPET_CONTEXT),
+});
+
+export const matchesFilters = (node: Project, options: SearchOptions): boolean => {
+  if (options.tag && !node.metadata.tags.includes(options.tag)) return false;
+  if (options.status && node.metadata.status !== options.status) return false;
+  if (options.field && !matchesFieldFilter(node.metadata, options.field)) return false;
+  return true;
+};
+
+export const hasActiveFilters = (options: SearchOptions): boolean => Boolean(options.tag || options.status || options.field);
+
+const getSearchableChapters = (projects: Project[], options: SearchOptions) => {
+  return flattenTree(projects)
+    .map(entry => entry.node)
+    .filter(node => node.type === 'chapter' && matchesFilters(node, options));
+};
+
+// Chapters that pass the tag, status and field filters, for listing without a
+// search query.
+export const filterProjects = (projects: Project[], options: SearchOptions): Project[] => getSearchableChapters(projects, options);
+
+export const searchProjects = (projects: Project[], options: SearchOptions): SearchMatch[] => {
+  const { pattern } = buildSearchPattern(options);
+  if (!pattern) return [];
+
+  return getSearchableChapters(projects, options).flatMap(node => {
+    const nameMatches = findInText(node.name, pattern).map(({ offset, length }) => toMatch(node, 'name', node.name, offset, length));
+    const blocks = parseRawContent(node.content)?.blocks || [];
+    const contentMatches = blocks.flatMap(block =>
+      findInText(block.text, pattern).map(({ offset, length }) => toMatch(node, 'content', block.text, offset, length, block.key))
+    );
+    return [...nameMatches, ...contentMatches];
+  });
+};
+
+const codePointIndex = (text: string, utf16Index: number) => Array.from(text.slice(0, utf16Index)).length;
+
+// Rewrites one block's text while keeping its inline styles and entities
+// attached to the right characters. Replacement text takes the styles of the
+// first character it replaces.
+const replaceInBlock = (block: RawDraftContentBlock, pattern: RegExp, replacement: string): { block: RawDraftContentBlock; count: number } => {
+  const matches = execAll(block.text, pattern);
+  if (matches.length === 0) return { block, count: 0 };
+
+  const chars = Array.from(block.text);
+  const styles = chars.map(() => [] as string[]);
+  const entities: (number | null)[] = chars.map(() => null);
+  block.inlineStyleRanges.forEach(range => {
+    for (let i = range.offset; i < range.offset + range.length && i < chars.length; i++) styles[i].push(range.style);
+  });
+  block.entityRanges.forEach(range => {
+    for (let i = range.offset; i < range.offset + range.length && i < chars.length; i++) entities[i] = range.key;
+  });
+
+  const newChars: string[] = [];
+  const newStyles: string[][] = [];
+  const newEntities: (number | null)[] = [];
+  let position = 0;
+  matches.forEach(result => {
+    const offset = result.index;
+    const length = result[0].length;
+    const start = codePointIndex(block.text, offset);
+    const end = codePointIndex(block.text, offset + length);
+    for (; position < start; position++) {
+      newChars.push(chars[position]);
+      newStyles.push(styles[position]);
+      newEntities.push(entities[position]);
+    }
+    Array.from(expandReplacement(replacement, result, block.text)).forEach(char => {
+      newChars.push(char);
+      newStyles.push(styles[start] || []);
+      newEntities.push(entities[start] ?? null);
+    });
+    position = end;
+  });
+  for (; position < chars.length; position++) {
+    newChars.push(chars[position]);
+    newStyles.push(styles[position]);
+    newEntities.push(entities[position]);
+  }
+
+  const inlineStyleRanges: RawDraftContentBlock['inlineStyleRanges'] = [];
+  const entityRanges: RawDraftContentBlock['entityRanges'] = [];
+  newChars.forEach((_, i) => {
+    newStyles[i].forEach(style => {
+      const last = inlineStyleRanges.find(range => range.style === style && range.offset + range.length === i);
+      if (last) {
+        last.length++;
+      } else {
+        inlineStyleRanges.push({ style: style as RawDraftContentBlock['inlineStyleRanges'][number]['style'], offset: i, length: 1 });
+      }
+    });
+    const key = newEntities[i];
+    if (key !== null) {
+      const last = entityRanges[entityRanges.length - 1];
+      if (last && last.key === key && last.offset + last.length === i) {
+        last.length++;
+      } else {
+        entityRanges.push({ key, offset: i, length: 1 });
+      }
+    }
+  });
+
+  return { block: { ...block, text: newChars.join(''), inlineStyleRanges, entityRanges }, count: matches.length };
+};
+
+export const replaceInProjects = (
+  projects: Project[],
+  options: SearchOptions,
+  replacement: string
+): { projects: Project[]; changes: ReplaceChange[]; count: number } => {
+  const { pattern } = buildSearchPattern(options);
+  if (!pattern) return { projects, changes: [], count: 0 };
+
+  const changes: ReplaceChange[] = [];
+  let count = 0;
+  const eligibleIds = new Set(getSearchableChapters(projects, options).map(node => node.id));
+
+  const replaceNodes = (nodes: Project[]): Project[] =>
+    nodes.map(node => {
+      const children = node.children.length > 0 ? replaceNodes(node.children) : node.children;
+      const raw = eligibleIds.has(node.id) ? parseRawContent(node.content) : null;
+      if (!raw) return children === node.children ? node : { ...node, children };
+
+      let nodeCount = 0;
+      const blocks = raw.blocks.map(block => {
+        const result = replaceInBlock(block, pattern, replacement);
+        nodeCount += result.count;
+        return result.block;
+      });
+      if (nodeCount === 0) return children === node.children ? node : { ...node, children };
+
+      count += nodeCount;
+      const updatedRaw: RawDraftContentState = { ...raw, blocks };
+      const content = JSON.stringify(updatedRaw);
+      changes.push({ id: node.id, before: node.content || '', after: content });
+      return {
+        ...node,
+        children,
+        content,
+        metadata: withWordCountMetadata(node.metadata, blocks.map(block => block.text).join('\n')),
+      };
+    });
+
+  return { projects: replaceNodes(projects), changes, count };
+};
+
+// Only chapters whose content is still exactly what the replace produced are
+// reverted, so edits made after the replace are never overwritten. Word counts
+// are recomputed from the restored text and other metadata is left as it is.
+export const undoReplace = (projects: Project[], changes: ReplaceChange[]): { projects: Project[]; reverted: number; skipped: number } => {
+  const changesById = new Map(changes.map(change => [change.id, change]));
+  let reverted = 0;
+
+  const revertNodes = (nodes: Project[]): Project[] =>
+    nodes.map(node => {
+      const children = node.children.length > 0 ? revertNodes(node.children) : node.children;
+      const change = changesById.get(node.id);
+      if (!change || node.content !== change.after) return children === node.children ? node : { ...node, children };
+      reverted++;
+      const text = (parseRawContent(change.before)?.blocks ?? []).map(block => block.text).join('\n');
+      return { ...node, children, content: change.before, metadata: withWordCountMetadata(node.metadata, text) };
+    });
+
+  const updated = revertNodes(projects);
+  return { projects: updated, reverted, skipped: changes.length - reverted };
+};
@@ -0,0 +1,45 @@
+import { node } from '../testUtils';
+import { calculateNodeStats } from './stats';
+import { calculateCompletion, countWords } from './textAnalysis';
+
+const project = node(
+  1,
+  'project',
+  [
+    node(2, 'folder', [
+      node(3, 'chapter', [], { metadata: { actualWordCount: 300, wordCountGoal: 400, status: 'Completed' } }),
+      node(4, 'chapter', [], { metadata: { actualWordCount: 100, status: 'In Progress' } }),
+    ]),
+    node(5, 'chapter', [], { metadata: { actualWordCount: 200, wordCountGoal: 200 } }),
+  ],
+  { metadata: { wordCountGoal: 1000 } }
+);
+
+test('countWords returns 0 for empty text', () => {
+  expect(countWords('')).toBe(0);
+  expect(countWords('  \n ')).toBe(0);
+  expect(countWords('<p>two words</p>')).toBe(2);
+});
+
+test('calculateCompletion is 0 without a goal and capped at 100', () => {
+  expect(calculateCompletion(50, 0)).toBe(0);
+  expect(calculateCompletion(50, NaN)).toBe(0);
+  expect(calculateCompletion(300, 200)).toBe(100);
+});
+
+test('calculateNodeStats rolls up words, progress and statuses', () => {
+  const stats = calculateNodeStats(project);
+  expect(stats.totalWords).toBe(600);
+  expect(stats.goal).toBe(1000);
+  expect(stats.completionPercentage).toBe(60);
+  expect(stats.estimatedReadingTime).toBe(3);
+  expect(stats.chapters.map(chapter => chapter.id)).toEqual([3, 4, 5]);
+  expect(stats.statusCounts).toEqual({ 'Not Started': 1, 'In Progress': 1, Completed: 1 });
+});
+
+test('calculateNodeStats falls back to chapter goals and uses live counts', () => {
+  const stats = calculateNodeStats(project.children[0], { 4: 500 });
+  expect(stats.goal).toBe(400);
+  expect(stats.totalWords).toBe(800);
+  expect(stats.completionPercentage).toBe(100);
+});
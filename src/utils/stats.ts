@@ -0,0 +1,68 @@
+import { Project, ProjectMetadata, StatusDefinition } from '../types';
+import { DEFAULT_STATUSES } from './metadataSchema';
+import { collectChapters } from './tree';
+import { calculateCompletion, estimateReadingTime } from './textAnalysis';
+
+export interface ChapterStats {
+  id: number;
+  name: string;
+  words: number;
+  goal: number;
+  completionPercentage: number;
+  status: string;
+}
+
+export interface NodeStats {
+  totalWords: number;
+  goal: number;
+  completionPercentage: number;
+  estimatedReadingTime: number;
+  chapters: ChapterStats[];
+  statusCounts: Record<string, number>;
+}
+
+// Word counts for chapters whose editor text is newer than what is stored,
+// keyed by chapter id.
+export type LiveWordCounts = Record<number, number>;
+
+const getChapterWords = (chapter: Project, liveCounts: LiveWordCounts) => {
+  const live = liveCounts[chapter.id];
+  if (live !== undefined) return live;
+  return Number.isFinite(chapter.metadata.actualWordCount) ? chapter.metadata.actualWordCount : 0;
+};
+
+const getGoal = (metadata: ProjectMetadata) => (Number.isFinite(metadata.wordCountGoal) && metadata.wordCountGoal > 0 ? metadata.wordCountGoal : 0);
+
+// A container's own goal wins; without one, its progress is measured against
+// the sum of its chapters' goals. Every status in the project's workflow is
+// counted, in workflow order, followed by any that are no longer part of it.
+export const calculateNodeStats = (node: Project, liveCounts: LiveWordCounts = {}, statuses: StatusDefinition[] = DEFAULT_STATUSES): NodeStats => {
+  const chapters = (node.type === 'chapter' ? [node] : collectChapters(node)).map(chapter => {
+    const words = getChapterWords(chapter, liveCounts);
+    const goal = getGoal(chapter.metadata);
+    return {
+      id: chapter.id,
+      name: chapter.name,
+      words,
+      goal,
+      completionPercentage: calculateCompletion(words, goal),
+      status: chapter.metadata.status,
+    };
+  });
+
+  const totalWords = chapters.reduce((sum, chapter) => sum + chapter.words, 0);
+  const goal = getGoal(node.metadata) || chapters.reduce((sum, chapter) => sum + chapter.goal, 0);
+  const statusCounts = statuses.reduce<NodeStats['statusCounts']>((counts, status) => ({ ...counts, [status.name]: 0 }), {});
+  chapters.forEach(chapter => {
+    statusCounts[chapter.status] = (statusCounts[chapter.status] || 0) + 1;
+  });
+
+  return {
+    totalWords,
+    goal,
+    completionPercentage: calculateCompletion(totalWords, goal),
+    estimatedReadingTime: estimateReadingTime(totalWords),
+    chapters,
+    statusCounts,
+  };
+};
@@ -0,0 +1,79 @@
+import {
+  analyzeText,
+  countWords,
+  countSyllables,
+  defaultLintSettings,
+  isAdverb,
+  isFindingIgnored,
+  LINT_SETTINGS_STORAGE_KEY,
+  loadLintSettings,
+  TextBlock,
+} from './textAnalysis';
+
+const blocks = (...texts: string[]): TextBlock[] => texts.map((text, index) => ({ key: `b${index}`, text }));
+
+beforeEach(() => localStorage.clear());
+
+test('analyzeText flags repeated words close together within a paragraph', () => {
+  const analysis = analyzeText(blocks('The castle loomed. Beyond the castle, rain.', 'Another castle.'));
+  const repeats = analysis.findings.filter(finding => finding.rule === 'repeated-word');
+  expect(repeats).toHaveLength(1);
+  expect(repeats[0]).toMatchObject({ blockKey: 'b0', start: 30, end: 36, text: 'castle' });
+});
+
+test('analyzeText flags adverbs and reports their density', () => {
+  const analysis = analyzeText(blocks('She ran quickly and quietly to the early train.'));
+  expect(analysis.findings.filter(finding => finding.rule === 'adverb').map(finding => finding.text)).toEqual(['quickly', 'quietly']);
+  expect(analysis.adverbCount).toBe(2);
+  expect(analysis.adverbDensity).toBe(22.2);
+  expect(isAdverb('only')).toBe(false);
+});
+
+test('analyzeText flags overused phrases and long sentences', () => {
+  const analysis = analyzeText(blocks('He took a deep breath.', 'Then he took a deep breath.', 'Again he took a deep breath.', `${'word '.repeat(40).trim()}.`));
+  expect(analysis.overusedPhrases).toContainEqual({ phrase: 'took a deep', count: 3 });
+  expect(analysis.findings.filter(finding => finding.rule === 'overused-phrase' && finding.text === 'took a deep')).toHaveLength(3);
+  const long = analysis.findings.filter(finding => finding.rule === 'long-sentence');
+  expect(long).toHaveLength(1);
+  expect(long[0].blockKey).toBe('b3');
+  expect(analysis.sentenceLengths.find(bucket => bucket.label === '41+')?.count).toBe(0);
+  expect(analysis.sentenceLengths.find(bucket => bucket.label === '31–40')?.count).toBe(1);
+});
+
+test('analyzeText computes readability and word frequency', () => {
+  const analysis = analyzeText(blocks('The cat sat. The cat ran.'));
+  expect(analysis.wordCount).toBe(6);
+  expect(analysis.sentenceCount).toBe(2);
+  expect(analysis.averageSentenceLength).toBe(3);
+  expect(analysis.readingEase).toBeGreaterThan(100);
+  expect(analysis.wordFrequency[0]).toEqual({ word: 'cat', count: 2 });
+  expect(analyzeText([]).readingEase).toBe(0);
+});
+
+test('countWords and analyzeText agree on hyphens and dashes', () => {
+  const text = "A well-known writer didn't pause — not once - at 3pm.";
+  expect(countWords(text)).toBe(9);
+  expect(analyzeText(blocks(text)).wordCount).toBe(9);
+});
+
+test('countSyllables estimates syllables per word', () => {
+  expect(countSyllables('cat')).toBe(1);
+  expect(countSyllables('water')).toBe(2);
+  expect(countSyllables('elephant')).toBe(3);
+  expect(countSyllables('make')).toBe(1);
+});
+
+test('isFindingIgnored checks ignored rules and words', () => {
+  const [finding] = analyzeText(blocks('She smiled sadly.')).findings;
+  expect(isFindingIgnored(finding, defaultLintSettings)).toBe(false);
+  expect(isFindingIgnored(finding, { ...defaultLintSettings, ignoredRules: ['adverb'] })).toBe(true);
+  expect(isFindingIgnored(finding, { ...defaultLintSettings, ignoredWords: ['sadly'] })).toBe(true);
+});
+
+test('loadLintSettings drops unknown rules and falls back on bad data', () => {
+  localStorage.setItem(LINT_SETTINGS_STORAGE_KEY, JSON.stringify({ highlight: false, ignoredRules: ['adverb', 'nonsense'], ignoredWords: ['very', 3] }));
+  expect(loadLintSettings()).toEqual({ highlight: false, ignoredRules: ['adverb'], ignoredWords: ['very'] });
+  localStorage.setItem(LINT_SETTINGS_STORAGE_KEY, '{');
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  expect(loadLintSettings()).toEqual(defaultLintSettings);
+});
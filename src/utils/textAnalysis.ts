@@ -0,0 +1,281 @@
+import { ProjectMetadata } from '../types';
+
+const WORDS_PER_MINUTE = 250;
+
+// Letters and digits, with apostrophes and hyphens inside a word, so "don't"
+// and "well-known" are one word and a dash between words is not a word.
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+export const countWords = (content: string): number => content.replace(/<[^>]+>/g, ' ').match(WORD_PATTERN)?.length || 0;
+
+export const calculateCompletion = (wordCount: number, goal: number): number => {
+  if (!Number.isFinite(goal) || goal <= 0) return 0;
+  return Math.min((wordCount / goal) * 100, 100);
+};
+
+export const estimateReadingTime = (wordCount: number): number => Math.ceil(wordCount / WORDS_PER_MINUTE);
+
+export const withWordCountMetadata = (metadata: ProjectMetadata, plainText: string): ProjectMetadata => {
+  const wordCount = countWords(plainText);
+  return {
+    ...metadata,
+    actualWordCount: wordCount,
+    lastModified: new Date().toISOString(),
+    completionPercentage: calculateCompletion(wordCount, metadata.wordCountGoal),
+    estimatedReadingTime: estimateReadingTime(wordCount),
+  };
+};
+
+// Style analysis. Everything below works on Draft.js blocks, so findings can
+// point back at a block key and UTF-16 offsets like search matches do.
+export interface TextBlock {
+  key: string;
+  text: string;
+}
+
+const REPEAT_DISTANCE = 25;
+const PHRASE_LENGTH = 3;
+const OVERUSED_PHRASE_COUNT = 3;
+const LONG_SENTENCE_WORDS = 35;
+const TOP_WORDS = 20;
+
+export type LintRule = 'repeated-word' | 'overused-phrase' | 'adverb' | 'long-sentence';
+
+export const LINT_RULES: { id: LintRule; label: string; description: string }[] = [
+  { id: 'repeated-word', label: 'Repeated words', description: `The same word again within ${REPEAT_DISTANCE} words in a paragraph` },
+  { id: 'overused-phrase', label: 'Overused phrases', description: `Three-word phrases used ${OVERUSED_PHRASE_COUNT} or more times` },
+  { id: 'adverb', label: 'Adverbs', description: 'Words ending in -ly' },
+  { id: 'long-sentence', label: 'Long sentences', description: `Sentences over ${LONG_SENTENCE_WORDS} words` },
+];
+
+export interface LintFinding {
+  rule: LintRule;
+  blockKey: string;
+  start: number;
+  end: number;
+  text: string;
+  message: string;
+}
+
+export interface TextAnalysis {
+  wordCount: number;
+  sentenceCount: number;
+  averageSentenceLength: number;
+  // Flesch reading ease (higher is easier) and Flesch-Kincaid grade level.
+  readingEase: number;
+  gradeLevel: number;
+  estimatedReadingTime: number;
+  wordFrequency: { word: string; count: number }[];
+  overusedPhrases: { phrase: string; count: number }[];
+  adverbCount: number;
+  adverbDensity: number;
+  sentenceLengths: { label: string; count: number }[];
+  findings: LintFinding[];
+}
+
+export interface LintSettings {
+  highlight: boolean;
+  ignoredRules: LintRule[];
+  ignoredWords: string[];
+}
+
+export const LINT_SETTINGS_STORAGE_KEY = 'lintSettings';
+
+const SENTENCE_LENGTH_BUCKETS = [
+  { label: '1–10', max: 10 },
+  { label: '11–20', max: 20 },
+  { label: '21–30', max: 30 },
+  { label: '31–40', max: 40 },
+  { label: '41+', max: Infinity },
+];
+
+const STOP_WORDS = new Set(
+  (
+    'a about above after again against all am an and any are as at be because been before being below between both but by ' +
+    'can could did do does doing down during each few for from further had has have having he her here hers herself him ' +
+    'himself his how i if in into is it its itself just me more most my myself no nor not now of off on once only or other ' +
+    'our ours ourselves out over own said same she should so some such than that the their theirs them themselves then ' +
+    "there these they this those through to too under until up very was we were what when where which while who whom why " +
+    "will with would you your yours yourself yourselves i'm it's don't didn't"
+  ).split(' ')
+);
+
+// Common words ending in -ly that aren't adverbs, or are too plain to flag.
+const NOT_ADVERBS = new Set(
+  (
+    'only family early reply apply supply holy ugly belly bully jelly lily rely ally july italy silly lonely lovely friendly ' +
+    'likely daily curly chilly hilly elderly costly deadly lively orderly assembly anomaly monopoly fly sly butterfly'
+  ).split(' ')
+);
+
+const SENTENCE_PATTERN = /[^.!?]+(?:[.!?]+["'”’)\]]*|$)/g;
+
+interface Token {
+  word: string;
+  blockKey: string;
+  start: number;
+  end: number;
+}
+
+const tokenizeBlock = (block: TextBlock): Token[] => {
+  return Array.from(block.text.matchAll(WORD_PATTERN)).map(match => ({
+    word: match[0].toLowerCase().replace(/’/g, "'"),
+    blockKey: block.key,
+    start: match.index || 0,
+    end: (match.index || 0) + match[0].length,
+  }));
+};
+
+const isStopWord = (word: string) => STOP_WORDS.has(word);
+
+export const isAdverb = (word: string): boolean => /^\p{L}{3,}ly$/u.test(word) && !NOT_ADVERBS.has(word.toLowerCase());
+
+// A vowel-group estimate; good enough for readability scores.
+export const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 1;
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(trimmed.match(/[aeiouy]{1,2}/g)?.length || 0, 1);
+};
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const analyzeText = (blocks: TextBlock[]): TextAnalysis => {
+  const findings: LintFinding[] = [];
+  const blockTokens = blocks.map(tokenizeBlock);
+  const tokens = blockTokens.flat();
+  const sentenceWordCounts: number[] = [];
+  const frequency = new Map<string, number>();
+  const phrases = new Map<string, Token[][]>();
+  let adverbCount = 0;
+
+  blocks.forEach((block, blockIndex) => {
+    const words = blockTokens[blockIndex];
+    const lastSeen = new Map<string, number>();
+
+    words.forEach((token, index) => {
+      if (!isStopWord(token.word)) frequency.set(token.word, (frequency.get(token.word) || 0) + 1);
+
+      const previous = lastSeen.get(token.word);
+      if (previous !== undefined && index - previous <= REPEAT_DISTANCE && token.word.length > 2 && !isStopWord(token.word)) {
+        findings.push({
+          rule: 'repeated-word',
+          blockKey: block.key,
+          start: token.start,
+          end: token.end,
+          text: block.text.slice(token.start, token.end),
+          message: `"${token.word}" was also used ${index - previous} ${index - previous === 1 ? 'word' : 'words'} earlier`,
+        });
+      }
+      lastSeen.set(token.word, index);
+
+      if (isAdverb(token.word)) {
+        adverbCount++;
+        findings.push({ rule: 'adverb', blockKey: block.key, start: token.start, end: token.end, text: block.text.slice(token.start, token.end), message: 'Adverb' });
+      }
+
+      const phrase = words.slice(index, index + PHRASE_LENGTH);
+      if (phrase.length === PHRASE_LENGTH && !phrase.every(word => isStopWord(word.word))) {
+        const key = phrase.map(word => word.word).join(' ');
+        const occurrences = phrases.get(key);
+        if (occurrences) {
+          occurrences.push(phrase);
+        } else {
+          phrases.set(key, [phrase]);
+        }
+      }
+    });
+
+    Array.from(block.text.matchAll(SENTENCE_PATTERN)).forEach(match => {
+      const start = (match.index || 0) + (match[0].length - match[0].trimStart().length);
+      const end = (match.index || 0) + match[0].trimEnd().length;
+      const count = words.filter(token => token.start >= start && token.end <= end).length;
+      if (count === 0) return;
+      sentenceWordCounts.push(count);
+      if (count > LONG_SENTENCE_WORDS) {
+        findings.push({ rule: 'long-sentence', blockKey: block.key, start, end, text: block.text.slice(start, end), message: `Sentence of ${count} words` });
+      }
+    });
+  });
+
+  const overused = Array.from(phrases.entries())
+    .filter(([, occurrences]) => occurrences.length >= OVERUSED_PHRASE_COUNT)
+    .sort((a, b) => b[1].length - a[1].length);
+  overused.forEach(([phrase, occurrences]) => {
+    occurrences.forEach(words => {
+      const block = blocks.find(candidate => candidate.key === words[0].blockKey);
+      const start = words[0].start;
+      const end = words[words.length - 1].end;
+      findings.push({
+        rule: 'overused-phrase',
+        blockKey: words[0].blockKey,
+        start,
+        end,
+        text: block ? block.text.slice(start, end) : phrase,
+        message: `"${phrase}" appears ${occurrences.length} times`,
+      });
+    });
+  });
+
+  const wordCount = tokens.length;
+  const sentenceCount = sentenceWordCounts.length;
+  const syllables = tokens.reduce((sum, token) => sum + countSyllables(token.word), 0);
+  const wordsPerSentence = sentenceCount > 0 ? wordCount / sentenceCount : 0;
+  const syllablesPerWord = wordCount > 0 ? syllables / wordCount : 0;
+  const blockOrder = new Map(blocks.map((block, index) => [block.key, index]));
+
+  return {
+    wordCount,
+    sentenceCount,
+    averageSentenceLength: round(wordsPerSentence),
+    readingEase: wordCount > 0 ? round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord) : 0,
+    gradeLevel: wordCount > 0 ? round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59) : 0,
+    estimatedReadingTime: estimateReadingTime(wordCount),
+    wordFrequency: Array.from(frequency.entries())
+      .map(([word, count]) => ({ word, count }))
+      .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+      .slice(0, TOP_WORDS),
+    overusedPhrases: overused.map(([phrase, occurrences]) => ({ phrase, count: occurrences.length })),
+    adverbCount,
+    adverbDensity: wordCount > 0 ? round((adverbCount / wordCount) * 100) : 0,
+    sentenceLengths: SENTENCE_LENGTH_BUCKETS.map((bucket, index) => ({
+      label: bucket.label,
+      count: sentenceWordCounts.filter(count => count <= bucket.max && (index === 0 || count > SENTENCE_LENGTH_BUCKETS[index - 1].max)).length,
+    })),
+    findings: findings.sort((a, b) => (blockOrder.get(a.blockKey) || 0) - (blockOrder.get(b.blockKey) || 0) || a.start - b.start),
+  };
+};
+
+export const describeReadingEase = (score: number): string => {
+  if (score >= 80) return 'Easy';
+  if (score >= 60) return 'Plain English';
+  if (score >= 50) return 'Fairly difficult';
+  if (score >= 30) return 'Difficult';
+  return 'Very difficult';
+};
+
+export const isFindingIgnored = (finding: LintFinding, settings: LintSettings): boolean => {
+  return settings.ignoredRules.includes(finding.rule) || settings.ignoredWords.includes(finding.text.toLowerCase());
+};
+
+export const defaultLintSettings: LintSettings = { highlight: false, ignoredRules: [], ignoredWords: [] };
+
+export const loadLintSettings = (): LintSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LINT_SETTINGS_STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return defaultLintSettings;
+    return {
+      highlight: typeof saved.highlight === 'boolean' ? saved.highlight : defaultLintSettings.highlight,
+      ignoredRules: Array.isArray(saved.ignoredRules) ? saved.ignoredRules.filter((rule: unknown) => LINT_RULES.some(known => known.id === rule)) : [],
+      ignoredWords: Array.isArray(saved.ignoredWords) ? saved.ignoredWords.filter((word: unknown) => typeof word === 'string') : [],
+    };
+  } catch (error) {
+    console.error('Error reading lint settings:', error);
+    return defaultLintSettings;
+  }
+};
+
+export const saveLintSettings = (settings: LintSettings) => {
+  localStorage.setItem(LINT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
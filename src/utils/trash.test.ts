@@ -0,0 +1,48 @@
+import { node } from '../testUtils';
+import { Project } from '../types';
+import { findNode } from './tree';
+import { emptyTrash, getBinder, getTrashedItems, moveToTrash, purgeFromTrash, restoreFromTrash } from './trash';
+
+const tree = [node(1, 'project', [node(2, 'folder', [node(3, 'chapter')]), node(4, 'chapter')]), node(5, 'project')];
+
+const trashed = (projects: Project[] | null) => {
+  if (!projects) throw new Error('expected the operation to apply');
+  return projects;
+};
+
+test('moveToTrash keeps the trash after the binder', () => {
+  const updated = trashed(moveToTrash(tree, 4));
+  expect(updated[updated.length - 1].type).toBe('trash');
+  expect(getBinder(updated).map(project => project.id)).toEqual([1, 5]);
+  expect(getTrashedItems(updated)[0].trashedFrom).toMatchObject({ parentId: 1, index: 1 });
+});
+
+test('restoreFromTrash puts an item back where it was', () => {
+  const restored = trashed(restoreFromTrash(trashed(moveToTrash(tree, 2)), 2));
+  expect(findNode(restored, 1)?.children.map(child => child.id)).toEqual([2, 4]);
+  expect(findNode(restored, 2)?.trashedFrom).toBeUndefined();
+  expect(getTrashedItems(restored)).toEqual([]);
+});
+
+test('an item whose folder is in the trash waits for the folder', () => {
+  const updated = trashed(moveToTrash(trashed(moveToTrash(tree, 3)), 2));
+  expect(restoreFromTrash(updated, 3)).toBeNull();
+  const withFolder = trashed(restoreFromTrash(updated, 2));
+  expect(findNode(trashed(restoreFromTrash(withFolder, 3)), 2)?.children.map(child => child.id)).toEqual([3]);
+});
+
+test('items whose folder was purged go into the nearest folder left', () => {
+  const updated = purgeFromTrash(trashed(moveToTrash(trashed(moveToTrash(tree, 3)), 2)), 2);
+  const restored = trashed(restoreFromTrash(updated, 3));
+  expect(findNode(restored, 1)?.children.map(child => child.id)).toEqual([4, 3]);
+});
+
+test('items with no folder left return to the top level', () => {
+  const updated = purgeFromTrash(trashed(moveToTrash(trashed(moveToTrash(tree, 3)), 1)), 1);
+  const restored = trashed(restoreFromTrash(updated, 3));
+  expect(getBinder(restored).map(project => project.id)).toEqual([5, 3]);
+});
+
+test('emptyTrash removes every trashed item', () => {
+  expect(getTrashedItems(emptyTrash(trashed(moveToTrash(tree, 5))))).toEqual([]);
+});
@@ -0,0 +1,76 @@
+import { Project } from '../types';
+import { createDefaultMetadata } from './metadata';
+import { findNode, findNodePosition, insertNodeAt, isContainer, removeNode } from './tree';
+
+// Deleted items live in a single trash node stored after the last project, so
+// they are saved, loaded and migrated along with everything else. The binder
+// and every feature that walks the manuscript only see getBinder().
+export const TRASH_ID = -1;
+
+const isTrash = (project: Project) => project.type === 'trash';
+
+const createTrash = (): Project => ({
+  id: TRASH_ID,
+  name: 'Trash',
+  type: 'trash',
+  children: [],
+  metadata: createDefaultMetadata(),
+});
+
+export const getBinder = (projects: Project[]): Project[] => projects.filter(project => !isTrash(project));
+
+export const getTrashedItems = (projects: Project[]): Project[] => projects.find(isTrash)?.children || [];
+
+// Puts an updated binder back together with the trash, keeping the trash last
+// so binder indexes line up with indexes into the stored list.
+export const withBinder = (projects: Project[], binder: Project[]): Project[] => [...getBinder(binder), ...projects.filter(isTrash)];
+
+const withTrashedItems = (binder: Project[], projects: Project[], items: Project[]): Project[] => {
+  return [...binder, { ...(projects.find(isTrash) || createTrash()), children: items }];
+};
+
+const findAncestorIds = (binder: Project[], parentId: number | null): number[] => {
+  const ancestorIds: number[] = [];
+  let current = parentId !== null ? findNodePosition(binder, parentId)?.parentId ?? null : null;
+  while (current !== null) {
+    ancestorIds.push(current);
+    current = findNodePosition(binder, current)?.parentId ?? null;
+  }
+  return ancestorIds;
+};
+
+export const moveToTrash = (projects: Project[], id: number): Project[] | null => {
+  const binder = getBinder(projects);
+  const node = findNode(binder, id);
+  const position = findNodePosition(binder, id);
+  if (!node || !position) return null;
+  const trashedFrom = { ...position, ancestorIds: findAncestorIds(binder, position.parentId), deletedAt: new Date().toISOString() };
+  const trashed = { ...node, trashedFrom };
+  return withTrashedItems(removeNode(binder, id), projects, [trashed, ...getTrashedItems(projects)]);
+};
+
+// Returns null when the item's folder is itself in the trash; that folder has
+// to be restored first. Items whose folder is gone for good go into the
+// nearest folder above it that's left, or the top level.
+export const restoreFromTrash = (projects: Project[], id: number): Project[] | null => {
+  const items = getTrashedItems(projects);
+  const item = items.find(trashed => trashed.id === id);
+  if (!item) return null;
+  const { trashedFrom, ...node } = item;
+  const binder = getBinder(projects);
+  const originalParentId = trashedFrom?.parentId ?? null;
+  if (originalParentId !== null && !findNode(binder, originalParentId) && findNode(items, originalParentId)) return null;
+
+  const candidates = originalParentId !== null ? [originalParentId, ...(trashedFrom?.ancestorIds || [])] : [];
+  const parent = candidates.map(candidate => findNode(binder, candidate)).find(found => found && isContainer(found)) || null;
+  const parentId = parent ? parent.id : null;
+  const siblings = parent && parentId !== null ? parent.children : binder;
+  const index = parentId === originalParentId ? Math.min(trashedFrom?.index ?? siblings.length, siblings.length) : siblings.length;
+  return withTrashedItems(insertNodeAt(binder, parentId, node, index), projects, items.filter(trashed => trashed.id !== id));
+};
+
+export const purgeFromTrash = (projects: Project[], id: number): Project[] => {
+  return withTrashedItems(getBinder(projects), projects, getTrashedItems(projects).filter(item => item.id !== id));
+};
+
+export const emptyTrash = (projects: Project[]): Project[] => withTrashedItems(getBinder(projects), projects, []);
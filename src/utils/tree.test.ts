@@ -0,0 +1,49 @@
+import { node } from '../testUtils';
+import { addChildToNode, collectChapters, countDescendants, findNode, getAdjacentChapter, moveNode, removeNode } from './tree';
+
+const tree = [node(1, 'project', [node(2, 'folder', [node(3, 'folder', [node(4, 'chapter')])]), node(5, 'chapter')])];
+
+test('addChildToNode inserts at any depth', () => {
+  const updated = addChildToNode(tree, 3, node(6, 'chapter'));
+  expect(findNode(updated, 3)?.children.map(child => child.id)).toEqual([4, 6]);
+  expect(findNode(tree, 3)?.children.map(child => child.id)).toEqual([4]);
+});
+
+test('removeNode removes a nested subtree', () => {
+  const updated = removeNode(tree, 2);
+  expect(findNode(updated, 2)).toBeNull();
+  expect(findNode(updated, 4)).toBeNull();
+  expect(findNode(updated, 5)).not.toBeNull();
+});
+
+test('countDescendants counts every level', () => {
+  expect(countDescendants(tree[0])).toBe(4);
+});
+
+test('moveNode re-parents a chapter into another folder', () => {
+  const updated = moveNode(tree, 5, 3, 0);
+  expect(findNode(updated, 3)?.children.map(child => child.id)).toEqual([5, 4]);
+  expect(findNode(updated, 1)?.children.map(child => child.id)).toEqual([2]);
+});
+
+test('moveNode reorders within the same list', () => {
+  const updated = moveNode(tree, 5, 1, 0);
+  expect(updated[0].children.map(child => child.id)).toEqual([5, 2]);
+});
+
+test('moveNode refuses to move a folder into its own subtree', () => {
+  expect(moveNode(tree, 2, 3, 0)).toBe(tree);
+});
+
+test('collectChapters skips anything inside a research folder', () => {
+  const project = node(1, 'project', [node(2, 'chapter'), node(3, 'research', [node(4, 'chapter'), node(5, 'note')])]);
+  expect(collectChapters(project).map(chapter => chapter.id)).toEqual([2]);
+});
+
+test('getAdjacentChapter steps through chapters in manuscript order', () => {
+  expect(getAdjacentChapter(tree, 4, 1)?.id).toBe(5);
+  expect(getAdjacentChapter(tree, 5, -1)?.id).toBe(4);
+  expect(getAdjacentChapter(tree, 5, 1)).toBeNull();
+  expect(getAdjacentChapter(tree, 2, 1)?.id).toBe(4);
+  expect(getAdjacentChapter(tree, null, -1)?.id).toBe(5);
+});
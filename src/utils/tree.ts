@@ -0,0 +1,151 @@
+import { Project } from '../types';
+
+export const isContainer = (node: Project): boolean => node.type === 'project' || node.type === 'folder' || node.type === 'research';
+
+// Chapters and research notes are both edited as Draft.js text.
+export const isTextDocument = (node: Project): boolean => node.type === 'chapter' || node.type === 'note';
+
+export const findNode = (projects: Project[], id: number): Project | null => {
+  for (const project of projects) {
+    if (project.id === id) return project;
+    const found = findNode(project.children, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const findRootProject = (projects: Project[], id: number): Project | null => {
+  return projects.find(project => containsNode(project, id)) || null;
+};
+
+export const addChildToNode = (projects: Project[], parentId: number, child: Project): Project[] => {
+  return projects.map(project => {
+    if (project.id === parentId) {
+      return { ...project, children: [...project.children, child] };
+    } else if (project.children.length > 0) {
+      return { ...project, children: addChildToNode(project.children, parentId, child) };
+    }
+    return project;
+  });
+};
+
+export const updateNode = (projects: Project[], id: number, update: (node: Project) => Project): Project[] => {
+  return projects.map(project => {
+    if (project.id === id) {
+      return update(project);
+    } else if (project.children.length > 0) {
+      return { ...project, children: updateNode(project.children, id, update) };
+    }
+    return project;
+  });
+};
+
+export interface NodePosition {
+  parentId: number | null;
+  index: number;
+}
+
+export const findNodePosition = (projects: Project[], id: number, parentId: number | null = null): NodePosition | null => {
+  const index = projects.findIndex(project => project.id === id);
+  if (index !== -1) return { parentId, index };
+  for (const project of projects) {
+    const found = findNodePosition(project.children, id, project.id);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const removeNode = (projects: Project[], id: number): Project[] => {
+  return projects
+    .filter(project => project.id !== id)
+    .map(project => (project.children.length > 0 ? { ...project, children: removeNode(project.children, id) } : project));
+};
+
+export const countDescendants = (node: Project): number => {
+  return node.children.reduce((total, child) => total + 1 + countDescendants(child), 0);
+};
+
+export const containsNode = (node: Project, id: number): boolean => {
+  return node.id === id || node.children.some(child => containsNode(child, id));
+};
+
+export const ROOT_DROPPABLE_ID = 'binder-root';
+
+export const getDroppableId = (parentId: number | null): string => (parentId === null ? ROOT_DROPPABLE_ID : `binder-${parentId}`);
+
+export const parseDroppableId = (droppableId: string): number | null => {
+  return droppableId === ROOT_DROPPABLE_ID ? null : Number(droppableId.replace('binder-', ''));
+};
+
+export const insertNodeAt = (projects: Project[], parentId: number | null, node: Project, index: number): Project[] => {
+  if (parentId === null) {
+    const items = Array.from(projects);
+    items.splice(index, 0, node);
+    return items;
+  }
+  return projects.map(project => {
+    if (project.id === parentId) {
+      const children = Array.from(project.children);
+      children.splice(index, 0, node);
+      return { ...project, children };
+    } else if (project.children.length > 0) {
+      return { ...project, children: insertNodeAt(project.children, parentId, node, index) };
+    }
+    return project;
+  });
+};
+
+export const moveNode = (projects: Project[], nodeId: number, parentId: number | null, index: number): Project[] => {
+  const node = findNode(projects, nodeId);
+  if (!node) return projects;
+  if (parentId !== null) {
+    const parent = findNode(projects, parentId);
+    if (!parent || !isContainer(parent) || containsNode(node, parentId)) return projects;
+  }
+  return insertNodeAt(removeNode(projects, nodeId), parentId, node, index);
+};
+
+export interface FlatNode {
+  node: Project;
+  depth: number;
+}
+
+export const flattenTree = (projects: Project[], depth = 0): FlatNode[] => {
+  return projects.flatMap(project => [{ node: project, depth }, ...flattenTree(project.children, depth + 1)]);
+};
+
+// Like flattenTree, but leaves out research folders and everything in them,
+// since research is never counted, exported or compiled.
+export const flattenManuscript = (projects: Project[], depth = 0): FlatNode[] => {
+  return projects
+    .filter(project => project.type !== 'research')
+    .flatMap(project => [{ node: project, depth }, ...flattenManuscript(project.children, depth + 1)]);
+};
+
+export const collectChapters = (node: Project): Project[] => {
+  return flattenManuscript(node.children)
+    .map(entry => entry.node)
+    .filter(child => child.type === 'chapter');
+};
+
+// The chapter before or after an item in manuscript order. From a folder,
+// the next chapter is its first one; with nothing open, "next" starts at the
+// beginning and "previous" at the end.
+export const getAdjacentChapter = (projects: Project[], id: number | null, direction: 1 | -1): Project | null => {
+  const entries = flattenManuscript(projects).map(entry => entry.node);
+  const index = entries.findIndex(node => node.id === id);
+  const start = index === -1 ? (direction === 1 ? 0 : entries.length - 1) : index + direction;
+  for (let i = start; i >= 0 && i < entries.length; i += direction) {
+    if (entries[i].type === 'chapter') return entries[i];
+  }
+  return null;
+};
+
+let lastGeneratedId = 0;
+
+// Date.now() alone collides when several nodes are created in the same tick,
+// e.g. when importing a batch of files.
+export const generateId = (): number => {
+  lastGeneratedId = Math.max(Date.now(), lastGeneratedId + 1);
+  return lastGeneratedId;
+};
@@ -0,0 +1,2 @@
+// For validating data read from files and local storage.
+export const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,31 @@
+import { RawDraftContentBlock } from 'draft-js';
+import { createVersion, diffBlocks } from './versions';
+
+const block = (text: string, type = 'unstyled'): RawDraftContentBlock => ({
+  key: text,
+  type,
+  text,
+  depth: 0,
+  inlineStyleRanges: [],
+  entityRanges: [],
+});
+
+test('diffBlocks marks changed paragraphs as removed and added', () => {
+  const diff = diffBlocks([block('One'), block('Two'), block('Three')], [block('One'), block('Deux'), block('Three')]);
+  expect(diff.map(entry => `${entry.kind}:${entry.text}`)).toEqual([
+    'unchanged:One',
+    'removed:Two',
+    'added:Deux',
+    'unchanged:Three',
+  ]);
+});
+
+test('diffBlocks treats a block type change as a change', () => {
+  const diff = diffBlocks([block('Title')], [block('Title', 'header-one')]);
+  expect(diff.map(entry => entry.kind)).toEqual(['removed', 'added']);
+});
+
+test('createVersion drops blank labels', () => {
+  expect(createVersion('{}', '   ').label).toBeUndefined();
+  expect(createVersion('{}', ' Draft 2 ').label).toBe('Draft 2');
+});
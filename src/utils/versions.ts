@@ -0,0 +1,60 @@
+import { RawDraftContentBlock } from 'draft-js';
+import { ChapterVersion } from '../types';
+
+export interface BlockDiffEntry {
+  kind: 'added' | 'removed' | 'unchanged';
+  type: string;
+  text: string;
+}
+
+export const createVersion = (content: string, label?: string): ChapterVersion => {
+  const trimmedLabel = label?.trim();
+  return {
+    id: Date.now(),
+    content,
+    timestamp: new Date().toISOString(),
+    ...(trimmedLabel ? { label: trimmedLabel } : {}),
+  };
+};
+
+const sameBlock = (a: RawDraftContentBlock, b: RawDraftContentBlock) => a.type === b.type && a.text === b.text;
+
+// Longest-common-subsequence over whole blocks, so a paragraph that changed
+// shows up as one removed and one added entry.
+export const diffBlocks = (oldBlocks: RawDraftContentBlock[], newBlocks: RawDraftContentBlock[]): BlockDiffEntry[] => {
+  const rows = oldBlocks.length;
+  const cols = newBlocks.length;
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = sameBlock(oldBlocks[i], newBlocks[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const entries: BlockDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (sameBlock(oldBlocks[i], newBlocks[j])) {
+      entries.push({ kind: 'unchanged', type: newBlocks[j].type, text: newBlocks[j].text });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      entries.push({ kind: 'removed', type: oldBlocks[i].type, text: oldBlocks[i].text });
+      i++;
+    } else {
+      entries.push({ kind: 'added', type: newBlocks[j].type, text: newBlocks[j].text });
+      j++;
+    }
+  }
+  for (; i < rows; i++) {
+    entries.push({ kind: 'removed', type: oldBlocks[i].type, text: oldBlocks[i].text });
+  }
+  for (; j < cols; j++) {
+    entries.push({ kind: 'added', type: newBlocks[j].type, text: newBlocks[j].text });
+  }
+  return entries;
+};
@@ -0,0 +1,64 @@
+import { node } from '../testUtils';
+import {
+  calculateDailyTarget,
+  calculateStreak,
+  combineWritingDays,
+  createWritingLog,
+  getRecentDays,
+  recordProjectWords,
+  recordWords,
+  toDateKey,
+} from './writingLog';
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12);
+
+test('recordWords adds to the same day and keeps days sorted', () => {
+  let log = recordWords(undefined, 100, day(2024, 3, 2));
+  log = recordWords(log, 50, day(2024, 3, 2));
+  log = recordWords(log, 20, day(2024, 3, 1));
+  expect(log.days).toEqual([
+    { date: '2024-03-01', words: 20 },
+    { date: '2024-03-02', words: 150 },
+  ]);
+});
+
+test('recordProjectWords credits the top-level project of a nested chapter', () => {
+  const projects = [node(1, 'project', [node(2, 'folder', [node(3, 'chapter')])]), node(4, 'project')];
+  const updated = recordProjectWords(projects, 3, 42, day(2024, 3, 2));
+  expect(updated[0].writingLog?.days).toEqual([{ date: '2024-03-02', words: 42 }]);
+  expect(updated[1].writingLog).toBeUndefined();
+});
+
+test('calculateStreak counts consecutive days up to today or yesterday', () => {
+  const days = [
+    { date: '2024-02-28', words: 10 },
+    { date: '2024-02-29', words: 0 },
+    { date: '2024-03-01', words: 10 },
+    { date: '2024-03-02', words: 10 },
+  ];
+  expect(calculateStreak(days, day(2024, 3, 2))).toBe(2);
+  expect(calculateStreak(days, day(2024, 3, 3))).toBe(2);
+  expect(calculateStreak(days, day(2024, 3, 4))).toBe(0);
+});
+
+test('calculateDailyTarget spreads the remaining words over the days left', () => {
+  expect(calculateDailyTarget(10000, 4000, '2024-03-10', day(2024, 3, 1))).toBe(600);
+  expect(calculateDailyTarget(10000, 4000, undefined, day(2024, 3, 1))).toBeNull();
+  expect(calculateDailyTarget(0, 4000, '2024-03-10', day(2024, 3, 1))).toBeNull();
+  expect(calculateDailyTarget(10000, 4000, '2024-02-01', day(2024, 3, 1))).toBe(6000);
+});
+
+test('combineWritingDays and getRecentDays fill in the history', () => {
+  const projects = [
+    { ...node(1, 'project'), writingLog: createWritingLog({ days: [{ date: '2024-03-01', words: 5 }] }) },
+    { ...node(2, 'project'), writingLog: createWritingLog({ days: [{ date: '2024-03-01', words: 7 }] }) },
+  ];
+  const days = combineWritingDays(projects);
+  expect(days).toEqual([{ date: '2024-03-01', words: 12 }]);
+  expect(getRecentDays(days, 3, day(2024, 3, 2))).toEqual([
+    { date: '2024-02-29', words: 0 },
+    { date: '2024-03-01', words: 12 },
+    { date: '2024-03-02', words: 0 },
+  ]);
+  expect(toDateKey(day(2024, 1, 5))).toBe('2024-01-05');
+});
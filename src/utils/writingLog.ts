@@ -0,0 +1,95 @@
+import { Project, WritingDay, WritingLog } from '../types';
+import { findRootProject } from './tree';
+
+export const DEFAULT_SESSION_TARGET = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const createWritingLog = (overrides: Partial<WritingLog> = {}): WritingLog => ({
+  sessionTarget: DEFAULT_SESSION_TARGET,
+  days: [],
+  ...overrides,
+});
+
+// Days are keyed by the writer's local date, not UTC, so late-night sessions
+// count towards the day they happened.
+export const toDateKey = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, count: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + count);
+
+export const recordWords = (log: WritingLog | undefined, words: number, date = new Date()): WritingLog => {
+  const current = log || createWritingLog();
+  const key = toDateKey(date);
+  const existing = current.days.find(day => day.date === key);
+  const days = existing
+    ? current.days.map(day => (day.date === key ? { ...day, words: day.words + words } : day))
+    : [...current.days, { date: key, words }].sort((a, b) => a.date.localeCompare(b.date));
+  return { ...current, days };
+};
+
+// Credits words written in a chapter to the top-level project that contains it.
+export const recordProjectWords = (projects: Project[], chapterId: number, words: number, date = new Date()): Project[] => {
+  if (words === 0) return projects;
+  const root = findRootProject(projects, chapterId);
+  if (!root) return projects;
+  return projects.map(project => (project.id === root.id ? { ...project, writingLog: recordWords(project.writingLog, words, date) } : project));
+};
+
+export const updateWritingLog = (projects: Project[], projectId: number, changes: Partial<WritingLog>): Project[] => {
+  return projects.map(project =>
+    project.id === projectId ? { ...project, writingLog: { ...createWritingLog(project.writingLog), ...changes } } : project
+  );
+};
+
+export const getWordsOn = (days: WritingDay[], date: Date): number => {
+  const key = toDateKey(date);
+  return days.find(day => day.date === key)?.words || 0;
+};
+
+// Adds up every project's log so the history can be shown across projects.
+export const combineWritingDays = (projects: Project[]): WritingDay[] => {
+  const totals = new Map<string, number>();
+  projects.forEach(project => {
+    (project.writingLog?.days || []).forEach(day => totals.set(day.date, (totals.get(day.date) || 0) + day.words));
+  });
+  return Array.from(totals, ([date, words]) => ({ date, words })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// A day with net words written keeps the streak going. Today doesn't break
+// the streak until it is over.
+export const calculateStreak = (days: WritingDay[], today = new Date()): number => {
+  const written = new Set(days.filter(day => day.words > 0).map(day => day.date));
+  let date = written.has(toDateKey(today)) ? today : addDays(today, -1);
+  let streak = 0;
+  while (written.has(toDateKey(date))) {
+    streak++;
+    date = addDays(date, -1);
+  }
+  return streak;
+};
+
+// Words per day needed to reach the goal by the deadline, counting today.
+export const calculateDailyTarget = (goal: number, totalWords: number, deadline: string | undefined, today = new Date()): number | null => {
+  if (!deadline || goal <= 0) return null;
+  const remainingWords = Math.max(goal - totalWords, 0);
+  const daysLeft = Math.round((fromDateKey(deadline).getTime() - fromDateKey(toDateKey(today)).getTime()) / DAY_MS) + 1;
+  if (daysLeft <= 0) return remainingWords;
+  return Math.ceil(remainingWords / daysLeft);
+};
+
+// The last `count` days up to and including today, with days that have no
+// entry filled in as zero.
+export const getRecentDays = (days: WritingDay[], count: number, today = new Date()): WritingDay[] => {
+  return Array.from({ length: count }, (_, index) => {
+    const date = addDays(today, index - count + 1);
+    return { date: toDateKey(date), words: getWordsOn(days, date) };
+  });
+};
@@ -3,8 +3,16 @@ module.exports = {
   content: [
     "./src/**/*.{js,jsx,ts,tsx}",
   ],
+  darkMode: 'class',
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        paper: 'var(--background-color)',
+        panel: 'var(--panel-color)',
+        ink: 'var(--text-color)',
+        accent: 'var(--primary-color)',
+      },
+    },
   },
   plugins: [],
-}
\ No newline at end of file
+}